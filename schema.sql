@@ -3,17 +3,163 @@
 
 CREATE TABLE submissions (
   id TEXT PRIMARY KEY,
+  reference TEXT, -- Customer-facing code quoted in emails, e.g. REF-7K2M-X9QD
+  form_id TEXT NOT NULL DEFAULT 'default', -- "default" or a key of CONFIG.forms
   name TEXT NOT NULL,
   email TEXT,
   phone TEXT,
   service_type TEXT NOT NULL,
   message TEXT NOT NULL,
   status TEXT DEFAULT 'new',
-  priority TEXT DEFAULT 'normal',
+  priority TEXT DEFAULT 'normal', -- A CONFIG.contactForm.priorityLevels value
+  custom_fields TEXT, -- JSON object of non-core CONFIG.contactForm.fields values
+  ip_address TEXT,
+  user_agent TEXT,
+  spam_reason TEXT,
+  referrer TEXT, -- Referer of the form page, i.e. where the visitor came from
+  source TEXT NOT NULL DEFAULT 'form', -- form or email (sent to the intake address)
+  assigned_to TEXT, -- Email of the admin handling the submission
+  routing_rules TEXT, -- JSON array of the CONFIG.routing.rules names that fired
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Basic index for admin queries
 CREATE INDEX idx_submissions_status ON submissions(status);
-CREATE INDEX idx_submissions_created ON submissions(created_at DESC);
\ No newline at end of file
+CREATE INDEX idx_submissions_created ON submissions(created_at DESC);
+CREATE INDEX idx_submissions_form ON submissions(form_id, created_at DESC);
+-- Per-IP rate limiting on POST /submit
+CREATE INDEX idx_submissions_ip_created ON submissions(ip_address, created_at);
+-- Assignee filter in the admin dashboard and API
+CREATE INDEX idx_submissions_assigned ON submissions(assigned_to, created_at DESC);
+-- References are quoted by customers, so each identifies one submission
+CREATE UNIQUE INDEX idx_submissions_reference ON submissions(reference);
+
+-- Admin changes to status, priority and assignment, shown on the submission detail page
+CREATE TABLE submission_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  submission_id TEXT NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  field TEXT NOT NULL, -- status, priority or assigned_to
+  old_value TEXT,
+  new_value TEXT,
+  actor TEXT NOT NULL, -- Admin email
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_submission_events_submission ON submission_events(submission_id, created_at);
+
+-- Internal notes on a submission; never shown to the customer
+CREATE TABLE submission_notes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  submission_id TEXT NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  author TEXT NOT NULL, -- Admin email
+  body TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_submission_notes_submission ON submission_notes(submission_id, created_at);
+
+-- Emails exchanged with the submitter, threaded by Message-ID
+CREATE TABLE messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  submission_id TEXT NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL, -- outbound (admin reply) or inbound (customer email)
+  message_id TEXT NOT NULL UNIQUE, -- <...@domain>
+  in_reply_to TEXT,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  sent_by TEXT, -- Admin email for outbound messages
+  status TEXT NOT NULL, -- sent, failed or received
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_messages_submission ON messages(submission_id, created_at);
+
+-- Every admin mutation: who, what, before/after and from where (viewable at /admin/audit)
+CREATE TABLE audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  actor TEXT NOT NULL, -- Admin email (lowercase) or service token Client ID
+  action TEXT NOT NULL, -- e.g. submission.status, see AUDIT_ACTIONS in src/audit.ts
+  target_id TEXT, -- Usually a submission id; not a foreign key so entries outlive deletes
+  before_value TEXT, -- JSON
+  after_value TEXT, -- JSON
+  ip_address TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_audit_log_created ON audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_actor ON audit_log(actor, created_at DESC);
+CREATE INDEX idx_audit_log_target ON audit_log(target_id, created_at DESC);
+
+-- Notification emails waiting to be sent, sent, or dead-lettered (see src/outbox.ts)
+CREATE TABLE outbox (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  kind TEXT NOT NULL, -- e.g. admin_notification
+  submission_id TEXT, -- Kept after the submission is deleted, as a delivery record
+  recipients TEXT NOT NULL, -- Comma-separated To and CC
+  subject TEXT NOT NULL,
+  payload TEXT NOT NULL, -- JSON message, as handed to the email transport
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, sent or dead
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  sent_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Due messages for the cron trigger, and the admin outbox view
+CREATE INDEX idx_outbox_due ON outbox(status, next_attempt_at);
+CREATE INDEX idx_outbox_created ON outbox(created_at DESC);
+
+-- Webhook POSTs per endpoint and event: the delivery log (see src/webhooks.ts)
+CREATE TABLE webhook_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT, -- Sent as X-Webhook-Id
+  endpoint TEXT NOT NULL, -- CONFIG.webhooks.endpoints name
+  url TEXT NOT NULL,
+  event TEXT NOT NULL, -- e.g. submission.created, or webhook.test
+  submission_id TEXT, -- Kept after the submission is deleted, as a delivery record
+  payload TEXT NOT NULL, -- JSON body, signed when sent
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, delivered or dead
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER, -- HTTP status of the last attempt
+  last_error TEXT,
+  next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  delivered_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Due deliveries for the cron trigger, and the admin delivery log
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX idx_webhook_deliveries_created ON webhook_deliveries(created_at DESC);
+
+-- Full-text search over submissions (admin search box and API ?q=).
+-- An external-content index over the submissions table, keyed by its rowid and
+-- kept in sync by the triggers below; the text itself is only stored once.
+CREATE VIRTUAL TABLE submissions_fts USING fts5(
+  name,
+  email,
+  message,
+  reference,
+  content = 'submissions',
+  content_rowid = 'rowid',
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER submissions_fts_insert AFTER INSERT ON submissions BEGIN
+  INSERT INTO submissions_fts (rowid, name, email, message, reference) VALUES (new.rowid, new.name, new.email, new.message, new.reference);
+END;
+
+-- External-content tables are told the old values to remove them from the index
+CREATE TRIGGER submissions_fts_update AFTER UPDATE OF name, email, message, reference ON submissions BEGIN
+  INSERT INTO submissions_fts (submissions_fts, rowid, name, email, message, reference) VALUES ('delete', old.rowid, old.name, old.email, old.message, old.reference);
+  INSERT INTO submissions_fts (rowid, name, email, message, reference) VALUES (new.rowid, new.name, new.email, new.message, new.reference);
+END;
+
+CREATE TRIGGER submissions_fts_delete AFTER DELETE ON submissions BEGIN
+  INSERT INTO submissions_fts (submissions_fts, rowid, name, email, message, reference) VALUES ('delete', old.rowid, old.name, old.email, old.message, old.reference);
+END;
+
+-- Index rows that existed before the search table was added (no-op on a fresh database)
+INSERT INTO submissions_fts (submissions_fts) VALUES ('rebuild');
@@ -0,0 +1,67 @@
+/**
+ * Acknowledgement email to the submitter, and the reference code it quotes
+ *
+ * References are short and unambiguous (e.g. REF-7K2M-X9QD) so customers can
+ * read them out over the phone; the UUID stays internal. The acknowledgement
+ * is the thread root (see messages.ts), so admin replies and customer answers
+ * land in the same conversation.
+ */
+
+import { CONFIG } from './config';
+import { formatMailbox, getMailDomain, type EmailTransport } from './email';
+import { getReplyAddress, getThreadRootId } from './messages';
+import { renderEmail } from './templates';
+import type { Env, FormSubmission } from './types';
+
+// Crockford base32: no I, L, O or U, so nothing is misread
+const REFERENCE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const REFERENCE_GROUPS = 2;
+const REFERENCE_GROUP_LENGTH = 4;
+
+/**
+ * A new random reference, e.g. REF-7K2M-X9QD (unique in submissions.reference)
+ */
+export function generateReference(config: typeof CONFIG): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(REFERENCE_GROUPS * REFERENCE_GROUP_LENGTH));
+	const chars = Array.from(bytes, (byte) => REFERENCE_ALPHABET[byte % REFERENCE_ALPHABET.length]);
+	const groups = Array.from({ length: REFERENCE_GROUPS }, (_, i) => chars.slice(i * REFERENCE_GROUP_LENGTH, (i + 1) * REFERENCE_GROUP_LENGTH).join(''));
+	return [config.email.referencePrefix, ...groups].join('-');
+}
+
+/**
+ * Email the submitter and store the message as the start of the conversation.
+ * Skipped when the feature is off or there is no address or transport. Never throws.
+ *
+ * @returns whether the transport accepted the message
+ */
+export async function sendAcknowledgement(env: Env, mailer: EmailTransport | null, submission: FormSubmission, reference: string, config: typeof CONFIG): Promise<boolean> {
+	if (!config.features.enableAcknowledgementEmail || !submission.email || !mailer) {
+		return false;
+	}
+
+	const domain = getMailDomain(env);
+	const messageId = getThreadRootId(submission.id, domain);
+	const from = formatMailbox(config.company.name, `${config.email.replyAddress}@${domain}`);
+	const { subject, text, html } = renderEmail('acknowledgement', { ...submission, reference }, config, { environment: env.ENVIRONMENT });
+
+	const sent = await mailer.send({
+		from,
+		to: [submission.email],
+		subject,
+		text,
+		html,
+		replyTo: getReplyAddress(submission.id, domain, config),
+		// RFC 3834, so the customer's out-of-office doesn't answer it
+		headers: { 'Message-Id': messageId, 'Auto-Submitted': 'auto-replied' },
+	});
+
+	try {
+		await env.DB.prepare(`
+			INSERT INTO messages (submission_id, direction, message_id, from_address, to_address, subject, body, status)
+			VALUES (?, 'outbound', ?, ?, ?, ?, ?, ?)
+		`).bind(submission.id, messageId, from, submission.email, subject, text, sent ? 'sent' : 'failed').run();
+	} catch (error) {
+		console.error(`Failed to store acknowledgement for ${submission.id}:`, error);
+	}
+	return sent;
+}
@@ -0,0 +1,988 @@
+/**
+ * Admin page templates beyond the dashboard (which lives in html.ts)
+ *
+ * Every page shares renderAdminLayout: the theme variables, a header with the
+ * signed-in admin and a link back to the dashboard. All dynamic values are
+ * escaped at the point of interpolation.
+ */
+
+import { AUDIT_ACTIONS, toAuditFilterParams, type AuditFilters, type AuditLogRow } from './audit';
+import { CONFIG } from './config';
+import { csrfField } from './csrf';
+import { escapeAttr, escapeHtml, safeUrl } from './escape';
+import { formatFieldValue, getCustomFields, parseCustomFields } from './fields';
+import { resolveFormConfig } from './forms';
+import { generateThemeCSS } from './html';
+import { formatDuration, getPriorityLevel, getSlaStatus, parseDbTimestamp } from './priority';
+import { MAX_REPLY_LENGTH, MAX_SUBJECT_LENGTH, getReplyDefaults } from './messages';
+import { OUTBOX_STATUSES, type OutboxRow, type OutboxStatus } from './outbox';
+import { parseRoutingRules } from './routing';
+import { MAX_NOTE_LENGTH } from './submissions';
+import { WEBHOOK_STATUSES, type WebhookDeliveryRow, type WebhookStatus } from './webhooks';
+import type { CloudflareAccessUser, MessageRow, SubmissionEventRow, SubmissionNoteRow, SubmissionRow } from './types';
+
+/**
+ * Everything shown on a submission's detail page
+ */
+export interface SubmissionDetail {
+	submission: SubmissionRow;
+	events: SubmissionEventRow[];
+	notes: SubmissionNoteRow[];
+	messages: MessageRow[];
+	assignees: string[]; // See listAssignees
+}
+
+/**
+ * A page of the audit log and the filters that produced it
+ */
+export interface AuditLogView {
+	entries: AuditLogRow[];
+	filters: AuditFilters;
+	page: number;
+	pageCount: number;
+	total: number;
+}
+
+/**
+ * A page of outbox messages, optionally one status
+ */
+export interface OutboxView {
+	entries: OutboxRow[];
+	status: OutboxStatus | undefined;
+	counts: Record<OutboxStatus, number>;
+	page: number;
+	pageCount: number;
+}
+
+/**
+ * A page of webhook deliveries, optionally one status
+ */
+export interface WebhooksView {
+	entries: WebhookDeliveryRow[];
+	status: WebhookStatus | undefined;
+	counts: Record<WebhookStatus, number>;
+	page: number;
+	pageCount: number;
+}
+
+/**
+ * One entry in a submission's history, newest last
+ */
+interface TimelineEntry {
+	at: string; // D1 datetime
+	actor: string;
+	kind: string; // CSS modifier, e.g. "status"
+	html: string; // Already escaped
+}
+
+/**
+ * Shared chrome for admin pages
+ */
+export function renderAdminLayout(title: string, body: string, user: CloudflareAccessUser, config: typeof CONFIG, extraCss = ''): string {
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>${escapeHtml(title)} - ${escapeHtml(config.admin.title)}</title>
+	<style>
+		${generateThemeCSS(config)}
+
+		* {
+			box-sizing: border-box;
+		}
+
+		body {
+			font-family: var(--font-primary);
+			margin: 20px;
+			background: var(--gradient-dark);
+			background-attachment: fixed;
+			min-height: 100vh;
+			color: var(--color-text);
+		}
+
+		.admin-header {
+			display: flex;
+			justify-content: space-between;
+			align-items: center;
+			max-width: 1100px;
+			margin: 0 auto 20px;
+			color: var(--color-text-inverse);
+		}
+
+		.admin-header nav {
+			display: flex;
+			gap: 24px;
+		}
+
+		.admin-header a {
+			color: var(--color-accent-light);
+			font-weight: 600;
+			text-decoration: none;
+		}
+
+		main {
+			max-width: 1100px;
+			margin: 0 auto;
+		}
+
+		.card {
+			background: var(--color-surface);
+			border-radius: var(--border-radius-large);
+			box-shadow: var(--box-shadow-large);
+			padding: 24px 30px;
+			margin-bottom: 20px;
+		}
+
+		.card h1,
+		.card h2 {
+			margin-top: 0;
+		}
+
+		.card h2 {
+			font-size: 1.1rem;
+			text-transform: uppercase;
+			letter-spacing: 0.5px;
+			color: var(--color-primary);
+		}
+
+		dl {
+			display: grid;
+			grid-template-columns: max-content 1fr;
+			gap: 8px 20px;
+			margin: 0;
+		}
+
+		dt {
+			font-weight: 600;
+			color: var(--color-text-light);
+		}
+
+		dd {
+			margin: 0;
+			overflow-wrap: anywhere;
+		}
+
+		select {
+			padding: 8px 12px;
+			border: 2px solid var(--color-border);
+			border-radius: var(--border-radius);
+			background: var(--color-surface);
+			font-weight: 600;
+		}
+
+		.no-data {
+			color: var(--color-text-light);
+			font-style: italic;
+		}
+
+		${extraCss}
+	</style>
+</head>
+<body>
+	<div class="admin-header">
+		<nav>
+			<a href="/admin">← ${escapeHtml(config.admin.title)}</a>
+			<a href="/admin/audit">📜 Audit log</a>
+			<a href="/admin/outbox">📬 Outbox</a>
+			<a href="/admin/webhooks">🔗 Webhooks</a>
+		</nav>
+		<span>👤 ${escapeHtml(user.email)}</span>
+	</div>
+	<main>
+		${body}
+	</main>
+</body>
+</html>`;
+}
+
+export function getSubmissionDetailHTML(detail: SubmissionDetail, user: CloudflareAccessUser, config: typeof CONFIG, csrfToken: string): string {
+	const { submission } = detail;
+	const formConfig = resolveFormConfig(config, submission.form_id) ?? config;
+	const level = getPriorityLevel(submission.priority, config);
+	const sla = getSlaStatus(submission, config);
+	const id = escapeAttr(submission.id);
+	const me = user.email.toLowerCase();
+	// Keep a current assignee that is no longer listed (e.g. set through the API)
+	const assignees = submission.assigned_to && !detail.assignees.includes(submission.assigned_to)
+		? [...detail.assignees, submission.assigned_to]
+		: detail.assignees;
+
+	const row = (label: string, value: string | null | undefined, html?: string) =>
+		`<dt>${escapeHtml(label)}</dt><dd>${value ? html ?? escapeHtml(value) : '<span class="no-data">N/A</span>'}</dd>`;
+
+	// Configured custom fields first, then anything stored that is no longer configured
+	const customValues = parseCustomFields(submission.custom_fields);
+	const routingRules = parseRoutingRules(submission.routing_rules);
+	const customFields = getCustomFields(formConfig);
+	const customRows = [
+		...customFields.map(field => row(field.label, formatFieldValue(field, customValues[field.name]))),
+		...Object.keys(customValues)
+			.filter(name => !customFields.some(field => field.name === name))
+			.map(name => row(name, String(customValues[name]))),
+	].join('');
+
+	const body = `
+		<section class="card">
+			<div class="detail-title">
+				<div>
+					<h1>${escapeHtml(submission.name)}</h1>
+					<p class="subtitle">${submission.reference ? `${escapeHtml(submission.reference)} · ` : ''}${escapeHtml(submission.service_type)} · ${escapeHtml(formConfig.contactForm.title)} · ${escapeHtml(formatTimestamp(submission.created_at))}</p>
+				</div>
+				<div class="detail-actions">
+					<form method="POST" action="/admin/update">
+						${csrfField(csrfToken)}
+						<input type="hidden" name="id" value="${id}">
+						<label>${escapeHtml(config.admin.columns.status)}
+							<select name="status" onchange="this.form.submit()">
+								${config.admin.statusOptions.map(option => `<option value="${escapeAttr(option.value)}"${submission.status === option.value ? ' selected' : ''}>${escapeHtml(option.label)}</option>`).join('')}
+							</select>
+						</label>
+					</form>
+					<form method="POST" action="/admin/priority">
+						${csrfField(csrfToken)}
+						<input type="hidden" name="id" value="${id}">
+						<label>${escapeHtml(config.admin.columns.priority)}
+							<select name="priority" style="border-color: ${escapeAttr(level.color)}; color: ${escapeAttr(level.color)}" onchange="this.form.submit()">
+								${config.contactForm.priorityLevels.map(option => `<option value="${escapeAttr(option.value)}"${level.value === option.value ? ' selected' : ''}>${escapeHtml(option.label)}</option>`).join('')}
+							</select>
+						</label>
+					</form>
+					<form method="POST" action="/admin/assign">
+						${csrfField(csrfToken)}
+						<input type="hidden" name="id" value="${id}">
+						<label>${escapeHtml(config.admin.columns.assignee)}
+							<select name="assigned_to" onchange="this.form.submit()">
+								<option value="">Unassigned</option>
+								${assignees.map(email => `<option value="${escapeAttr(email)}"${submission.assigned_to === email ? ' selected' : ''}>${escapeHtml(email)}${email === me ? ' (me)' : ''}</option>`).join('')}
+							</select>
+						</label>
+					</form>
+				</div>
+			</div>
+			${sla ? `<p class="sla ${sla.overdue ? 'sla-overdue' : 'sla-ok'}">${sla.overdue ? `Overdue by ${formatDuration(sla.remainingMs)}` : `Response due in ${formatDuration(sla.remainingMs)}`} (${escapeHtml(level.label)}: ${level.slaHours}h target)</p>` : ''}
+		</section>
+
+		<section class="card">
+			<h2>${escapeHtml(config.admin.columns.message)}</h2>
+			<div class="full-message">${escapeHtml(submission.message)}</div>
+		</section>
+
+		<div class="detail-grid">
+			<section class="card">
+				<h2>Contact</h2>
+				<dl>
+					${row(config.admin.columns.name, submission.name)}
+					${row(config.admin.columns.email, submission.email, `<a href="${safeUrl(`mailto:${submission.email}`)}">${escapeHtml(submission.email)}</a>`)}
+					${row(config.admin.columns.phone, submission.phone, `<a href="${safeUrl(`tel:${submission.phone}`)}">${escapeHtml(submission.phone)}</a>`)}
+					${row(config.admin.columns.service, submission.service_type)}
+					${customRows}
+				</dl>
+			</section>
+
+			<section class="card">
+				<h2>Metadata</h2>
+				<dl>
+					${row('Reference', submission.reference)}
+					${row('Submission ID', submission.id)}
+					${row('Source', submission.source === 'email' ? 'Email' : 'Web form')}
+					${row(config.admin.columns.form, formConfig.contactForm.title)}
+					${row('Submitted', formatTimestamp(submission.created_at))}
+					${row('Last updated', formatTimestamp(submission.updated_at))}
+					${row('IP address', submission.ip_address)}
+					${row('User agent', submission.user_agent)}
+					${row('Referrer', submission.referrer)}
+					${submission.spam_reason ? row('Spam check', submission.spam_reason) : ''}
+					${routingRules.length > 0 ? row('Routing rules', routingRules.join(', ')) : ''}
+				</dl>
+			</section>
+		</div>
+
+		${renderReplyComposer(submission, config, csrfToken)}
+
+		<section class="card" id="notes">
+			<h2>History</h2>
+			${renderTimeline(buildTimeline(detail, config))}
+			<form method="POST" action="/admin/submissions/${escapeAttr(encodeURIComponent(submission.id))}/notes" class="note-form">
+				${csrfField(csrfToken)}
+				<label for="note-body">Internal note</label>
+				<textarea id="note-body" name="body" rows="3" maxlength="${MAX_NOTE_LENGTH}" required placeholder="Only admins can see notes"></textarea>
+				<button type="submit">Add note</button>
+			</form>
+		</section>
+	`;
+
+	return renderAdminLayout(`${submission.name} - Submission`, body, user, config, `
+		.detail-title {
+			display: flex;
+			justify-content: space-between;
+			align-items: flex-start;
+			gap: 20px;
+			flex-wrap: wrap;
+		}
+
+		.subtitle {
+			color: var(--color-text-light);
+			margin: 4px 0 0;
+		}
+
+		.detail-actions {
+			display: flex;
+			gap: 16px;
+		}
+
+		.detail-actions label {
+			display: flex;
+			flex-direction: column;
+			gap: 4px;
+			font-size: 0.85rem;
+			font-weight: 600;
+			color: var(--color-text-light);
+		}
+
+		.sla {
+			margin: 16px 0 0;
+			font-weight: 600;
+		}
+
+		.sla-ok {
+			color: var(--color-text-light);
+		}
+
+		.sla-overdue {
+			color: var(--color-error);
+		}
+
+		.full-message {
+			white-space: pre-wrap;
+			line-height: 1.6;
+			overflow-wrap: anywhere;
+		}
+
+		.detail-grid {
+			display: grid;
+			grid-template-columns: repeat(auto-fit, minmax(320px, 1fr));
+			gap: 20px;
+		}
+
+		.timeline {
+			list-style: none;
+			margin: 0;
+			padding: 0;
+		}
+
+		.timeline li {
+			border-left: 3px solid var(--color-border-teal);
+			padding: 0 0 16px 16px;
+		}
+
+		.timeline-meta {
+			font-size: 0.85rem;
+			color: var(--color-text-light);
+		}
+
+		.timeline li.timeline-note {
+			border-left-color: var(--color-accent);
+		}
+
+		.timeline li.timeline-message {
+			border-left-color: var(--color-primary);
+		}
+
+		.message-failed {
+			color: var(--color-error);
+			font-weight: 600;
+		}
+
+		.reply-form {
+			display: flex;
+			flex-direction: column;
+			gap: 10px;
+		}
+
+		.reply-form input[type="text"],
+		.reply-form textarea {
+			padding: 10px 12px;
+			border: 2px solid var(--color-border);
+			border-radius: var(--border-radius);
+			font: inherit;
+		}
+
+		.reply-form textarea {
+			resize: vertical;
+		}
+
+		.reply-form .checkbox {
+			display: flex;
+			align-items: center;
+			gap: 8px;
+		}
+
+		.note-body {
+			white-space: pre-wrap;
+			overflow-wrap: anywhere;
+		}
+
+		.note-form {
+			display: flex;
+			flex-direction: column;
+			gap: 8px;
+			margin-top: 8px;
+		}
+
+		.note-form label {
+			font-weight: 600;
+		}
+
+		.note-form textarea {
+			padding: 10px 12px;
+			border: 2px solid var(--color-border);
+			border-radius: var(--border-radius);
+			font: inherit;
+			resize: vertical;
+		}
+
+		.reply-form button,
+		.note-form button {
+			align-self: flex-start;
+			padding: 8px 18px;
+			border: none;
+			border-radius: var(--border-radius);
+			background: var(--color-primary);
+			color: var(--color-text-inverse);
+			font-weight: 600;
+			cursor: pointer;
+		}
+	`);
+}
+
+export function getAuditLogHTML(view: AuditLogView, user: CloudflareAccessUser, config: typeof CONFIG): string {
+	const { entries, filters, page, pageCount, total } = view;
+	const query = toAuditFilterParams(filters);
+	const pageUrl = (target: number) => {
+		const params = new URLSearchParams(query);
+		if (target > 1) {
+			params.set('page', String(target));
+		}
+		return params.size > 0 ? `/admin/audit?${params}` : '/admin/audit';
+	};
+	const exportUrl = query.size > 0 ? `/admin/audit.csv?${query}` : '/admin/audit.csv';
+
+	const rows = entries.map(entry => `
+				<tr>
+					<td class="nowrap"><time datetime="${escapeAttr(parseDbTimestamp(entry.created_at).toISOString())}">${escapeHtml(formatTimestamp(entry.created_at))}</time></td>
+					<td>${escapeHtml(entry.actor)}</td>
+					<td><code>${escapeHtml(entry.action)}</code></td>
+					<td>${renderAuditTarget(entry)}</td>
+					<td>${describeAuditValues(entry)}</td>
+					<td>${entry.ip_address ? escapeHtml(entry.ip_address) : '<span class="no-data">-</span>'}</td>
+				</tr>`).join('');
+
+	const body = `
+		<section class="card">
+			<h1>Audit log</h1>
+			<form method="GET" action="/admin/audit" class="audit-filters">
+				<input type="text" name="actor" value="${escapeAttr(filters.actor ?? '')}" placeholder="Admin email" aria-label="Actor">
+				<select name="action" aria-label="Action">
+					<option value="">All actions</option>
+					${AUDIT_ACTIONS.map(action => `<option value="${escapeAttr(action)}"${filters.action === action ? ' selected' : ''}>${escapeHtml(action)}</option>`).join('')}
+				</select>
+				<input type="text" name="target" value="${escapeAttr(filters.target ?? '')}" placeholder="Submission ID" aria-label="Target">
+				<label>From <input type="date" name="created_after" value="${escapeAttr(filters.createdAfter?.slice(0, 10) ?? '')}"></label>
+				<label>Before <input type="date" name="created_before" value="${escapeAttr(filters.createdBefore?.slice(0, 10) ?? '')}"></label>
+				<button type="submit">Filter</button>
+				${query.size > 0 ? '<a href="/admin/audit">Clear</a>' : ''}
+				<a href="${escapeAttr(exportUrl)}" class="export-link">⬇ Export CSV</a>
+			</form>
+			${entries.length > 0 ? `
+			<div class="table-scroll">
+				<table>
+					<thead>
+						<tr><th>Time</th><th>Actor</th><th>Action</th><th>Target</th><th>Change</th><th>IP</th></tr>
+					</thead>
+					<tbody>${rows}
+					</tbody>
+				</table>
+			</div>
+			<nav class="pagination" aria-label="Pagination">
+				${page > 1 ? `<a href="${escapeAttr(pageUrl(page - 1))}" rel="prev">← Previous</a>` : ''}
+				<span>${total} entries · Page ${page} of ${pageCount}</span>
+				${page < pageCount ? `<a href="${escapeAttr(pageUrl(page + 1))}" rel="next">Next →</a>` : ''}
+			</nav>` : '<p class="no-data">No audit entries match these filters.</p>'}
+		</section>
+	`;
+
+	return renderAdminLayout('Audit log', body, user, config, `
+		.audit-filters {
+			display: flex;
+			flex-wrap: wrap;
+			align-items: center;
+			gap: 10px;
+			margin-bottom: 20px;
+		}
+
+		.audit-filters input,
+		.audit-filters button {
+			padding: 8px 12px;
+			border: 2px solid var(--color-border);
+			border-radius: var(--border-radius);
+			font: inherit;
+		}
+
+		.audit-filters button {
+			background: var(--color-primary);
+			border-color: var(--color-primary);
+			color: var(--color-text-inverse);
+			font-weight: 600;
+			cursor: pointer;
+		}
+
+		.export-link {
+			margin-left: auto;
+			font-weight: 600;
+			color: var(--color-primary);
+		}
+
+		.table-scroll {
+			overflow-x: auto;
+		}
+
+		table {
+			width: 100%;
+			border-collapse: collapse;
+			font-size: 0.9rem;
+		}
+
+		th,
+		td {
+			text-align: left;
+			padding: 10px 8px;
+			border-bottom: 1px solid var(--color-border);
+			vertical-align: top;
+		}
+
+		.nowrap {
+			white-space: nowrap;
+		}
+
+		.audit-change {
+			display: block;
+			overflow-wrap: anywhere;
+		}
+
+		.pagination {
+			display: flex;
+			justify-content: center;
+			gap: 20px;
+			padding-top: 16px;
+			color: var(--color-text-light);
+		}
+	`);
+}
+
+// Status tabs, badges and the table of the outbox and webhook delivery pages
+const DELIVERY_LOG_CSS = `
+		.delivery-tabs {
+			display: flex;
+			flex-wrap: wrap;
+			gap: 8px;
+			margin-bottom: 20px;
+		}
+
+		.delivery-tabs a {
+			padding: 6px 14px;
+			border: 2px solid var(--color-border);
+			border-radius: var(--border-radius);
+			color: var(--color-text);
+			font-weight: 600;
+			text-decoration: none;
+		}
+
+		.delivery-tabs a.active {
+			background: var(--color-primary);
+			border-color: var(--color-primary);
+			color: var(--color-text-inverse);
+		}
+
+		.delivery-status {
+			padding: 2px 8px;
+			border-radius: var(--border-radius-small);
+			font-weight: 600;
+			white-space: nowrap;
+		}
+
+		.delivery-pending {
+			background: var(--color-warning-bg);
+			color: var(--color-warning);
+		}
+
+		.delivery-sent,
+		.delivery-delivered {
+			background: var(--color-background-secondary);
+			color: var(--color-success);
+		}
+
+		.delivery-dead {
+			background: var(--color-error-bg);
+			color: var(--color-error);
+		}
+
+		.delivery-error {
+			display: block;
+			color: var(--color-error);
+		}
+
+		.subtitle {
+			color: var(--color-text-light);
+		}
+
+		.table-scroll {
+			overflow-x: auto;
+		}
+
+		table {
+			width: 100%;
+			border-collapse: collapse;
+			font-size: 0.9rem;
+		}
+
+		th,
+		td {
+			text-align: left;
+			padding: 10px 8px;
+			border-bottom: 1px solid var(--color-border);
+			vertical-align: top;
+		}
+
+		td button {
+			padding: 6px 12px;
+			border: none;
+			border-radius: var(--border-radius);
+			background: var(--color-primary);
+			color: var(--color-text-inverse);
+			font-weight: 600;
+			cursor: pointer;
+		}
+
+		.nowrap {
+			white-space: nowrap;
+		}
+
+		.pagination {
+			display: flex;
+			justify-content: center;
+			gap: 20px;
+			padding-top: 16px;
+			color: var(--color-text-light);
+		}
+	`;
+
+const OUTBOX_STATUS_LABELS: Record<OutboxStatus, string> = { pending: 'Pending', sent: 'Sent', dead: 'Dead-lettered' };
+
+export function getOutboxHTML(view: OutboxView, user: CloudflareAccessUser, config: typeof CONFIG, csrfToken: string): string {
+	const { entries, status, counts, page, pageCount } = view;
+	const pageUrl = (target: number) => {
+		const params = new URLSearchParams();
+		if (status) {
+			params.set('status', status);
+		}
+		if (target > 1) {
+			params.set('page', String(target));
+		}
+		return params.size > 0 ? `/admin/outbox?${params}` : '/admin/outbox';
+	};
+	const tab = (value: OutboxStatus | undefined, label: string, count: number) =>
+		`<a href="${value ? `/admin/outbox?status=${value}` : '/admin/outbox'}"${status === value ? ' class="active" aria-current="page"' : ''}>${escapeHtml(label)} (${count})</a>`;
+
+	const rows = entries.map(entry => `
+				<tr>
+					<td class="nowrap"><time datetime="${escapeAttr(parseDbTimestamp(entry.created_at).toISOString())}">${escapeHtml(formatTimestamp(entry.created_at))}</time></td>
+					<td>${escapeHtml(entry.recipients)}</td>
+					<td>${entry.submission_id ? `<a href="/admin/submissions/${escapeAttr(encodeURIComponent(entry.submission_id))}">${escapeHtml(entry.subject)}</a>` : escapeHtml(entry.subject)}</td>
+					<td><span class="delivery-status delivery-${entry.status}">${escapeHtml(OUTBOX_STATUS_LABELS[entry.status])}</span></td>
+					<td>${entry.attempts}</td>
+					<td>${describeDelivery(entry)}</td>
+					<td>
+						<form method="POST" action="/admin/outbox/${entry.id}/resend">
+							${csrfField(csrfToken)}
+							<button type="submit">${entry.status === 'pending' ? 'Retry now' : 'Re-send'}</button>
+						</form>
+					</td>
+				</tr>`).join('');
+
+	const body = `
+		<section class="card">
+			<h1>Outbox</h1>
+			<p class="subtitle">Notification emails are queued here and retried with backoff; after ${config.email.outbox.maxAttempts} failed attempts they are dead-lettered until re-sent.</p>
+			<nav class="delivery-tabs">
+				${tab(undefined, 'All', OUTBOX_STATUSES.reduce((sum, value) => sum + counts[value], 0))}
+				${OUTBOX_STATUSES.map(value => tab(value, OUTBOX_STATUS_LABELS[value], counts[value])).join('')}
+			</nav>
+			${entries.length > 0 ? `
+			<div class="table-scroll">
+				<table>
+					<thead>
+						<tr><th>Queued</th><th>To</th><th>Subject</th><th>Status</th><th>Attempts</th><th>Delivery</th><th></th></tr>
+					</thead>
+					<tbody>${rows}
+					</tbody>
+				</table>
+			</div>
+			<nav class="pagination" aria-label="Pagination">
+				${page > 1 ? `<a href="${escapeAttr(pageUrl(page - 1))}" rel="prev">← Previous</a>` : ''}
+				<span>Page ${page} of ${pageCount}</span>
+				${page < pageCount ? `<a href="${escapeAttr(pageUrl(page + 1))}" rel="next">Next →</a>` : ''}
+			</nav>` : '<p class="no-data">No messages here.</p>'}
+		</section>
+	`;
+
+	return renderAdminLayout('Outbox', body, user, config, DELIVERY_LOG_CSS);
+}
+
+/**
+ * When an outbox message was sent, or why it wasn't and when it's next tried
+ */
+function describeDelivery(entry: OutboxRow): string {
+	if (entry.status === 'sent') {
+		return entry.sent_at ? `Sent ${escapeHtml(formatTimestamp(entry.sent_at))}` : 'Sent';
+	}
+	const error = entry.last_error ? `<span class="delivery-error">${escapeHtml(entry.last_error)}</span>` : '';
+	if (entry.status === 'dead') {
+		return error || '<span class="no-data">-</span>';
+	}
+	return `${error}Next attempt ${escapeHtml(formatTimestamp(entry.next_attempt_at))}`;
+}
+
+const WEBHOOK_STATUS_LABELS: Record<WebhookStatus, string> = { pending: 'Pending', delivered: 'Delivered', dead: 'Dead-lettered' };
+
+export function getWebhooksHTML(view: WebhooksView, user: CloudflareAccessUser, config: typeof CONFIG, csrfToken: string): string {
+	const { entries, status, counts, page, pageCount } = view;
+	const endpoints = config.webhooks.endpoints;
+	const pageUrl = (target: number) => {
+		const params = new URLSearchParams();
+		if (status) {
+			params.set('status', status);
+		}
+		if (target > 1) {
+			params.set('page', String(target));
+		}
+		return params.size > 0 ? `/admin/webhooks?${params}` : '/admin/webhooks';
+	};
+	const tab = (value: WebhookStatus | undefined, label: string, count: number) =>
+		`<a href="${value ? `/admin/webhooks?status=${value}` : '/admin/webhooks'}"${status === value ? ' class="active" aria-current="page"' : ''}>${escapeHtml(label)} (${count})</a>`;
+
+	const endpointRows = endpoints.map(endpoint => `
+				<tr>
+					<td>${escapeHtml(endpoint.name)}</td>
+					<td>${escapeHtml(endpoint.url)}</td>
+					<td>${endpoint.events.map(event => `<code>${escapeHtml(event)}</code>`).join(' ')}</td>
+					<td>
+						<form method="POST" action="/admin/webhooks/test">
+							${csrfField(csrfToken)}
+							<input type="hidden" name="endpoint" value="${escapeAttr(endpoint.name)}">
+							<button type="submit">Send test event</button>
+						</form>
+					</td>
+				</tr>`).join('');
+
+	const rows = entries.map(entry => `
+				<tr>
+					<td class="nowrap"><time datetime="${escapeAttr(parseDbTimestamp(entry.created_at).toISOString())}">${escapeHtml(formatTimestamp(entry.created_at))}</time></td>
+					<td>${escapeHtml(entry.endpoint)}</td>
+					<td><code>${escapeHtml(entry.event)}</code></td>
+					<td>${entry.submission_id ? `<a href="/admin/submissions/${escapeAttr(encodeURIComponent(entry.submission_id))}">${escapeHtml(entry.submission_id)}</a>` : '<span class="no-data">-</span>'}</td>
+					<td><span class="delivery-status delivery-${entry.status}">${escapeHtml(WEBHOOK_STATUS_LABELS[entry.status])}</span></td>
+					<td>${entry.attempts}</td>
+					<td>${describeWebhookDelivery(entry)}</td>
+				</tr>`).join('');
+
+	const body = `
+		<section class="card">
+			<h1>Webhooks</h1>
+			<p class="subtitle">Submission events are POSTed to these endpoints, signed with <code>WEBHOOK_SECRET</code>. Failed deliveries are retried with backoff; after ${config.webhooks.maxAttempts} failed attempts they are dead-lettered.</p>
+			${endpoints.length > 0 ? `
+			<div class="table-scroll">
+				<table>
+					<thead>
+						<tr><th>Endpoint</th><th>URL</th><th>Events</th><th></th></tr>
+					</thead>
+					<tbody>${endpointRows}
+					</tbody>
+				</table>
+			</div>` : '<p class="no-data">No endpoints configured. Add them to <code>webhooks.endpoints</code> in src/config.ts.</p>'}
+		</section>
+
+		<section class="card">
+			<h2>Deliveries</h2>
+			<nav class="delivery-tabs">
+				${tab(undefined, 'All', WEBHOOK_STATUSES.reduce((sum, value) => sum + counts[value], 0))}
+				${WEBHOOK_STATUSES.map(value => tab(value, WEBHOOK_STATUS_LABELS[value], counts[value])).join('')}
+			</nav>
+			${entries.length > 0 ? `
+			<div class="table-scroll">
+				<table>
+					<thead>
+						<tr><th>Queued</th><th>Endpoint</th><th>Event</th><th>Submission</th><th>Status</th><th>Attempts</th><th>Response</th></tr>
+					</thead>
+					<tbody>${rows}
+					</tbody>
+				</table>
+			</div>
+			<nav class="pagination" aria-label="Pagination">
+				${page > 1 ? `<a href="${escapeAttr(pageUrl(page - 1))}" rel="prev">← Previous</a>` : ''}
+				<span>Page ${page} of ${pageCount}</span>
+				${page < pageCount ? `<a href="${escapeAttr(pageUrl(page + 1))}" rel="next">Next →</a>` : ''}
+			</nav>` : '<p class="no-data">No deliveries here.</p>'}
+		</section>
+	`;
+
+	return renderAdminLayout('Webhooks', body, user, config, DELIVERY_LOG_CSS);
+}
+
+/**
+ * The endpoint's answer, or why a delivery failed and when it's next tried
+ */
+function describeWebhookDelivery(entry: WebhookDeliveryRow): string {
+	if (entry.status === 'delivered') {
+		return `HTTP ${entry.response_status ?? '?'}${entry.delivered_at ? `, ${escapeHtml(formatTimestamp(entry.delivered_at))}` : ''}`;
+	}
+	const error = entry.last_error ? `<span class="delivery-error">${escapeHtml(entry.last_error)}</span>` : '';
+	if (entry.status === 'dead') {
+		return error || '<span class="no-data">-</span>';
+	}
+	return `${error}Next attempt ${escapeHtml(formatTimestamp(entry.next_attempt_at))}`;
+}
+
+/**
+ * Email composer for replying to the submitter
+ */
+function renderReplyComposer(submission: SubmissionRow, config: typeof CONFIG, csrfToken: string): string {
+	if (!submission.email) {
+		return `<section class="card" id="reply">
+			<h2>Reply</h2>
+			<p class="no-data">No email address was given, so replies can't be sent from here.</p>
+		</section>`;
+	}
+
+	const defaults = getReplyDefaults(submission, config);
+	return `<section class="card" id="reply">
+			<h2>Reply to ${escapeHtml(submission.email)}</h2>
+			<form method="POST" action="/admin/submissions/${escapeAttr(encodeURIComponent(submission.id))}/reply" class="reply-form">
+				${csrfField(csrfToken)}
+				<input type="text" name="subject" value="${escapeAttr(defaults.subject)}" maxlength="${MAX_SUBJECT_LENGTH}" required aria-label="Subject">
+				<textarea name="body" rows="8" maxlength="${MAX_REPLY_LENGTH}" required aria-label="Message">${escapeHtml(defaults.body)}</textarea>
+				${submission.status === 'new' ? `<label class="checkbox"><input type="checkbox" name="mark_in_progress" value="1"${config.admin.replyMarksInProgress ? ' checked' : ''}> Mark as ${escapeHtml(config.admin.statusOptions.find(option => option.value === 'in_progress')?.label ?? 'in progress')}</label>` : ''}
+				<button type="submit">Send reply</button>
+			</form>
+		</section>`;
+}
+
+/**
+ * Submission ids link to the detail page, unless the submission was deleted
+ */
+function renderAuditTarget(entry: AuditLogRow): string {
+	if (!entry.target_id) {
+		return '<span class="no-data">-</span>';
+	}
+	if (!entry.action.startsWith('submission.') || entry.action === 'submission.delete') {
+		return escapeHtml(entry.target_id);
+	}
+	return `<a href="/admin/submissions/${escapeAttr(encodeURIComponent(entry.target_id))}">${escapeHtml(entry.target_id)}</a>`;
+}
+
+/**
+ * "status: new → resolved" lines for an audit entry's before/after JSON
+ */
+function describeAuditValues(entry: AuditLogRow): string {
+	const parse = (value: string | null): Record<string, unknown> => {
+		try {
+			const parsed = value ? JSON.parse(value) : {};
+			return parsed && typeof parsed === 'object' ? parsed : {};
+		} catch {
+			return {};
+		}
+	};
+	const show = (value: unknown) => (value === null ? '∅' : typeof value === 'string' ? value : JSON.stringify(value));
+	const before = parse(entry.before_value);
+	const after = parse(entry.after_value);
+
+	const lines = [...new Set([...Object.keys(before), ...Object.keys(after)])].map(key => {
+		const values = [key in before ? show(before[key]) : null, key in after ? show(after[key]) : null].filter(value => value !== null);
+		return `<span class="audit-change"><strong>${escapeHtml(key)}</strong>: ${escapeHtml(values.join(' → '))}</span>`;
+	});
+	return lines.length > 0 ? lines.join('') : '<span class="no-data">-</span>';
+}
+
+function getMessageLabel(message: MessageRow): string {
+	if (message.direction === 'inbound') {
+		return '📨 Customer wrote';
+	}
+	// Automatic emails have no sending admin
+	return message.sent_by ? '✉️ Replied' : '🤖 Acknowledged';
+}
+
+/**
+ * History entries for a submission, oldest first
+ */
+function buildTimeline(detail: SubmissionDetail, config: typeof CONFIG): TimelineEntry[] {
+	const { submission } = detail;
+	const entries: TimelineEntry[] = [
+		{
+			at: submission.created_at,
+			actor: submission.email || submission.name,
+			kind: 'created',
+			html: submission.source === 'email' ? 'Sent an email to the intake address' : 'Submitted the form',
+		},
+		...detail.events.map(event => ({
+			at: event.created_at,
+			actor: event.actor,
+			kind: event.field,
+			html: describeChange(event, config),
+		})),
+		...detail.messages.map(message => ({
+			at: message.created_at,
+			actor: message.direction === 'outbound' ? message.sent_by ?? message.from_address : message.from_address,
+			kind: 'message',
+			html: `<div class="message-subject">${getMessageLabel(message)}: <strong>${escapeHtml(message.subject)}</strong>${message.status === 'failed' ? ' <span class="message-failed">Not sent</span>' : ''}</div>
+					<div class="note-body">${escapeHtml(message.body)}</div>`,
+		})),
+		...detail.notes.map(note => ({
+			at: note.created_at,
+			actor: note.author,
+			kind: 'note',
+			html: `<div class="note-body">${escapeHtml(note.body)}</div>`,
+		})),
+	];
+	return entries.sort((a, b) => parseDbTimestamp(a.at).getTime() - parseDbTimestamp(b.at).getTime());
+}
+
+function renderTimeline(entries: TimelineEntry[]): string {
+	return `<ol class="timeline">
+				${entries.map(entry => `<li class="timeline-${escapeAttr(entry.kind)}">
+					<div>${entry.html}</div>
+					<div class="timeline-meta">${escapeHtml(entry.actor)} · <time datetime="${escapeAttr(parseDbTimestamp(entry.at).toISOString())}">${escapeHtml(formatTimestamp(entry.at))}</time></div>
+				</li>`).join('')}
+			</ol>`;
+}
+
+function describeChange(event: SubmissionEventRow, config: typeof CONFIG): string {
+	const label = (value: string | null) => {
+		if (event.field === 'status') {
+			return config.admin.statusOptions.find(option => option.value === value)?.label ?? value ?? 'none';
+		}
+		if (event.field === 'priority') {
+			return config.contactForm.priorityLevels.find(level => level.value === value)?.label ?? value ?? 'none';
+		}
+		return value ?? 'Unassigned';
+	};
+	const names = { status: 'Status', priority: 'Priority', assigned_to: 'Assignee' };
+	return `${names[event.field]} changed from <strong>${escapeHtml(label(event.old_value))}</strong> to <strong>${escapeHtml(label(event.new_value))}</strong>`;
+}
+
+/**
+ * "2025-01-31 14:05 UTC"
+ */
+function formatTimestamp(value: string): string {
+	const date = parseDbTimestamp(value);
+	return Number.isNaN(date.getTime()) ? value : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
@@ -0,0 +1,250 @@
+/**
+ * Admin JSON API (/api/v1)
+ *
+ * Sits behind the same requireAdmin guard as /admin. Scripts authenticate with a
+ * Cloudflare Access service token; browsers with an Access session can call it
+ * same-origin. Cross-site calls are blocked because PATCH and DELETE need a CORS
+ * preflight that the worker never grants (see CONFIG.security.cors) and PATCH
+ * only accepts application/json.
+ *
+ *   GET    /api/v1/submissions         list (filters, ?q=, ?sort=, ?limit=, ?cursor=)
+ *   GET    /api/v1/submissions/:id     fetch one
+ *   PATCH  /api/v1/submissions/:id     update status, priority and/or assigned_to (emails a new assignee, sends webhooks)
+ *   DELETE /api/v1/submissions/:id     delete
+ *
+ * Errors are returned as { "error": { "code": "...", "message": "..." } }.
+ */
+
+import { listAssignees, notifyAssignee } from './assignment';
+import { getAuditContext } from './audit';
+import { CONFIG } from './config';
+import type { EmailTransport } from './email';
+import { isValidPriority } from './priority';
+import {
+	DEFAULT_PAGE_SIZE,
+	InvalidCursorError,
+	MAX_PAGE_SIZE,
+	SORT_FIELDS,
+	applySubmissionChanges,
+	deleteSubmission,
+	getDefaultSort,
+	getSubmission,
+	listSubmissions,
+	parseSort,
+	parseSubmissionFilters,
+	toSubmissionJson,
+	type SubmissionChanges,
+} from './submissions';
+import { validateField } from './validation';
+import { dispatchSubmissionChanges, type WebhookDispatcher } from './webhooks';
+import type { CloudflareAccessUser, Env } from './types';
+
+export const API_PREFIX = '/api/v1';
+
+const SUBMISSION_PATH = /^\/api\/v1\/submissions\/([^/]+)\/?$/;
+const EDITABLE_FIELDS = ['status', 'priority', 'assigned_to'];
+
+/**
+ * Dispatch an /api/v1 request. Only reached after requireAdmin has resolved the user.
+ */
+export async function handleApiRequest(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	config: typeof CONFIG,
+	user: CloudflareAccessUser,
+	url: URL,
+	mailer: EmailTransport | null,
+	webhooks: WebhookDispatcher,
+): Promise<Response> {
+	try {
+		if (url.pathname === `${API_PREFIX}/submissions` || url.pathname === `${API_PREFIX}/submissions/`) {
+			return request.method === 'GET'
+				? await handleList(env, corsHeaders, config, url)
+				: methodNotAllowed(['GET'], corsHeaders);
+		}
+
+		const match = url.pathname.match(SUBMISSION_PATH);
+		if (match) {
+			const id = decodeURIComponent(match[1]);
+			switch (request.method) {
+				case 'GET':
+					return await handleGet(env, corsHeaders, config, id);
+				case 'PATCH':
+					return await handlePatch(request, env, corsHeaders, config, user, id, mailer, webhooks);
+				case 'DELETE':
+					return await handleDelete(request, env, corsHeaders, user, id);
+				default:
+					return methodNotAllowed(['GET', 'PATCH', 'DELETE'], corsHeaders);
+			}
+		}
+
+		return apiError(404, 'not_found', 'Unknown API endpoint', corsHeaders);
+	} catch (error) {
+		console.error('API error:', error);
+		return apiError(500, 'internal_error', 'Internal Server Error', corsHeaders);
+	}
+}
+
+async function handleList(env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, url: URL): Promise<Response> {
+	const params = url.searchParams;
+
+	const filters = parseSubmissionFilters(params);
+	const sort = parseSort(params.get('sort'), getDefaultSort(filters));
+	if (!sort) {
+		return apiError(400, 'invalid_sort', `sort must be one of ${SORT_FIELDS.join(', ')} (prefix with - for descending)`, corsHeaders);
+	}
+
+	const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_PAGE_SIZE;
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+		return apiError(400, 'invalid_limit', `limit must be an integer from 1 to ${MAX_PAGE_SIZE}`, corsHeaders);
+	}
+
+	if ((params.get('created_after') && !filters.createdAfter) || (params.get('created_before') && !filters.createdBefore)) {
+		return apiError(400, 'invalid_date', 'created_after and created_before must be ISO 8601 dates', corsHeaders);
+	}
+
+	try {
+		const page = await listSubmissions(env.DB, { filters, sort, limit, cursor: params.get('cursor') }, config);
+		const now = Date.now();
+		return json({ data: page.rows.map((row) => toSubmissionJson(row, config, now)), next_cursor: page.nextCursor }, 200, corsHeaders);
+	} catch (error) {
+		if (error instanceof InvalidCursorError) {
+			return apiError(400, 'invalid_cursor', 'cursor is invalid or was issued for a different sort', corsHeaders);
+		}
+		throw error;
+	}
+}
+
+async function handleGet(env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, id: string): Promise<Response> {
+	const row = await getSubmission(env.DB, id);
+	return row ? json({ data: toSubmissionJson(row, config) }, 200, corsHeaders) : submissionNotFound(corsHeaders);
+}
+
+async function handlePatch(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	config: typeof CONFIG,
+	user: CloudflareAccessUser,
+	id: string,
+	mailer: EmailTransport | null,
+	webhooks: WebhookDispatcher,
+): Promise<Response> {
+	if (!request.headers.get('Content-Type')?.toLowerCase().startsWith('application/json')) {
+		return apiError(415, 'unsupported_media_type', 'PATCH requires Content-Type: application/json', corsHeaders);
+	}
+
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		return apiError(400, 'invalid_json', 'Request body is not valid JSON', corsHeaders);
+	}
+
+	const parsed = parseChanges(body, config);
+	if ('error' in parsed) {
+		return apiError(400, 'invalid_request', parsed.error, corsHeaders);
+	}
+
+	// Same list as the admin panel's assignee dropdown
+	const assignee = parsed.changes.assigned_to;
+	if (assignee && !(await listAssignees(env.DB, config)).includes(assignee)) {
+		return apiError(400, 'invalid_request', 'assigned_to must be an admin who can be assigned submissions', corsHeaders);
+	}
+
+	const result = await applySubmissionChanges(env.DB, id, parsed.changes, getAuditContext(request, user));
+	if (!result) {
+		return submissionNotFound(corsHeaders);
+	}
+	console.log(`API update: ${id} ${JSON.stringify(parsed.changes)} by ${user.email}`);
+	await notifyAssignee(mailer, result, user.email, config, config.admin.publicUrl || new URL(request.url).origin);
+	await dispatchSubmissionChanges(webhooks, result, user.email, config);
+
+	return json({ data: toSubmissionJson(result.submission, config) }, 200, corsHeaders);
+}
+
+async function handleDelete(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	user: CloudflareAccessUser,
+	id: string,
+): Promise<Response> {
+	if (!(await deleteSubmission(env.DB, id, getAuditContext(request, user)))) {
+		return submissionNotFound(corsHeaders);
+	}
+	console.log(`API delete: ${id} by ${user.email}`);
+	return new Response(null, { status: 204, headers: corsHeaders });
+}
+
+/**
+ * Validate a PATCH body against the configured statuses and priorities
+ */
+function parseChanges(body: unknown, config: typeof CONFIG): { changes: SubmissionChanges } | { error: string } {
+	if (!body || typeof body !== 'object' || Array.isArray(body)) {
+		return { error: 'Request body must be a JSON object' };
+	}
+
+	const input = body as Record<string, unknown>;
+	const unknownFields = Object.keys(input).filter((key) => !EDITABLE_FIELDS.includes(key));
+	if (unknownFields.length > 0) {
+		return { error: `Unknown or read-only fields: ${unknownFields.join(', ')}` };
+	}
+	if (Object.keys(input).length === 0) {
+		return { error: `Provide at least one of ${EDITABLE_FIELDS.join(', ')}` };
+	}
+
+	const changes: SubmissionChanges = {};
+
+	if ('status' in input) {
+		const statuses = config.admin.statusOptions.map((option) => option.value);
+		if (typeof input.status !== 'string' || !statuses.includes(input.status)) {
+			return { error: `status must be one of ${statuses.join(', ')}` };
+		}
+		changes.status = input.status;
+	}
+
+	if ('priority' in input) {
+		if (typeof input.priority !== 'string' || !isValidPriority(input.priority, config)) {
+			return { error: `priority must be one of ${config.contactForm.priorityLevels.map((level) => level.value).join(', ')}` };
+		}
+		changes.priority = input.priority;
+	}
+
+	if ('assigned_to' in input) {
+		if (input.assigned_to !== null) {
+			const error =
+				typeof input.assigned_to === 'string'
+					? validateField(input.assigned_to, { label: 'assigned_to', required: true, format: 'email', maxLength: 254 }, config)
+					: 'assigned_to must be an email address or null';
+			if (error) {
+				return { error };
+			}
+		}
+		changes.assigned_to = typeof input.assigned_to === 'string' ? input.assigned_to.trim().toLowerCase() : null;
+	}
+
+	return { changes };
+}
+
+function json(body: unknown, status: number, corsHeaders: Record<string, string>): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...corsHeaders },
+	});
+}
+
+function apiError(status: number, code: string, message: string, corsHeaders: Record<string, string>): Response {
+	return json({ error: { code, message } }, status, corsHeaders);
+}
+
+function submissionNotFound(corsHeaders: Record<string, string>): Response {
+	return apiError(404, 'not_found', 'Submission not found', corsHeaders);
+}
+
+function methodNotAllowed(allowed: string[], corsHeaders: Record<string, string>): Response {
+	const response = apiError(405, 'method_not_allowed', `Use ${allowed.join(', ')}`, corsHeaders);
+	response.headers.set('Allow', allowed.join(', '));
+	return response;
+}
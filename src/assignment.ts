@@ -0,0 +1,91 @@
+/**
+ * Submission ownership: who can be assigned, and telling them when they are
+ *
+ * Assignees come from CONFIG.security.allowedAdminEmails, CONFIG.admin.assignees
+ * and, for Cloudflare Access setups where the admin list lives in Zero Trust,
+ * every identity that has already assigned, changed or commented on a submission.
+ */
+
+import { CONFIG } from './config';
+import type { EmailTransport } from './email';
+import { getPriorityLevel } from './priority';
+import { getSubmission, type SubmissionChangeResult } from './submissions';
+import type { SubmissionRow } from './types';
+
+// Named as the assigner in emails about routing rule assignments
+const ROUTING_ACTOR = 'A routing rule';
+
+/**
+ * Everyone a submission can be assigned to, lowercased and sorted
+ */
+export async function listAssignees(db: D1Database, config: typeof CONFIG): Promise<string[]> {
+	const { results } = await db
+		.prepare(`
+			SELECT assigned_to AS email FROM submissions WHERE assigned_to IS NOT NULL
+			UNION SELECT actor FROM submission_events
+			UNION SELECT author FROM submission_notes
+		`)
+		.all<{ email: string }>();
+
+	const emails = [...config.security.allowedAdminEmails, ...config.admin.assignees, ...results.map((row) => row.email)]
+		.map((email) => email.trim().toLowerCase())
+		// Service tokens act under their Client ID, which can't receive email
+		.filter((email) => email.includes('@'));
+	return [...new Set(emails)].sort();
+}
+
+/**
+ * The new assignee, when a change handed the submission to someone other than
+ * the admin who made it
+ */
+export function getNewAssignee(result: SubmissionChangeResult, actor: string): string | null {
+	const assignee = result.submission.assigned_to;
+	if (!assignee || assignee === result.previous.assigned_to || assignee === actor.toLowerCase()) {
+		return null;
+	}
+	return assignee;
+}
+
+/**
+ * Email the new assignee (see getNewAssignee), with a link to the submission
+ */
+export async function notifyAssignee(mailer: EmailTransport | null, result: SubmissionChangeResult, actor: string, config: typeof CONFIG, origin: string): Promise<void> {
+	const assignee = getNewAssignee(result, actor);
+	if (!assignee || !config.features.enableEmailNotifications || !mailer) {
+		return;
+	}
+	await mailer.send({
+		to: [assignee],
+		...createAssignmentEmail(result.submission, actor, config, origin),
+		replyTo: result.submission.email ?? undefined,
+	});
+}
+
+/**
+ * Email the assignee a routing rule gave a new submission to
+ */
+export async function notifyRoutedAssignee(db: D1Database, mailer: EmailTransport | null, id: string, config: typeof CONFIG, origin: string): Promise<void> {
+	const submission = await getSubmission(db, id);
+	if (submission) {
+		await notifyAssignee(mailer, { previous: { ...submission, assigned_to: null }, submission }, ROUTING_ACTOR, config, origin);
+	}
+}
+
+export function createAssignmentEmail(submission: SubmissionRow, actor: string, config: typeof CONFIG, origin: string): { subject: string; text: string } {
+	const subject = `Assigned to you: ${submission.service_type} - ${submission.name}`;
+	const text = `
+${actor} assigned you a submission in ${config.admin.title}.
+
+👤 Customer: ${submission.name}
+📧 Email: ${submission.email || 'Not provided'}
+🔧 Service: ${submission.service_type}
+🚨 Priority: ${getPriorityLevel(submission.priority, config).label}
+
+💬 Message:
+${submission.message}
+
+Open it: ${origin}/admin/submissions/${encodeURIComponent(submission.id)}
+	`.trim();
+
+	return { subject: subject.length > 78 ? subject.substring(0, 75) + '...' : subject, text };
+}
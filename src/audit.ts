@@ -0,0 +1,225 @@
+/**
+ * Audit log of admin actions (audit_log table)
+ *
+ * Every admin mutation writes one row: who did it, from which IP, what it
+ * touched and the values before and after. Where the change itself is a D1
+ * statement, the audit row goes in the same batch so neither can land alone.
+ */
+
+import { csvRow } from './csv';
+import { toDbTimestamp } from './priority';
+import type { CloudflareAccessUser } from './types';
+
+export const AUDIT_ACTIONS = [
+	'submission.status',
+	'submission.priority',
+	'submission.assign',
+	'submission.update', // Several fields at once (JSON API)
+	'submission.note',
+	'submission.reply',
+	'submission.delete',
+	'submission.export',
+	'outbox.resend',
+	'webhook.test',
+	'audit.export',
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+// Rows read per query while streaming the CSV export
+export const AUDIT_EXPORT_PAGE_SIZE = 500;
+
+const AUDIT_CSV_COLUMNS = ['id', 'created_at', 'actor', 'action', 'target_id', 'before', 'after', 'ip_address'];
+
+/**
+ * Who is acting, resolved once per request
+ */
+export interface AuditContext {
+	actor: string;
+	ip: string | null;
+}
+
+export interface AuditEntry {
+	action: AuditAction;
+	targetId?: string | null; // e.g. the submission id
+	before?: Record<string, unknown> | null;
+	after?: Record<string, unknown> | null;
+}
+
+/**
+ * A row of the audit_log table
+ */
+export interface AuditLogRow {
+	id: number;
+	actor: string;
+	action: string;
+	target_id: string | null;
+	before_value: string | null; // JSON
+	after_value: string | null; // JSON
+	ip_address: string | null;
+	created_at: string;
+}
+
+export interface AuditFilters {
+	actor?: string;
+	action?: string;
+	target?: string;
+	createdAfter?: string; // D1 datetime, inclusive
+	createdBefore?: string; // D1 datetime, exclusive
+}
+
+export function getAuditContext(request: Request, user: CloudflareAccessUser): AuditContext {
+	return { actor: user.email.toLowerCase(), ip: request.headers.get('CF-Connecting-IP') };
+}
+
+/**
+ * The INSERT for one entry, for callers that batch it with the change itself
+ */
+export function auditStatement(db: D1Database, context: AuditContext, entry: AuditEntry): D1PreparedStatement {
+	return db
+		.prepare(`
+			INSERT INTO audit_log (actor, action, target_id, before_value, after_value, ip_address)
+			VALUES (?, ?, ?, ?, ?, ?)
+		`)
+		.bind(
+			context.actor,
+			entry.action,
+			entry.targetId ?? null,
+			entry.before ? JSON.stringify(entry.before) : null,
+			entry.after ? JSON.stringify(entry.after) : null,
+			context.ip,
+		);
+}
+
+export async function recordAudit(db: D1Database, context: AuditContext, entry: AuditEntry): Promise<void> {
+	await auditStatement(db, context, entry).run();
+}
+
+/**
+ * Read audit filters from a query string (actor, action, target, created_after, created_before)
+ */
+export function parseAuditFilters(params: URLSearchParams): AuditFilters {
+	const text = (key: string) => params.get(key)?.trim() || undefined;
+	const filters: AuditFilters = {
+		actor: text('actor')?.toLowerCase(),
+		action: text('action'),
+		target: text('target'),
+		createdAfter: toDbTimestamp(params.get('created_after')),
+		createdBefore: toDbTimestamp(params.get('created_before')),
+	};
+	return Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Query-string form of a set of audit filters (the inverse of parseAuditFilters)
+ */
+export function toAuditFilterParams(filters: AuditFilters): URLSearchParams {
+	const params = new URLSearchParams();
+	const entries: [string, string | undefined][] = [
+		['actor', filters.actor],
+		['action', filters.action],
+		['target', filters.target],
+		['created_after', filters.createdAfter?.slice(0, 10)],
+		['created_before', filters.createdBefore?.slice(0, 10)],
+	];
+	for (const [key, value] of entries) {
+		if (value) {
+			params.set(key, value);
+		}
+	}
+	return params;
+}
+
+/**
+ * Newest entries first
+ */
+export async function listAuditLog(db: D1Database, filters: AuditFilters, limit: number, offset = 0): Promise<AuditLogRow[]> {
+	const { where, params } = buildAuditWhere(filters);
+	const { results } = await db
+		.prepare(`SELECT * FROM audit_log ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+		.bind(...params, limit, offset)
+		.all<AuditLogRow>();
+	return results;
+}
+
+/**
+ * The next entries after the given one, newest first (keyset paging for the export)
+ */
+async function listAuditLogAfter(db: D1Database, filters: AuditFilters, limit: number, after: AuditLogRow | null): Promise<AuditLogRow[]> {
+	const { where, params } = buildAuditWhere(filters, after);
+	const { results } = await db
+		.prepare(`SELECT * FROM audit_log ${where} ORDER BY created_at DESC, id DESC LIMIT ?`)
+		.bind(...params, limit)
+		.all<AuditLogRow>();
+	return results;
+}
+
+export async function countAuditLog(db: D1Database, filters: AuditFilters): Promise<number> {
+	const { where, params } = buildAuditWhere(filters);
+	const row = await db
+		.prepare(`SELECT COUNT(*) AS count FROM audit_log ${where}`)
+		.bind(...params)
+		.first<{ count: number }>();
+	return row?.count ?? 0;
+}
+
+/**
+ * CSV export of the filtered entries, header first. Pages are read as the
+ * client downloads, so the whole log can be exported without holding it in memory.
+ */
+export function streamAuditCsv(db: D1Database, filters: AuditFilters, pageSize: number = AUDIT_EXPORT_PAGE_SIZE): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	let last: AuditLogRow | null = null;
+	let count = 0;
+
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			controller.enqueue(encoder.encode(csvRow(AUDIT_CSV_COLUMNS)));
+		},
+		async pull(controller) {
+			try {
+				const rows = await listAuditLogAfter(db, filters, pageSize, last);
+				controller.enqueue(encoder.encode(rows.map(toAuditCsvRow).join('')));
+				count += rows.length;
+				last = rows[rows.length - 1] ?? null;
+				if (rows.length < pageSize) {
+					controller.close();
+				}
+			} catch (error) {
+				// The status line has gone out already, so the client sees a cut-off download
+				console.error(`Audit export failed after ${count} rows:`, error);
+				controller.error(error);
+			}
+		},
+	});
+}
+
+function toAuditCsvRow(row: AuditLogRow): string {
+	return csvRow([row.id, row.created_at, row.actor, row.action, row.target_id, row.before_value, row.after_value, row.ip_address]);
+}
+
+/**
+ * WHERE clause for the filters; after (the last row of the previous page)
+ * continues the newest-first order past it
+ */
+function buildAuditWhere(filters: AuditFilters, after: AuditLogRow | null = null): { where: string; params: (string | number)[] } {
+	const conditions: string[] = [];
+	const params: (string | number)[] = [];
+	const add = (condition: string, value: string | undefined) => {
+		if (value) {
+			conditions.push(condition);
+			params.push(value);
+		}
+	};
+
+	add('actor = ?', filters.actor);
+	add('action = ?', filters.action);
+	add('target_id = ?', filters.target);
+	add('created_at >= ?', filters.createdAfter);
+	add('created_at < ?', filters.createdBefore);
+	if (after) {
+		conditions.push('(created_at, id) < (?, ?)');
+		params.push(after.created_at, after.id);
+	}
+
+	return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
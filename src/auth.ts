@@ -0,0 +1,276 @@
+/**
+ * Cloudflare Access JWT verification
+ *
+ * Verifies the `Cf-Access-Jwt-Assertion` header against the team's JWKS
+ * (RS256), then checks expiry, audience and issuer before trusting the identity.
+ */
+
+import { CONFIG } from './config';
+import type { CloudflareAccessUser, Env } from './types';
+
+export type AccessTokenResult = { user: CloudflareAccessUser; reason?: undefined } | { user: null; reason: string };
+
+export interface AccessVerifierOptions {
+	teamDomain: string;
+	audience: string;
+	fetcher?: typeof fetch; // Override for tests (local JWKS stand-in)
+	now?: () => number; // Seconds since epoch
+}
+
+interface Jwk {
+	kid: string;
+	kty: string;
+	alg?: string;
+	n: string;
+	e: string;
+}
+
+interface CachedKeySet {
+	keys: Map<string, CryptoKey>;
+	fetchedAt: number;
+	expiresAt: number;
+}
+
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+// Shortest gap between refetches for an unknown kid, so made-up kids can't hammer the certs endpoint
+const JWKS_MIN_REFRESH_MS = 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+// Keyed by certs URL so multiple team domains never share keys
+const jwksCache = new Map<string, CachedKeySet>();
+
+/**
+ * Clear cached signing keys (used by tests and after key rotation)
+ */
+export function clearJwksCache(): void {
+	jwksCache.clear();
+}
+
+/**
+ * Normalise a team domain into the issuer URL Access puts in `iss`
+ */
+export function getAccessIssuer(teamDomain: string): string {
+	const trimmed = teamDomain.trim().replace(/\/+$/, '');
+	return trimmed.startsWith('https://') ? trimmed : `https://${trimmed.replace(/^http:\/\//, '')}`;
+}
+
+/**
+ * Extract and verify the user identity from the Cloudflare Access JWT
+ * @param request - The incoming request
+ * @param env - Worker environment holding ACCESS_TEAM_DOMAIN and ACCESS_AUD
+ * @returns The verified user, or null with the reason the token was rejected
+ */
+export async function extractUserFromAccessToken(request: Request, env: Env): Promise<AccessTokenResult> {
+	const token = request.headers.get('Cf-Access-Jwt-Assertion');
+	if (!token) {
+		return { user: null, reason: 'Missing Cf-Access-Jwt-Assertion header' };
+	}
+
+	if (!env.ACCESS_TEAM_DOMAIN || !env.ACCESS_AUD) {
+		return { user: null, reason: 'Cloudflare Access is not configured (set ACCESS_TEAM_DOMAIN and ACCESS_AUD)' };
+	}
+
+	return verifyAccessJwt(token, { teamDomain: env.ACCESS_TEAM_DOMAIN, audience: env.ACCESS_AUD });
+}
+
+/**
+ * Verify an Access JWT signature and claims
+ */
+export async function verifyAccessJwt(token: string, options: AccessVerifierOptions): Promise<AccessTokenResult> {
+	try {
+		// JWT structure: header.payload.signature
+		const parts = token.split('.');
+		if (parts.length !== 3) {
+			return { user: null, reason: 'Invalid JWT token format' };
+		}
+
+		const [encodedHeader, encodedPayload, encodedSignature] = parts;
+		const header = JSON.parse(decodeBase64UrlToString(encodedHeader));
+
+		if (header.alg !== 'RS256') {
+			return { user: null, reason: `Unsupported JWT algorithm: ${header.alg}` };
+		}
+		if (!header.kid) {
+			return { user: null, reason: 'JWT header missing key id (kid)' };
+		}
+
+		const issuer = getAccessIssuer(options.teamDomain);
+		let key: CryptoKey | null;
+		try {
+			key = await getSigningKey(issuer, header.kid, options.fetcher ?? fetch);
+		} catch (error) {
+			console.error('Error fetching Access signing keys:', error);
+			return { user: null, reason: 'Unable to fetch Access signing keys' };
+		}
+		if (!key) {
+			return { user: null, reason: `No signing key found for kid ${header.kid}` };
+		}
+
+		const signedData = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
+		const signature = decodeBase64Url(encodedSignature);
+		const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, signedData);
+		if (!valid) {
+			return { user: null, reason: 'Invalid JWT signature' };
+		}
+
+		const payload = JSON.parse(decodeBase64UrlToString(encodedPayload));
+		const now = options.now ? options.now() : Math.floor(Date.now() / 1000);
+
+		// Validate token lifetime
+		if (typeof payload.exp !== 'number' || payload.exp < now - CLOCK_SKEW_SECONDS) {
+			return { user: null, reason: 'JWT token expired' };
+		}
+		if (typeof payload.nbf === 'number' && payload.nbf > now + CLOCK_SKEW_SECONDS) {
+			return { user: null, reason: 'JWT token not yet valid' };
+		}
+
+		// Validate audience and issuer
+		const audiences: string[] = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+		if (!audiences.includes(options.audience)) {
+			return { user: null, reason: 'JWT audience does not match this application' };
+		}
+		if (payload.iss !== issuer) {
+			return { user: null, reason: `JWT issuer mismatch: ${payload.iss}` };
+		}
+
+		// Validate required fields. Service tokens (used by API scripts) carry the
+		// token's Client ID as common_name instead of an email.
+		const identity = payload.email || payload.common_name;
+		if (!identity) {
+			return { user: null, reason: 'JWT token missing email field' };
+		}
+
+		return {
+			user: {
+				email: identity,
+				name: payload.name,
+				sub: payload.sub,
+				aud: audiences,
+				iss: payload.iss,
+				iat: payload.iat,
+				exp: payload.exp,
+			},
+		};
+	} catch (error) {
+		console.error('Error verifying Access token:', error);
+		return { user: null, reason: 'Malformed JWT token' };
+	}
+}
+
+export type AdminAuthResult = { user: CloudflareAccessUser; response?: undefined } | { user: null; response: Response };
+
+/**
+ * Admin guard applied in front of every /admin* route
+ *
+ * Resolves the verified admin identity, or returns the 401/403 response to send
+ * back. Handlers behind the guard always receive a non-null user.
+ */
+export async function requireAdmin(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	config: typeof CONFIG,
+): Promise<AdminAuthResult> {
+	const { enableAdminAuth, enableCloudflareAccess } = config.features;
+
+	// Authentication fully disabled: only tolerated for local development
+	if (!enableAdminAuth && !enableCloudflareAccess) {
+		if (env.ENVIRONMENT === 'development') {
+			return { user: { email: 'dev-admin@localhost', name: 'Local Development' } };
+		}
+		console.error('Admin authentication is disabled outside development; refusing admin access');
+		return { user: null, response: adminAuthError(401, 'Admin authentication is not configured', corsHeaders) };
+	}
+
+	const { user, reason } = await extractUserFromAccessToken(request, env);
+	if (!user) {
+		console.warn(`Admin access denied: ${reason}`);
+		return { user: null, response: adminAuthError(401, reason, corsHeaders) };
+	}
+
+	// Check if user email is in allowed list (if not using Cloudflare Access policies)
+	if (enableAdminAuth && !enableCloudflareAccess) {
+		const allowed = config.security.allowedAdminEmails.map((email) => email.toLowerCase());
+		if (!allowed.includes(user.email.toLowerCase())) {
+			console.warn(`Admin access denied for ${user.email}: not in admin list`);
+			return { user: null, response: adminAuthError(403, 'Email not in admin list', corsHeaders) };
+		}
+	}
+
+	return { user };
+}
+
+function adminAuthError(status: 401 | 403, reason: string, corsHeaders: Record<string, string>): Response {
+	const prefix = status === 401 ? 'Unauthorized' : 'Forbidden';
+	return new Response(`${prefix} - ${reason}`, {
+		status,
+		headers: { 'Content-Type': 'text/plain', ...corsHeaders },
+	});
+}
+
+/**
+ * Look up a signing key, refreshing the cached JWKS if the kid is unknown
+ * (Access rotates keys periodically), at most once per JWKS_MIN_REFRESH_MS
+ * @throws When the JWKS can't be fetched
+ */
+async function getSigningKey(issuer: string, kid: string, fetcher: typeof fetch): Promise<CryptoKey | null> {
+	const certsUrl = `${issuer}/cdn-cgi/access/certs`;
+	const cached = jwksCache.get(certsUrl);
+	const now = Date.now();
+
+	if (cached && cached.expiresAt > now) {
+		if (cached.keys.has(kid)) {
+			return cached.keys.get(kid)!;
+		}
+		if (now - cached.fetchedAt < JWKS_MIN_REFRESH_MS) {
+			return null;
+		}
+	}
+
+	const keySet = await fetchKeySet(certsUrl, fetcher);
+	jwksCache.set(certsUrl, keySet);
+	return keySet.keys.get(kid) ?? null;
+}
+
+async function fetchKeySet(certsUrl: string, fetcher: typeof fetch): Promise<CachedKeySet> {
+	const response = await fetcher(certsUrl);
+	if (!response.ok) {
+		throw new Error(`Failed to fetch Access certs: ${response.status} ${response.statusText}`);
+	}
+
+	const body = (await response.json()) as { keys?: Jwk[] };
+	const keys = new Map<string, CryptoKey>();
+
+	for (const jwk of body.keys ?? []) {
+		if (jwk.kty !== 'RSA' || !jwk.kid) {
+			continue;
+		}
+		const key = await crypto.subtle.importKey(
+			'jwk',
+			{ kty: jwk.kty, n: jwk.n, e: jwk.e, alg: 'RS256', ext: true },
+			{ name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+			false,
+			['verify'],
+		);
+		keys.set(jwk.kid, key);
+	}
+
+	const fetchedAt = Date.now();
+	return { keys, fetchedAt, expiresAt: fetchedAt + JWKS_CACHE_TTL_MS };
+}
+
+function decodeBase64Url(input: string): Uint8Array {
+	// Convert base64url to base64
+	const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+	const paddedBase64 = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+	const binary = atob(paddedBase64);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
+
+function decodeBase64UrlToString(input: string): string {
+	return new TextDecoder().decode(decodeBase64Url(input));
+}
@@ -0,0 +1,347 @@
+/**
+ * Chat notifications: new submissions posted to Slack, Microsoft Teams and
+ * Discord incoming webhooks
+ *
+ * Each platform is on when its webhook URL secret is set (SLACK_WEBHOOK_URL,
+ * TEAMS_WEBHOOK_URL, DISCORD_WEBHOOK_URL). All three messages are built from the
+ * same facts as the admin notification email. With SLACK_SIGNING_SECRET set,
+ * Slack messages also get "Mark in progress" and "Resolve" buttons; Slack sends
+ * clicks to POST /chat/slack/actions, signed with that secret, and the message
+ * is updated to show who changed the status.
+ */
+
+import { CONFIG } from './config';
+import { formatFieldValue, getCustomFields } from './fields';
+import { getPriorityLevel } from './priority';
+import type { Env, FormSubmission } from './types';
+
+export const CHAT_PLATFORMS = ['slack', 'teams', 'discord'] as const;
+export type ChatPlatform = (typeof CHAT_PLATFORMS)[number];
+
+export const SLACK_ACTIONS_PATH = '/chat/slack/actions';
+
+// Statuses the Slack buttons set, in the order they are shown
+export const SLACK_STATUS_ACTIONS = [
+	{ status: 'in_progress', label: 'Mark in progress' },
+	{ status: 'resolved', label: 'Resolve' },
+] as const;
+
+// Slack rejects requests signed longer ago than this, to stop replays
+const SLACK_MAX_AGE_SECONDS = 300;
+const SLACK_ACTIONS_BLOCK = 'submission_actions';
+const SLACK_ACTION_PREFIX = 'submission.status.';
+// Length limits of the platforms' message fields
+const SLACK_TEXT_LIMIT = 3000;
+const DISCORD_DESCRIPTION_LIMIT = 4096;
+const DISCORD_FIELD_LIMIT = 1024;
+
+/**
+ * A label and value shown on every platform (the email notification's details)
+ */
+export interface ChatFact {
+	label: string;
+	value: string;
+}
+
+/**
+ * A click on one of the Slack status buttons
+ */
+export interface SlackAction {
+	submissionId: string;
+	status: string;
+	userId: string; // Slack member ID, e.g. U0123ABCD
+	userName: string;
+	responseUrl: string; // Where to send the updated message
+	blocks: SlackBlock[]; // The message the button was on
+}
+
+type SlackBlock = Record<string, unknown>;
+
+/**
+ * Platforms with a webhook URL set, and where to post
+ */
+export function getChatChannels(env: Env): { platform: ChatPlatform; url: string }[] {
+	const urls: Record<ChatPlatform, string | undefined> = {
+		slack: env.SLACK_WEBHOOK_URL,
+		teams: env.TEAMS_WEBHOOK_URL,
+		discord: env.DISCORD_WEBHOOK_URL,
+	};
+	return CHAT_PLATFORMS.filter((platform) => urls[platform]).map((platform) => ({ platform, url: urls[platform]! }));
+}
+
+/**
+ * Post a new submission to every configured platform. Never throws; failures
+ * are logged, since the email notification is the one that is retried.
+ * @returns how many platforms accepted the message
+ */
+export async function sendChatNotifications(env: Env, submission: FormSubmission, config: typeof CONFIG, baseUrl: string): Promise<number> {
+	const adminUrl = baseUrl ? `${baseUrl}/admin/submissions/${encodeURIComponent(submission.id)}` : '';
+	const results = await Promise.all(
+		getChatChannels(env).map(({ platform, url }) => {
+			const message =
+				platform === 'slack'
+					? formatSlackMessage(submission, config, adminUrl, Boolean(env.SLACK_SIGNING_SECRET))
+					: platform === 'teams'
+						? formatTeamsMessage(submission, config, adminUrl)
+						: formatDiscordMessage(submission, config, adminUrl);
+			return postChatMessage(platform, url, message, config);
+		}),
+	);
+	return results.filter(Boolean).length;
+}
+
+/**
+ * The details every platform shows, in order
+ */
+export function getChatFacts(submission: FormSubmission, config: typeof CONFIG): ChatFact[] {
+	const level = getPriorityLevel(submission.priority, config);
+	const facts: ChatFact[] = [
+		{ label: 'Name', value: submission.name },
+		{ label: 'Email', value: submission.email || 'Not provided' },
+		{ label: 'Phone', value: submission.phone || 'Not provided' },
+		{ label: 'Service', value: submission.service_type },
+		{ label: 'Priority', value: `${level.label} (respond within ${level.slaHours}h)` },
+		{ label: 'Form', value: config.contactForm.title },
+	];
+	if (submission.reference) {
+		facts.push({ label: 'Reference', value: submission.reference });
+	}
+	for (const field of getCustomFields(config)) {
+		const value = formatFieldValue(field, submission.custom_fields?.[field.name]);
+		if (value) {
+			facts.push({ label: field.label, value });
+		}
+	}
+	return facts;
+}
+
+/**
+ * Slack Block Kit message. Submitter text is escaped, so it cannot ping
+ * @channel or make links.
+ */
+export function formatSlackMessage(submission: FormSubmission, config: typeof CONFIG, adminUrl: string, withActions: boolean): Record<string, unknown> {
+	const title = getChatTitle(submission, config);
+	// Slack shows at most 10 fields per section
+	const facts = getChatFacts(submission, config);
+	const sections = [];
+	for (let i = 0; i < facts.length; i += 10) {
+		sections.push({
+			type: 'section',
+			fields: facts.slice(i, i + 10).map((fact) => ({ type: 'mrkdwn', text: truncate(`*${escapeSlack(fact.label)}*\n${escapeSlack(fact.value)}`, 2000) })),
+		});
+	}
+	const actions = getSlackActionsBlock(submission.id, 'new', adminUrl, withActions);
+
+	return {
+		text: title,
+		blocks: [
+			{ type: 'header', text: { type: 'plain_text', text: truncate(title, 150) } },
+			...sections,
+			{ type: 'section', text: { type: 'mrkdwn', text: truncate(quoteSlack(submission.message), SLACK_TEXT_LIMIT) } },
+			...(actions ? [actions] : []),
+		],
+	};
+}
+
+/**
+ * Adaptive Card for a Teams incoming webhook (or a Workflows "post to channel" flow)
+ */
+export function formatTeamsMessage(submission: FormSubmission, config: typeof CONFIG, adminUrl: string): Record<string, unknown> {
+	return {
+		type: 'message',
+		attachments: [
+			{
+				contentType: 'application/vnd.microsoft.card.adaptive',
+				contentUrl: null,
+				content: {
+					$schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+					type: 'AdaptiveCard',
+					version: '1.4',
+					body: [
+						{ type: 'TextBlock', text: getChatTitle(submission, config), weight: 'Bolder', size: 'Medium', wrap: true },
+						{ type: 'FactSet', facts: getChatFacts(submission, config).map((fact) => ({ title: fact.label, value: fact.value })) },
+						{ type: 'TextBlock', text: submission.message, wrap: true },
+					],
+					actions: adminUrl ? [{ type: 'Action.OpenUrl', title: 'Open in admin panel', url: adminUrl }] : [],
+				},
+			},
+		],
+	};
+}
+
+/**
+ * Discord embed, coloured by priority. Mentions are switched off, so a message
+ * containing @everyone pings nobody.
+ */
+export function formatDiscordMessage(submission: FormSubmission, config: typeof CONFIG, adminUrl: string): Record<string, unknown> {
+	const level = getPriorityLevel(submission.priority, config);
+	return {
+		username: config.email.systemName,
+		allowed_mentions: { parse: [] },
+		embeds: [
+			{
+				title: truncate(getChatTitle(submission, config), 256),
+				...(adminUrl ? { url: adminUrl } : {}),
+				description: truncate(escapeDiscord(submission.message), DISCORD_DESCRIPTION_LIMIT),
+				color: Number.parseInt(level.color.replace('#', ''), 16),
+				// Discord allows 25 fields
+				fields: getChatFacts(submission, config)
+					.slice(0, 25)
+					.map((fact) => ({ name: truncate(fact.label, 256), value: truncate(escapeDiscord(fact.value), DISCORD_FIELD_LIMIT), inline: true })),
+				timestamp: submission.timestamp,
+			},
+		],
+	};
+}
+
+/**
+ * Check X-Slack-Signature: "v0=" and the hex HMAC-SHA256 of
+ * "v0:<X-Slack-Request-Timestamp>:<raw body>" with the app's signing secret
+ */
+export async function verifySlackRequest(
+	secret: string,
+	timestamp: string | null,
+	signature: string | null,
+	body: string,
+	now: number = Date.now(),
+): Promise<boolean> {
+	if (!timestamp || !/^\d+$/.test(timestamp) || !signature?.startsWith('v0=')) {
+		return false;
+	}
+	if (Math.abs(now / 1000 - Number(timestamp)) > SLACK_MAX_AGE_SECONDS) {
+		return false;
+	}
+	const hex = signature.slice(3);
+	if (!/^[0-9a-f]{64}$/.test(hex)) {
+		return false;
+	}
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+	const expected = Uint8Array.from(hex.match(/../g)!, (byte) => Number.parseInt(byte, 16));
+	// subtle.verify compares in constant time
+	return crypto.subtle.verify('HMAC', key, expected, encoder.encode(`v0:${timestamp}:${body}`));
+}
+
+/**
+ * The status button click in an interaction payload (the form-encoded body
+ * Slack posts), or null for anything else, such as the link button
+ */
+export function parseSlackAction(body: string): SlackAction | null {
+	let payload;
+	try {
+		payload = JSON.parse(new URLSearchParams(body).get('payload') ?? '');
+	} catch {
+		return null;
+	}
+	const action = payload?.type === 'block_actions' ? payload.actions?.[0] : null;
+	const status = typeof action?.action_id === 'string' && action.action_id.startsWith(SLACK_ACTION_PREFIX) ? action.action_id.slice(SLACK_ACTION_PREFIX.length) : null;
+	if (!status || typeof action.value !== 'string' || typeof payload.user?.id !== 'string' || typeof payload.response_url !== 'string') {
+		return null;
+	}
+	return {
+		submissionId: action.value,
+		status,
+		userId: payload.user.id,
+		userName: payload.user.username || payload.user.name || payload.user.id,
+		responseUrl: payload.response_url,
+		blocks: Array.isArray(payload.message?.blocks) ? payload.message.blocks : [],
+	};
+}
+
+/**
+ * Replacement for the message a button was clicked on: the same details, a
+ * line saying who set which status, and buttons for the statuses left
+ */
+export function getSlackStatusUpdate(action: SlackAction, config: typeof CONFIG): Record<string, unknown> {
+	const label = config.admin.statusOptions.find((option) => option.value === action.status)?.label ?? action.status;
+	const previous = action.blocks.find((block) => block.block_id === SLACK_ACTIONS_BLOCK);
+	// Keep the admin link button the message had
+	const link = (Array.isArray(previous?.elements) ? previous.elements : []).find((element: SlackBlock) => typeof element.url === 'string');
+	const actions = getSlackActionsBlock(action.submissionId, action.status, typeof link?.url === 'string' ? link.url : '', true);
+
+	return {
+		replace_original: true,
+		text: `${label} by ${action.userName}`,
+		blocks: [
+			...action.blocks.filter((block) => block.block_id !== SLACK_ACTIONS_BLOCK && block.block_id !== `${SLACK_ACTIONS_BLOCK}_status`),
+			{ type: 'context', block_id: `${SLACK_ACTIONS_BLOCK}_status`, elements: [{ type: 'mrkdwn', text: `*${escapeSlack(label)}* by <@${action.userId}>` }] },
+			...(actions ? [actions] : []),
+		],
+	};
+}
+
+/**
+ * Send a reply to an interaction's response_url (an updated or ephemeral message)
+ */
+export async function respondToSlack(responseUrl: string, message: Record<string, unknown>, config: typeof CONFIG): Promise<boolean> {
+	return postChatMessage('slack', responseUrl, message, config);
+}
+
+/**
+ * Buttons for the statuses after the current one, plus a link to the admin
+ * panel; null when there is nothing to show
+ */
+function getSlackActionsBlock(submissionId: string, status: string, adminUrl: string, withActions: boolean): SlackBlock | null {
+	const current = SLACK_STATUS_ACTIONS.findIndex((action) => action.status === status);
+	const statuses = withActions ? SLACK_STATUS_ACTIONS.slice(current + 1) : [];
+	const elements: SlackBlock[] = statuses.map((action) => ({
+		type: 'button',
+		action_id: `${SLACK_ACTION_PREFIX}${action.status}`,
+		text: { type: 'plain_text', text: action.label },
+		value: submissionId,
+		...(action.status === 'resolved' ? { style: 'primary' } : {}),
+	}));
+	if (adminUrl) {
+		elements.push({ type: 'button', action_id: 'open_admin', text: { type: 'plain_text', text: 'Open in admin panel' }, url: adminUrl });
+	}
+	return elements.length > 0 ? { type: 'actions', block_id: SLACK_ACTIONS_BLOCK, elements } : null;
+}
+
+async function postChatMessage(platform: ChatPlatform, url: string, message: Record<string, unknown>, config: typeof CONFIG): Promise<boolean> {
+	try {
+		const response = await fetch(url, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(message),
+			signal: AbortSignal.timeout(config.chat.timeoutSeconds * 1000),
+		});
+		if (!response.ok) {
+			console.error(`${platform} rejected the chat message: HTTP ${response.status} ${(await response.text().catch(() => '')).slice(0, 200)}`);
+			return false;
+		}
+		return true;
+	} catch (error) {
+		console.error(`Failed to post the chat message to ${platform}:`, error);
+		return false;
+	}
+}
+
+function getChatTitle(submission: FormSubmission, config: typeof CONFIG): string {
+	return `${config.company.emoji} New ${submission.service_type} enquiry from ${submission.name}`;
+}
+
+function truncate(text: string, limit: number): string {
+	return text.length > limit ? text.substring(0, limit - 1) + '…' : text;
+}
+
+/**
+ * Slack mrkdwn: &, < and > are the only characters that need escaping, and
+ * escaping them stops <!channel> and <url|label> links
+ */
+function escapeSlack(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function quoteSlack(text: string): string {
+	return escapeSlack(text.replace(/\r\n/g, '\n'))
+		.split('\n')
+		.map((line) => `>${line}`)
+		.join('\n');
+}
+
+/**
+ * Backslash-escape Discord markdown so the message shows as written
+ */
+function escapeDiscord(text: string): string {
+	return text.replace(/[\\*_~`|[\]]/g, '\\$&').replace(/^([>#-])/gm, '\\$1');
+}
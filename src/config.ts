@@ -4,6 +4,138 @@
  * Customize these values for your deployment
  */
 
+import type { EmailTransportName } from "./email";
+import type { EmailTemplateName } from "./templates";
+import type { WebhookEvent } from "./webhooks";
+
+/**
+ * Declarative validation for a single form field
+ */
+export interface FieldValidationRule {
+  label: string;
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  format?: "email" | "phone";
+  pattern?: string; // Regular expression the value must match
+  options?: string[] | "serviceTypes" | "priorityLevels"; // Value must be one of these ("serviceTypes" = contactForm.serviceTypes)
+  // Keys into contactForm.validation overriding the generic messages
+  messages?: { required?: string; format?: string; options?: string; pattern?: string };
+}
+
+export type FormFieldType = "text" | "email" | "tel" | "number" | "date" | "textarea" | "select" | "radio" | "checkbox" | "checkboxes";
+
+/**
+ * A field on the contact form
+ */
+export interface FormFieldConfig {
+  name: string; // Form field name; letters, numbers and underscores
+  type: FormFieldType;
+  label: string;
+  placeholder?: string;
+  required?: boolean;
+  options?: string[] | "serviceTypes" | "priorityLevels"; // For select, radio and checkboxes
+  feature?: "enablePhoneField" | "enablePriorityField"; // Only shown while this feature flag is on
+  showInAdmin?: boolean; // Custom fields only: add a column to the admin table
+  validation?: Pick<FieldValidationRule, "minLength" | "maxLength" | "format" | "pattern" | "messages">;
+}
+
+// Standard contact fields shared by the default form and the named forms below
+const CONTACT_FIELDS: FormFieldConfig[] = [
+  {
+    name: "name", type: "text", label: "Name", placeholder: "Your full name", required: true,
+    validation: { maxLength: 100, messages: { required: "nameRequired" } }
+  },
+  {
+    name: "email", type: "email", label: "Email", placeholder: "your@email.com",
+    validation: { maxLength: 254, messages: { format: "emailInvalid" } }
+  },
+  {
+    name: "phone", type: "tel", label: "Phone", placeholder: "(555) 123-4567", feature: "enablePhoneField",
+    validation: { maxLength: 30, messages: { format: "phoneInvalid" } }
+  },
+  {
+    name: "service_type", type: "select", label: "Service Type", placeholder: "Select a service...", required: true,
+    options: "serviceTypes",
+    validation: { messages: { required: "serviceTypeRequired", options: "serviceTypeInvalid" } }
+  },
+  {
+    name: "priority", type: "select", label: "Urgency", placeholder: "Select urgency...", feature: "enablePriorityField",
+    options: "priorityLevels"
+  }
+];
+
+const MESSAGE_FIELD: FormFieldConfig = {
+  name: "message", type: "textarea", label: "Message", placeholder: "Describe how we can help you...", required: true,
+  validation: { minLength: 10, maxLength: 5000, messages: { required: "messageRequired" } }
+};
+
+/**
+ * A priority level with its SLA response target
+ */
+export interface PriorityLevelConfig {
+  value: string; // Stored in submissions.priority
+  label: string;
+  color: string;
+  slaHours: number; // Response target, counted from submission time
+}
+
+/**
+ * An additional intake form served at /f/<id>. Anything left out falls back to CONFIG.contactForm.
+ */
+export interface NamedFormConfig {
+  title: string;
+  tagline?: string;
+  submitButtonText?: string;
+  responseTimeMessage?: string;
+  successMessage?: string;
+  serviceTypes?: string[];
+  fields?: FormFieldConfig[];
+  notificationRecipients?: string[];
+}
+
+/**
+ * A routing rule for new submissions (see routing.ts). Every condition that is
+ * set must match; within a condition, any one value is enough.
+ */
+export interface RoutingRule {
+  name: string; // Shown on the submission page when the rule fires
+  match: {
+    serviceTypes?: string[];
+    priorities?: string[]; // Priority level values
+    forms?: string[]; // "default" or keys of CONFIG.forms
+    keywords?: string[]; // Words or phrases in the message, case-insensitive
+    emailDomains?: string[]; // Submitter's email domain, subdomains included
+  };
+  actions: {
+    recipients?: string[]; // Send the admin notification here instead of the form's recipients
+    cc?: string[]; // Copy these addresses in on the admin notification
+    assignTo?: string; // Admin email to assign the submission to
+    priority?: string; // Initial priority, replacing the customer's choice
+  };
+  stop?: boolean; // Skip the rules after this one when it fires
+}
+
+/**
+ * A receiver of webhook events (see webhooks.ts)
+ */
+export interface WebhookEndpoint {
+  name: string; // Shown in the delivery log; must be unique
+  url: string; // https, or http for localhost while testing
+  events: WebhookEvent[];
+}
+
+/**
+ * A notification or auto-reply email. {{variable}} placeholders are filled in
+ * (see TEMPLATE_VARIABLES in templates.ts); without html, the HTML part is the
+ * text with its line breaks kept.
+ */
+export interface EmailTemplate {
+  subject: string;
+  text: string;
+  html?: string; // Inner HTML, placed in the themed email layout
+}
+
 export const CONFIG = {
   // Company/Organization Information
   company: {
@@ -15,7 +147,9 @@ export const CONFIG = {
 
   // Contact Form Configuration
   contactForm: {
+    id: "default", // The default form served at /
     title: "Contact Us",
+    tagline: "", // Overrides company.tagline on this form when set
     submitButtonText: "Send Message 🚀",
     responseTimeMessage: "We'll get back to you within 24 hours",
     
@@ -32,27 +166,226 @@ export const CONFIG = {
       "Other"
     ],
     
-    // Form validation messages
+    // Urgency levels for the priority field, lowest first. Open submissions that
+    // pass their level's slaHours are highlighted as overdue on the admin dashboard.
+    priorityLevels: [
+      { value: "low", label: "Low", color: "#6b7280", slaHours: 72 },
+      { value: "normal", label: "Normal", color: "#0f766e", slaHours: 24 },
+      { value: "high", label: "High", color: "#d97706", slaHours: 8 },
+      { value: "urgent", label: "Urgent", color: "#dc2626", slaHours: 2 }
+    ] as PriorityLevelConfig[],
+    
+    // Priority for submissions that don't pick one (or when the field is off)
+    defaultPriority: "normal",
+    
+    // Form validation messages ({label}, {min} and {max} are filled in)
     validation: {
       nameRequired: "Name is required",
       serviceTypeRequired: "Please select a service type", 
       messageRequired: "Message is required",
-      emailInvalid: "Please enter a valid email address"
+      emailInvalid: "Please enter a valid email address",
+      phoneInvalid: "Please enter a valid phone number",
+      serviceTypeInvalid: "Please select one of the listed service types",
+      required: "{label} is required",
+      tooShort: "{label} must be at least {min} characters",
+      tooLong: "{label} must be at most {max} characters",
+      invalid: "{label} is not valid",
+      formError: "Please correct the highlighted fields below"
+    },
+    
+    // Form fields, rendered in this order. name, email, phone, service_type and
+    // message are stored in their own columns; any other field is stored in the
+    // submission's custom_fields JSON. Validation is enforced server-side.
+    fields: [
+      ...CONTACT_FIELDS,
+      
+      // Custom field examples (uncomment or add your own):
+      // { name: "company", type: "text", label: "Company Name", showInAdmin: true },
+      // { name: "budget", type: "select", label: "Budget Range", placeholder: "Select a range...", options: ["Under $1k", "$1k - $5k", "$5k - $20k", "$20k+"], showInAdmin: true },
+      // { name: "contact_time", type: "radio", label: "Preferred Contact Time", options: ["Morning", "Afternoon", "Evening"] },
+      // { name: "interests", type: "checkboxes", label: "Interested In", options: ["Consulting", "Development", "Support"] },
+      // { name: "newsletter", type: "checkbox", label: "Send me occasional product updates" },
+      
+      MESSAGE_FIELD
+    ] as FormFieldConfig[],
+    
+    // Shown on the success page after submitting
+    successMessage: "We've received your message and will get back to you within 24 hours.",
+    
+    // Who receives notifications for this form (empty = ADMIN_EMAIL)
+    notificationRecipients: [] as string[]
+  },
+
+  // Named intake forms served at /f/<id> (e.g. /f/support), in addition to the default form at /
+  forms: {
+    support: {
+      title: "Technical Support",
+      tagline: "Something not working? Tell us what happened.",
+      serviceTypes: ["Technical Support", "Bug Report", "Feature Request"],
+      notificationRecipients: [], // e.g. ["support@yourdomain.com"]; empty = ADMIN_EMAIL
+      successMessage: "Our support team has your request and will respond within one business day."
+    },
+    sales: {
+      title: "Talk to Sales",
+      serviceTypes: ["Sales Question", "Pricing", "Demo Request"],
+      notificationRecipients: [], // e.g. ["sales@yourdomain.com"]; empty = ADMIN_EMAIL
+      successMessage: "Thanks for your interest! A member of our sales team will be in touch shortly."
+    },
+    partner: {
+      title: "Partner With Us",
+      serviceTypes: ["Partnership Opportunity", "Reseller", "Integration"],
+      fields: [
+        ...CONTACT_FIELDS,
+        { name: "company", type: "text", label: "Company Name", required: true, showInAdmin: true },
+        { name: "company_website", type: "text", label: "Company Website", placeholder: "https://", validation: { maxLength: 200 } },
+        MESSAGE_FIELD
+      ],
+      notificationRecipients: [], // e.g. ["partners@yourdomain.com"]; empty = ADMIN_EMAIL
+      successMessage: "Thanks! Our partnerships team will review your details and reach out."
     }
+  } as Record<string, NamedFormConfig>,
+
+  // Routing rules for form submissions, checked in order (see src/routing.ts)
+  routing: {
+    rules: [
+      // Examples - uncomment and use your own addresses:
+      // {
+      //   name: "Sales enquiries",
+      //   match: { serviceTypes: ["Sales Question", "Pricing", "Demo Request"] },
+      //   actions: { recipients: ["sales@yourdomain.com"] }
+      // },
+      // {
+      //   name: "Bug reports",
+      //   match: { keywords: ["bug", "crash", "error message", "broken"] },
+      //   actions: { cc: ["engineering@yourdomain.com"], assignTo: "dev@yourdomain.com" }
+      // },
+      // {
+      //   name: "Outages",
+      //   match: { keywords: ["outage", "security incident", "data breach"] },
+      //   actions: { priority: "urgent" }
+      // }
+    ] as RoutingRule[]
+  },
+
+  // Spam & Abuse Protection for POST /submit
+  spamProtection: {
+    // Hidden field that humans never see; bots that fill it are flagged
+    honeypotField: "website",
+    
+    // Submissions completed faster than this are treated as bots
+    minFillTimeSeconds: 3,
+    
+    // Per-IP limit (uses CF-Connecting-IP, counted in D1)
+    rateLimit: {
+      maxSubmissions: 5,
+      windowMinutes: 60
+    },
+    
+    // Cloudflare Turnstile (requires features.enableTurnstile and TURNSTILE_SECRET_KEY)
+    turnstile: {
+      siteKey: "YOUR_TURNSTILE_SITE_KEY"
+    },
+    
+    // Content scoring - submissions at or above the threshold are flagged
+    contentScoring: {
+      threshold: 5,
+      maxLinks: 2, // Links beyond this count add to the score
+      pointsPerExtraLink: 2,
+      pointsPerBannedPhrase: 5,
+      bannedPhrases: [
+        "casino",
+        "crypto investment",
+        "seo services",
+        "buy followers",
+        "viagra"
+      ]
+    },
+    
+    rateLimitedMessage: "Too many submissions from your network. Please try again later.",
+    challengeFailedMessage: "We couldn't verify you're human. Please try again."
   },
 
   // Email Configuration
   email: {
-    subjectPrefix: "New Contact Form", // Will become "New Contact Form: [Service Type] - [Name]"
     systemName: "Contact Form System", // Used as sender name
+    replyAddress: "support", // Replies to customers come from support@MG_DOMAIN
     
-    // Email templates
+    // How mail is sent: "mailgun", "cloudflare" (EMAIL_SENDER binding), "http" (EMAIL_API_URL),
+    // "fake" (logged, not sent) or "auto" (the first configured). EMAIL_TRANSPORT overrides it.
+    transport: "auto" as EmailTransportName | "auto",
+    
+    // Admin notifications are queued in the outbox and retried by the cron trigger,
+    // waiting retryDelaySeconds, then twice as long each time (up to maxRetryDelaySeconds).
+    // After maxAttempts they are dead-lettered until re-sent from /admin/outbox.
+    outbox: {
+      maxAttempts: 5,
+      retryDelaySeconds: 60,
+      maxRetryDelaySeconds: 3600
+    },
+    
+    // Inbound email (Email Routing -> this worker's email handler)
+    inbound: {
+      intakeAddress: "contact", // Unmatched mail to contact@ becomes a new submission
+      serviceType: "General Inquiry", // Service type for submissions created from email
+      reopenStatuses: ["resolved"], // A customer reply moves these submissions back to reopenStatus
+      reopenStatus: "new"
+    },
+    
+    // Email templates. {{name}}, {{service_type}}, {{message}}, {{reference}}, {{admin_url}} and
+    // the other variables listed in src/templates.ts are filled in. Preview them at
+    // /admin/templates/preview?template=adminNotification&service_type=Other
     templates: {
+      // Sent to the admins for each new submission
       adminNotification: {
-        header: "New Contact Form Submission",
-        footer: "Reply directly to this email to contact the customer."
+        subject: "New Contact Form: {{service_type}} - {{name}}",
+        text: "{{company_emoji}} New Contact Form Submission\n\n👤 Customer: {{name}}\n📧 Email: {{email}}\n📱 Phone: {{phone}}\n🔧 Service: {{service_type}}\n🚨 Priority: {{priority}}\n🗂️ Form: {{form}}\n{{custom_fields}}\n\n💬 Message:\n{{message}}\n\n🕒 Submitted: {{submitted_at}}\n🌐 Environment: {{environment}}\n📝 Submission ID: {{submission_id}}\n🔖 Reference: {{reference}}\n🔗 Open: {{admin_url}}\n\nReply directly to this email to contact the customer."
+      } as EmailTemplate,
+      // Auto-reply to the submitter (features.enableAcknowledgementEmail)
+      acknowledgement: {
+        subject: "We've received your message [{{reference}}]",
+        text: "Hi {{name}},\n\nThanks for contacting {{company}}. Your reference is {{reference}}; just reply to this email if you have anything to add.\n\n{{response_time}}.\n\nYour message:\n{{quoted_message}}\n\nThe {{company}} team"
+      } as EmailTemplate,
+      // Per service type overrides of the templates above
+      byService: {
+        "Technical Support": {
+          acknowledgement: {
+            subject: "Support request {{reference}} received",
+            text: "Hi {{name}},\n\nOur support team has your request, reference {{reference}}. If you can, reply with any error messages or screenshots.\n\n{{response_time}}.\n\nYour message:\n{{quoted_message}}\n\nThe {{company}} support team"
+          }
+        }
+      } as Record<string, Partial<Record<EmailTemplateName, EmailTemplate>>>,
+      // Replies sent from the submission page; {service} and {company} are filled in
+      customerReply: {
+        subject: "Re: Your {service} enquiry",
+        footer: "The {company} team"
       }
-    }
+    },
+    
+    // Prefix of the reference code customers are given, e.g. REF-7K2M-X9QD
+    referencePrefix: "REF"
+  },
+
+  // Webhooks: JSON POSTs to other systems on submission events, signed with the
+  // WEBHOOK_SECRET secret (see src/webhooks.ts). Failed deliveries are retried by the
+  // cron trigger with the same backoff as the email outbox, then dead-lettered.
+  webhooks: {
+    endpoints: [
+      // { name: "CRM", url: "https://crm.example.com/hooks/contact", events: ["submission.created", "submission.status_changed"] }
+    ] as WebhookEndpoint[],
+    maxAttempts: 6,
+    retryDelaySeconds: 60,
+    maxRetryDelaySeconds: 3600,
+    timeoutSeconds: 10 // Per attempt
+  },
+
+  // Chat notifications: new submissions posted to Slack, Teams and/or Discord (see
+  // src/chat.ts). A platform is on when its incoming webhook URL is set as a secret:
+  // SLACK_WEBHOOK_URL, TEAMS_WEBHOOK_URL, DISCORD_WEBHOOK_URL. Slack messages get
+  // "Mark in progress" and "Resolve" buttons once SLACK_SIGNING_SECRET is set too.
+  chat: {
+    // Slack member IDs (e.g. "U0123ABCD") allowed to use the buttons; empty allows anyone in the channel
+    slackAllowedUsers: [] as string[],
+    timeoutSeconds: 10 // Per post
   },
 
   // Admin Panel Configuration  
@@ -65,25 +398,48 @@ export const CONFIG = {
       { value: "new", label: "New", color: "#e67e22" },
       { value: "in_progress", label: "In Progress", color: "#3498db" },
       { value: "resolved", label: "Resolved", color: "#27ae60" },
-      { value: "cancelled", label: "Cancelled", color: "#e74c3c" }
+      { value: "cancelled", label: "Cancelled", color: "#e74c3c" },
+      { value: "spam", label: "Spam", color: "#6b7280" }
     ],
     
+    // Statuses still waiting on a response; only these count against the SLA
+    slaStatuses: ["new"],
+    
+    // Move "new" submissions to "in_progress" when an admin replies (can be unticked per reply)
+    replyMarksInProgress: true,
+    
+    // Teammates who can be assigned submissions, on top of security.allowedAdminEmails.
+    // With Cloudflare Access, admins who have already acted on a submission are listed too.
+    assignees: [] as string[],
+    
     // Table column headers
     columns: {
       name: "Name",
       email: "Email", 
       phone: "Phone",
       service: "Service",
+      form: "Form",
+      priority: "Priority",
       message: "Message",
       status: "Status",
+      assignee: "Assignee",
       date: "Date"
     },
     
+    // Submissions per dashboard page
+    pageSize: 25,
+    
+    // Public URL of this worker (e.g. "https://contact.example.com") for links in emails sent
+    // outside a web request, such as notifications for submissions made by email
+    publicUrl: "",
+    
     // Empty state message
     emptyState: {
       title: "No submissions yet",
       message: "Waiting for the first contact form submission...",
-      buttonText: "Test Contact Form"
+      buttonText: "Test Contact Form",
+      filteredTitle: "No matching submissions",
+      filteredMessage: "Try a different search or clear the filters."
     }
   },
 
@@ -179,11 +535,15 @@ export const CONFIG = {
   // Feature Flags
   features: {
     enableEmailNotifications: true,
+    enableChatNotifications: true, // Post new submissions to the chat platforms in CONFIG.chat
     enableAdminAuth: true, // Set to false to disable admin email checking
     enableCloudflareAccess: true, // Set to false if not using Cloudflare Access
     enableAnalytics: true,
     enablePhoneField: true,
-    enablePriorityField: false // Future feature
+    enablePriorityField: false, // Let customers pick an urgency level on the form
+    enableSpamProtection: true, // Honeypot, timing, rate limit and content checks
+    enableTurnstile: false, // Cloudflare Turnstile challenge on the contact form
+    enableAcknowledgementEmail: false // Email submitters a copy of their message with its reference code
   },
 
   // Environment-specific overrides
@@ -193,7 +553,8 @@ export const CONFIG = {
         name: "Your Company Name (DEV)"
       },
       features: {
-        enableEmailNotifications: false // Disable emails in dev
+        enableEmailNotifications: false, // Disable emails in dev
+        enableChatNotifications: false
       }
     },
     staging: {
@@ -249,6 +610,80 @@ export function validateConfig(config: typeof CONFIG): string[] {
     errors.push("At least one service type must be configured");
   }
   
+  const fieldNames = config.contactForm.fields.map(field => field.name);
+  for (const required of ["name", "service_type", "message"]) {
+    if (!fieldNames.includes(required)) {
+      errors.push(`CONFIG.contactForm.fields must include the "${required}" field`);
+    }
+  }
+  if (new Set(fieldNames).size !== fieldNames.length) {
+    errors.push("CONFIG.contactForm.fields contains duplicate field names");
+  }
+  if (fieldNames.includes(config.spamProtection.honeypotField)) {
+    errors.push(`CONFIG.contactForm.fields must not use the honeypot field name "${config.spamProtection.honeypotField}"`);
+  }
+  
+  if (!config.contactForm.priorityLevels.some(level => level.value === config.contactForm.defaultPriority)) {
+    errors.push("CONFIG.contactForm.defaultPriority must be one of the configured priorityLevels");
+  }
+  
+  if (!config.admin.statusOptions.some(option => option.value === config.email.inbound.reopenStatus)) {
+    errors.push("CONFIG.email.inbound.reopenStatus must be one of the configured admin.statusOptions");
+  }
+  
+  if (config.email.outbox.maxAttempts < 1) {
+    errors.push("CONFIG.email.outbox.maxAttempts must be at least 1");
+  }
+  
+  if (!/^[A-Z0-9]+$/.test(config.email.referencePrefix)) {
+    errors.push("CONFIG.email.referencePrefix must only contain uppercase letters and numbers");
+  }
+  
+  for (const [formId, form] of Object.entries(config.forms)) {
+    if (!/^[a-z0-9-]+$/.test(formId)) {
+      errors.push(`Form id "${formId}" must only contain lowercase letters, numbers and hyphens`);
+    }
+    const formFieldNames = (form.fields ?? config.contactForm.fields).map(field => field.name);
+    for (const required of ["name", "service_type", "message"]) {
+      if (!formFieldNames.includes(required)) {
+        errors.push(`CONFIG.forms.${formId}.fields must include the "${required}" field`);
+      }
+    }
+    if ((form.notificationRecipients ?? []).some(email => email.includes("yourdomain.com"))) {
+      errors.push(`Please update CONFIG.forms.${formId}.notificationRecipients`);
+    }
+    if (formFieldNames.includes(config.spamProtection.honeypotField)) {
+      errors.push(`CONFIG.forms.${formId}.fields must not use the honeypot field name "${config.spamProtection.honeypotField}"`);
+    }
+  }
+  
+  const ruleNames = config.routing.rules.map(rule => rule.name);
+  if (new Set(ruleNames).size !== ruleNames.length) {
+    errors.push("CONFIG.routing.rules contains duplicate rule names");
+  }
+  for (const rule of config.routing.rules) {
+    if (rule.actions.priority && !config.contactForm.priorityLevels.some(level => level.value === rule.actions.priority)) {
+      errors.push(`Routing rule "${rule.name}" sets a priority that is not one of the configured priorityLevels`);
+    }
+    const addresses = [...(rule.actions.recipients ?? []), ...(rule.actions.cc ?? []), rule.actions.assignTo ?? ""];
+    if (addresses.some(email => email.includes("yourdomain.com"))) {
+      errors.push(`Please update the email addresses in routing rule "${rule.name}"`);
+    }
+  }
+  
+  const endpointNames = config.webhooks.endpoints.map(endpoint => endpoint.name);
+  if (new Set(endpointNames).size !== endpointNames.length) {
+    errors.push("CONFIG.webhooks.endpoints contains duplicate names");
+  }
+  for (const endpoint of config.webhooks.endpoints) {
+    if (!/^https:\/\//.test(endpoint.url) && !/^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?\//.test(endpoint.url)) {
+      errors.push(`Webhook "${endpoint.name}" must use an https:// URL`);
+    }
+  }
+  if (config.webhooks.maxAttempts < 1) {
+    errors.push("CONFIG.webhooks.maxAttempts must be at least 1");
+  }
+  
   if (config.security.allowedAdminEmails.some(email => email.includes("yourdomain.com"))) {
     errors.push("Please update admin email addresses in CONFIG.security.allowedAdminEmails");
   }
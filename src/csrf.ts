@@ -0,0 +1,133 @@
+/**
+ * CSRF protection for admin forms
+ *
+ * Double-submit token: a random per-session value lives in a `__Host-` cookie and
+ * is embedded as a hidden field in every admin form. State-changing requests must
+ * echo it back and come from our own origin.
+ */
+
+import { escapeAttr } from './escape';
+
+export const CSRF_COOKIE_NAME = '__Host-admin_csrf';
+export const CSRF_FIELD_NAME = 'csrf_token';
+export const CSRF_HEADER_NAME = 'X-CSRF-Token';
+
+export interface CsrfSession {
+	token: string;
+	setCookie?: string; // Present when a new session token was issued
+}
+
+/**
+ * Get the CSRF token for this browser session, issuing one if needed
+ */
+export function getCsrfSession(request: Request): CsrfSession {
+	const existing = readCookie(request, CSRF_COOKIE_NAME);
+	if (existing && /^[0-9a-f]{64}$/.test(existing)) {
+		return { token: existing };
+	}
+
+	const bytes = crypto.getRandomValues(new Uint8Array(32));
+	const token = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+	return {
+		token,
+		// Session cookie (no Max-Age): a fresh token per browser session
+		setCookie: `${CSRF_COOKIE_NAME}=${token}; Path=/; Secure; HttpOnly; SameSite=Strict`,
+	};
+}
+
+/**
+ * Check a state-changing request
+ * @returns null when the request is allowed, otherwise the rejection reason
+ */
+export async function verifyCsrfRequest(request: Request): Promise<string | null> {
+	const expectedOrigin = new URL(request.url).origin;
+
+	// Origin/Referer must point back at this worker
+	const origin = request.headers.get('Origin');
+	const referer = request.headers.get('Referer');
+	const sourceOrigin = origin ?? (referer ? safeOrigin(referer) : null);
+	if (!sourceOrigin) {
+		return 'Missing Origin and Referer headers';
+	}
+	if (sourceOrigin !== expectedOrigin) {
+		return `Cross-origin request from ${sourceOrigin}`;
+	}
+
+	const cookieToken = readCookie(request, CSRF_COOKIE_NAME);
+	if (!cookieToken) {
+		return 'Missing CSRF session cookie';
+	}
+
+	const submittedToken = request.headers.get(CSRF_HEADER_NAME) ?? (await readFormToken(request));
+	if (!submittedToken || !timingSafeEqual(submittedToken, cookieToken)) {
+		return 'CSRF token missing or invalid';
+	}
+
+	return null;
+}
+
+/**
+ * Hidden input to embed in every admin form
+ */
+export function csrfField(token: string): string {
+	return `<input type="hidden" name="${CSRF_FIELD_NAME}" value="${escapeAttr(token)}">`;
+}
+
+/**
+ * Attach a newly issued CSRF cookie to an outgoing response
+ */
+export function withCsrfCookie(response: Response, session: CsrfSession): Response {
+	if (!session.setCookie) {
+		return response;
+	}
+	const headers = new Headers(response.headers);
+	headers.append('Set-Cookie', session.setCookie);
+	return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
+
+async function readFormToken(request: Request): Promise<string | null> {
+	const contentType = request.headers.get('Content-Type') ?? '';
+	if (!contentType.includes('application/x-www-form-urlencoded') && !contentType.includes('multipart/form-data')) {
+		return null;
+	}
+	try {
+		// Clone so the handler can still read the body
+		const formData = await request.clone().formData();
+		return formData.get(CSRF_FIELD_NAME)?.toString() ?? null;
+	} catch {
+		return null;
+	}
+}
+
+function readCookie(request: Request, name: string): string | null {
+	const header = request.headers.get('Cookie');
+	if (!header) {
+		return null;
+	}
+	for (const part of header.split(';')) {
+		const [key, ...rest] = part.trim().split('=');
+		if (key === name) {
+			return rest.join('=');
+		}
+	}
+	return null;
+}
+
+function safeOrigin(url: string): string | null {
+	try {
+		return new URL(url).origin;
+	} catch {
+		return null;
+	}
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) {
+		diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+	return diff === 0;
+}
@@ -0,0 +1,30 @@
+/**
+ * CSV output for admin exports (RFC 4180)
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * One CSV field: quoted when needed, and prefixed with ' when a spreadsheet
+ * would otherwise treat it as a formula
+ */
+export function csvField(value: CsvValue): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	let text = String(value);
+	if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+		text = `'${text}`;
+	}
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV line, CRLF-terminated
+ */
+export function csvRow(values: CsvValue[]): string {
+	return `${values.map(csvField).join(',')}\r\n`;
+}
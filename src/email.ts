@@ -0,0 +1,222 @@
+/**
+ * Outgoing email and the transports that deliver it
+ *
+ * Senders build an OutgoingEmail and hand it to an EmailTransport. Which one is
+ * used comes from EMAIL_TRANSPORT, then CONFIG.email.transport; "auto" takes
+ * the first that is configured of Mailgun (MG_API_KEY), Cloudflare Email
+ * Routing (the EMAIL_SENDER send_email binding) and a JSON HTTP API
+ * (EMAIL_API_URL). The recording transport stands in for all of them in tests
+ * and local development.
+ */
+
+import { Mailbox, createMimeMessage } from 'mimetext';
+import { CONFIG } from './config';
+import { createMailgunTransport } from './mailgun';
+import type { Env } from './types';
+
+export const EMAIL_TRANSPORTS = ['mailgun', 'cloudflare', 'http', 'fake'] as const;
+export type EmailTransportName = (typeof EMAIL_TRANSPORTS)[number];
+
+export interface OutgoingEmail {
+	to: string[];
+	cc?: string[];
+	subject: string;
+	text: string;
+	html?: string; // Sent as multipart/alternative with the text
+	from?: string; // Defaults to the transport's sender
+	replyTo?: string;
+	headers?: Record<string, string>; // e.g. Message-Id, In-Reply-To, References
+	delivered?: string[]; // Recipients a per-recipient transport already reached, skipped when the message is retried
+}
+
+export interface EmailTransport {
+	name: EmailTransportName;
+	/**
+	 * Send one message. Failures are logged, never thrown, so a mail outage
+	 * cannot break the request that triggered it.
+	 *
+	 * @returns whether the message was accepted for delivery
+	 */
+	send(message: OutgoingEmail): Promise<boolean>;
+}
+
+export interface RecordingTransport extends EmailTransport {
+	sent: OutgoingEmail[];
+}
+
+// EmailMessage from "cloudflare:email", passed in so this module also loads outside Workers
+export type EmailMessageConstructor = new (from: string, to: string, raw: string) => EmailMessage;
+
+/**
+ * The transport for this deployment, or null when none is configured
+ */
+export function getEmailTransport(env: Env, config: typeof CONFIG, emailMessage: EmailMessageConstructor): EmailTransport | null {
+	const name = env.EMAIL_TRANSPORT || config.email.transport;
+	const sender = formatMailbox(config.email.systemName, env.FROM_EMAIL);
+
+	switch (name) {
+		case 'mailgun':
+			return env.MG_API_KEY ? createMailgunTransport(env, sender) : null;
+		case 'cloudflare':
+			return env.EMAIL_SENDER ? createCloudflareTransport(env.EMAIL_SENDER, sender, emailMessage) : null;
+		case 'http':
+			return env.EMAIL_API_URL ? createHttpTransport(env.EMAIL_API_URL, env.EMAIL_API_KEY, sender) : null;
+		case 'fake':
+			return createRecordingTransport();
+		case 'auto':
+			if (env.MG_API_KEY) {
+				return createMailgunTransport(env, sender);
+			}
+			if (env.EMAIL_SENDER) {
+				return createCloudflareTransport(env.EMAIL_SENDER, sender, emailMessage);
+			}
+			if (env.EMAIL_API_URL) {
+				return createHttpTransport(env.EMAIL_API_URL, env.EMAIL_API_KEY, sender);
+			}
+			return null;
+		default:
+			console.warn(`Unknown email transport "${name}"`);
+			return null;
+	}
+}
+
+/**
+ * Domain for Message-IDs and reply addresses: MG_DOMAIN, else FROM_EMAIL's
+ */
+export function getMailDomain(env: Env): string {
+	return env.MG_DOMAIN || env.FROM_EMAIL.split('@')[1];
+}
+
+/**
+ * "Name <address>" for a From header. Names with anything beyond letters,
+ * digits, spaces and the other RFC 5322 atom characters (a comma, a dot,
+ * quotes, non-ASCII) are quoted so the header still parses.
+ */
+export function formatMailbox(name: string, address: string): string {
+	const displayName = name.replace(/\s+/g, ' ').trim();
+	if (!displayName) {
+		return address;
+	}
+	if (/^[A-Za-z0-9!#$%&'*+\-/=?^_`{|}~ ]+$/.test(displayName)) {
+		return `${displayName} <${address}>`;
+	}
+	return `"${displayName.replace(/["\\]/g, '\\$&')}" <${address}>`;
+}
+
+/**
+ * Cloudflare Email Routing's send_email binding. It only delivers to verified
+ * destination addresses, so suits admin notifications rather than customer mail.
+ */
+export function createCloudflareTransport(binding: SendEmail, sender: string, emailMessage: EmailMessageConstructor): EmailTransport {
+	return {
+		name: 'cloudflare',
+		async send(message) {
+			try {
+				const from = message.from ?? sender;
+				const envelopeFrom = new Mailbox(from).addr;
+				const raw = toMimeMessage(message, from);
+				// One envelope recipient per EmailMessage. Each one reached is recorded in
+				// message.delivered, so a retry after a partial failure only sends to the rest.
+				const delivered = (message.delivered ??= []);
+				const pending = [...message.to, ...(message.cc ?? [])].filter((to) => !delivered.includes(to));
+				let failed = 0;
+				for (const to of pending) {
+					try {
+						await binding.send(new emailMessage(envelopeFrom, to, raw));
+						delivered.push(to);
+					} catch (error) {
+						failed++;
+						console.error(`Error sending Cloudflare email to ${to}:`, error);
+					}
+				}
+				if (failed > 0) {
+					return false;
+				}
+				console.log(`✅ Cloudflare email sent to ${pending.length} recipient(s)`);
+				return true;
+			} catch (error) {
+				console.error('Error sending Cloudflare email:', error);
+				return false;
+			}
+		},
+	};
+}
+
+/**
+ * A provider's JSON send endpoint (Resend-style body: from, to, cc, subject,
+ * text, html, reply_to, headers), authorized with EMAIL_API_KEY as a bearer token
+ */
+export function createHttpTransport(url: string, apiKey: string | undefined, sender: string): EmailTransport {
+	return {
+		name: 'http',
+		async send(message) {
+			try {
+				const response = await fetch(url, {
+					method: 'POST',
+					headers: {
+						'Content-Type': 'application/json',
+						...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+					},
+					body: JSON.stringify({
+						from: message.from ?? sender,
+						to: message.to,
+						cc: message.cc,
+						subject: message.subject,
+						text: message.text,
+						html: message.html,
+						reply_to: message.replyTo,
+						headers: message.headers,
+					}),
+				});
+				if (!response.ok) {
+					console.error(`❌ Email API failed: ${response.status} ${response.statusText}`);
+					return false;
+				}
+				return true;
+			} catch (error) {
+				console.error('Error sending email via HTTP API:', error);
+				return false;
+			}
+		},
+	};
+}
+
+/**
+ * Keeps messages instead of sending them; accept = false simulates an outage
+ */
+export function createRecordingTransport(accept = true): RecordingTransport {
+	const sent: OutgoingEmail[] = [];
+	return {
+		name: 'fake',
+		sent,
+		async send(message) {
+			sent.push(message);
+			console.log(`📭 Email not sent (fake transport): ${message.subject} -> ${message.to.join(', ')}`);
+			return accept;
+		},
+	};
+}
+
+/**
+ * A message as raw MIME: text/plain, or multipart/alternative when it has HTML
+ */
+export function toMimeMessage(message: OutgoingEmail, from: string): string {
+	const mime = createMimeMessage();
+	mime.setSender(from);
+	mime.setTo(message.to);
+	if (message.cc?.length) {
+		mime.setCc(message.cc);
+	}
+	mime.setSubject(message.subject);
+	if (message.replyTo) {
+		mime.setHeader('Reply-To', new Mailbox(message.replyTo));
+	}
+	for (const [name, value] of Object.entries(message.headers ?? {})) {
+		mime.setHeader(name, value);
+	}
+	mime.addMessage({ contentType: 'text/plain', data: message.text, encoding: '8bit' });
+	if (message.html) {
+		mime.addMessage({ contentType: 'text/html', data: message.html, encoding: '8bit' });
+	}
+	return mime.asRaw();
+}
@@ -0,0 +1,44 @@
+/**
+ * Context-aware escaping for HTML output
+ *
+ * Use escapeHtml for element text, escapeAttr for quoted attribute values and
+ * safeUrl for href/src values. Never interpolate submission data without one of these.
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	"'": '&#39;',
+};
+
+/**
+ * Escape a value for use as HTML element text
+ */
+export function escapeHtml(value: unknown): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	return String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Escape a value for use inside a double- or single-quoted attribute.
+ * Also escapes backticks and newlines, which some legacy parsers treat as delimiters.
+ */
+export function escapeAttr(value: unknown): string {
+	return escapeHtml(value).replace(/`/g, '&#96;').replace(/\r?\n/g, '&#10;');
+}
+
+/**
+ * Only allow http(s), mailto and tel URLs or same-site paths; anything else
+ * (javascript:, data:, ...) becomes a harmless "#"
+ */
+export function safeUrl(value: unknown): string {
+	const url = String(value ?? '').trim();
+	if (/^(https?:|mailto:|tel:)/i.test(url) || (url.startsWith('/') && !url.startsWith('//'))) {
+		return escapeAttr(url);
+	}
+	return '#';
+}
@@ -0,0 +1,162 @@
+/**
+ * Form field helpers driven by CONFIG.contactForm.fields
+ *
+ * Core fields live in their own submissions columns; everything else is stored
+ * as JSON in submissions.custom_fields.
+ */
+
+import { CONFIG, type FieldValidationRule, type FormFieldConfig } from './config';
+
+export type FormValue = string | string[];
+export type FormValues = Record<string, FormValue>;
+export type CustomFieldValues = Record<string, FormValue>;
+
+export const CORE_FIELDS = ['name', 'email', 'phone', 'service_type', 'message', 'priority'];
+
+/**
+ * Fields currently shown on the form (feature-flagged fields filtered out)
+ */
+export function getFormFields(config: typeof CONFIG): FormFieldConfig[] {
+	return config.contactForm.fields.filter((field) => !field.feature || config.features[field.feature]);
+}
+
+/**
+ * Custom (non-core) fields currently shown on the form
+ */
+export function getCustomFields(config: typeof CONFIG): FormFieldConfig[] {
+	return getFormFields(config).filter((field) => !CORE_FIELDS.includes(field.name));
+}
+
+/**
+ * Resolve a field's options, expanding "serviceTypes" and "priorityLevels" to the configured lists
+ */
+export function getFieldOptions(field: Pick<FormFieldConfig, 'options'>, config: typeof CONFIG): string[] {
+	if (!field.options) {
+		return [];
+	}
+	if (field.options === 'serviceTypes') {
+		return config.contactForm.serviceTypes;
+	}
+	if (field.options === 'priorityLevels') {
+		return config.contactForm.priorityLevels.map((level) => level.value);
+	}
+	return field.options;
+}
+
+/**
+ * Display label for an option value (priority levels have their own labels)
+ */
+export function getOptionLabel(field: Pick<FormFieldConfig, 'options'>, option: string, config: typeof CONFIG): string {
+	if (field.options === 'priorityLevels') {
+		return config.contactForm.priorityLevels.find((level) => level.value === option)?.label ?? option;
+	}
+	return option;
+}
+
+/**
+ * Build the validation rule for a field, adding the implied email/phone format
+ */
+export function toValidationRule(field: FormFieldConfig): FieldValidationRule {
+	const impliedFormat = field.type === 'email' ? 'email' : field.type === 'tel' ? 'phone' : undefined;
+	return {
+		label: field.label,
+		required: field.required,
+		options: field.options,
+		format: impliedFormat,
+		...field.validation,
+	};
+}
+
+/**
+ * Read submitted values, keeping every value of multi-choice checkbox groups
+ */
+export function collectFormValues(formData: FormData, config: typeof CONFIG): FormValues {
+	const values: FormValues = {};
+	formData.forEach((value, key) => {
+		if (typeof value === 'string') {
+			values[key] = value;
+		}
+	});
+
+	for (const field of getFormFields(config)) {
+		if (field.type === 'checkboxes') {
+			values[field.name] = formData.getAll(field.name).filter((value): value is string => typeof value === 'string');
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Pick the non-empty custom field values to store in custom_fields
+ */
+export function getCustomFieldValues(values: FormValues, config: typeof CONFIG): CustomFieldValues {
+	const custom: CustomFieldValues = {};
+	for (const field of getCustomFields(config)) {
+		const value = values[field.name];
+		if (Array.isArray(value) ? value.length > 0 : value?.trim()) {
+			custom[field.name] = Array.isArray(value) ? value : value.trim();
+		}
+	}
+	return custom;
+}
+
+// Cap for text fields without a validation maxLength (selects, free-form custom fields)
+const UNBOUNDED_FIELD_MAX_LENGTH = 500;
+
+/**
+ * Clip values to the form's validation limits, for submissions stored without being validated
+ * (bot traps reject before validation). Unknown fields and unknown checkbox choices are dropped.
+ */
+export function clampFormValues(values: FormValues, config: typeof CONFIG): FormValues {
+	const clamped: FormValues = {};
+	for (const field of getFormFields(config)) {
+		const value = values[field.name];
+		if (value === undefined) {
+			continue;
+		}
+		if (Array.isArray(value)) {
+			const options = getFieldOptions(field, config);
+			clamped[field.name] = value.filter((choice) => options.includes(choice));
+		} else {
+			clamped[field.name] = value.slice(0, field.validation?.maxLength ?? UNBOUNDED_FIELD_MAX_LENGTH);
+		}
+	}
+	return clamped;
+}
+
+/**
+ * A single text value (undefined for missing fields and checkbox groups)
+ */
+export function getTextValue(values: FormValues, name: string): string | undefined {
+	const value = values[name];
+	return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Parse the custom_fields column, tolerating empty or malformed JSON
+ */
+export function parseCustomFields(json: string | null | undefined): CustomFieldValues {
+	if (!json) {
+		return {};
+	}
+	try {
+		const parsed = JSON.parse(json);
+		return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Human-readable value for emails and the admin table
+ */
+export function formatFieldValue(field: FormFieldConfig, value: FormValue | undefined): string {
+	if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+		return '';
+	}
+	if (field.type === 'checkbox') {
+		return 'Yes';
+	}
+	return Array.isArray(value) ? value.join(', ') : value;
+}
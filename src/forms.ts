@@ -0,0 +1,80 @@
+/**
+ * Named intake forms
+ *
+ * The default form lives at / (posting to /submit); each entry in CONFIG.forms is
+ * served at /f/<id>. A named form is resolved into a form-scoped config whose
+ * contactForm carries the form's overrides, so every renderer, validator and
+ * notifier works unchanged.
+ */
+
+import { CONFIG } from './config';
+
+export const DEFAULT_FORM_ID = 'default';
+
+// Hidden field carrying the Referer of the form page, stored as submissions.referrer
+export const FORM_REFERRER_FIELD = '_referrer';
+
+/**
+ * Config scoped to one form, or null when the form id is unknown
+ */
+export function resolveFormConfig(config: typeof CONFIG, formId: string): typeof CONFIG | null {
+	if (formId === DEFAULT_FORM_ID) {
+		return config;
+	}
+	if (!Object.prototype.hasOwnProperty.call(config.forms, formId)) {
+		return null;
+	}
+
+	const { fields, serviceTypes, notificationRecipients, ...overrides } = config.forms[formId];
+	return {
+		...config,
+		contactForm: {
+			...config.contactForm,
+			...overrides,
+			id: formId,
+			fields: fields ?? config.contactForm.fields,
+			serviceTypes: serviceTypes ?? config.contactForm.serviceTypes,
+			notificationRecipients: notificationRecipients ?? config.contactForm.notificationRecipients,
+		},
+	};
+}
+
+/**
+ * Where the visitor came from, as submitted in FORM_REFERRER_FIELD (null when absent)
+ */
+export function getSubmittedReferrer(values: Record<string, string | string[]>): string | null {
+	const referrer = values[FORM_REFERRER_FIELD];
+	return typeof referrer === 'string' && referrer.trim() ? referrer.trim().slice(0, 500) : null;
+}
+
+/**
+ * Public URL of a form
+ */
+export function getFormPath(formId: string): string {
+	return formId === DEFAULT_FORM_ID ? '/' : `/f/${formId}`;
+}
+
+/**
+ * Where a form posts its submissions
+ */
+export function getFormSubmitPath(formId: string): string {
+	return formId === DEFAULT_FORM_ID ? '/submit' : `/f/${formId}`;
+}
+
+/**
+ * All forms as id/title pairs, default first (used for admin filtering)
+ */
+export function listForms(config: typeof CONFIG): { id: string; title: string }[] {
+	return [
+		{ id: DEFAULT_FORM_ID, title: config.contactForm.title },
+		...Object.entries(config.forms).map(([id, form]) => ({ id, title: form.title })),
+	];
+}
+
+/**
+ * Extract the form id from a /f/<id> path
+ */
+export function parseFormPath(pathname: string): string | null {
+	const match = pathname.match(/^\/f\/([a-z0-9-]+)\/?$/);
+	return match ? match[1] : null;
+}
@@ -0,0 +1,1441 @@
+/**
+ * HTML page generators
+ *
+ * Every user-supplied value is escaped for its context (text, attribute, URL)
+ * via the helpers in ./escape before being interpolated.
+ */
+
+import { CONFIG, type FormFieldConfig } from './config';
+import { csrfField } from './csrf';
+import { escapeAttr, escapeHtml } from './escape';
+import { FORM_REFERRER_FIELD, getFormPath, getFormSubmitPath, listForms } from './forms';
+import { formatFieldValue, getCustomFields, getFieldOptions, getFormFields, getOptionLabel, parseCustomFields } from './fields';
+import { formatDuration, getPriorityLevel, getSlaStatus, parseDbTimestamp } from './priority';
+import { formatSort, getDefaultSort, snippetToHtml, toFilterParams, type SortField, type SubmissionSort, type SubmissionStats } from './submissions';
+import { FORM_TIMESTAMP_FIELD } from './spam';
+import type { SubmissionFilters, SubmissionRow, CloudflareAccessUser } from './types';
+import type { FormValues, ValidationErrors } from './validation';
+
+/**
+ * Submitted values and per-field errors used to re-render the form after validation fails
+ */
+export interface FormState {
+	values: FormValues;
+	errors: ValidationErrors;
+}
+
+/**
+ * Generate CSS custom properties from theme configuration
+ */
+export function generateThemeCSS(config: typeof CONFIG): string {
+	const colors = config.styling.colors;
+	const effects = config.styling.effects;
+	
+	return `
+		:root {
+			/* Colors */
+			--color-primary: ${colors.primary};
+			--color-primary-hover: ${colors.primaryHover};
+			--color-primary-light: ${colors.primaryLight};
+			--color-primary-bg: ${colors.primaryBg};
+			--color-accent: ${colors.accent};
+			--color-accent-hover: ${colors.accentHover};
+			--color-accent-light: ${colors.accentLight};
+			--color-accent-dark: ${colors.accentDark};
+			--color-success: ${colors.success};
+			--color-success-hover: ${colors.successHover};
+			--color-error: ${colors.error};
+			--color-error-bg: ${colors.errorBg};
+			--color-warning: ${colors.warning};
+			--color-warning-bg: ${colors.warningBg};
+			--color-text: ${colors.text};
+			--color-text-light: ${colors.textLight};
+			--color-text-inverse: ${colors.textInverse};
+			--color-background: ${colors.background};
+			--color-background-secondary: ${colors.backgroundSecondary};
+			--color-background-dark: ${colors.backgroundDark};
+			--color-surface: ${colors.surface};
+			--color-surface-teal: ${colors.surfaceTeal};
+			--color-surface-gold: ${colors.surfaceGold};
+			--color-border: ${colors.border};
+			--color-border-teal: ${colors.borderTeal};
+			--color-border-gold: ${colors.borderGold};
+			
+			/* Gradients */
+			--gradient-primary: ${colors.gradientPrimary};
+			--gradient-accent: ${colors.gradientAccent};
+			--gradient-dark: ${colors.gradientDark};
+			--gradient-teal-gold: ${colors.gradientTealGold};
+			
+			/* Shadows */
+			--shadow-teal: ${colors.shadowTeal};
+			--shadow-gold: ${colors.shadowGold};
+			--shadow-dark: ${colors.shadowDark};
+			
+			/* Effects */
+			--border-radius: ${effects.borderRadius};
+			--border-radius-large: ${effects.borderRadiusLarge};
+			--border-radius-small: ${effects.borderRadiusSmall};
+			--box-shadow: ${effects.boxShadow};
+			--box-shadow-large: ${effects.boxShadowLarge};
+			--transition: ${effects.transition};
+			
+			/* Fonts */
+			--font-primary: ${config.styling.fonts.primary};
+		}
+	`.trim();
+}
+
+export function getContactFormHTML(config: typeof CONFIG, state: FormState = { values: {}, errors: {} }): string {
+	const hasErrors = Object.keys(state.errors).length > 0;
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>${escapeHtml(config.company.name)} - ${escapeHtml(config.contactForm.title)}</title>
+	${config.features.enableTurnstile ? '<script src="https://challenges.cloudflare.com/turnstile/v0/api.js" async defer></script>' : ''}
+	<style>
+		${generateThemeCSS(config)}
+		
+		* { 
+			box-sizing: border-box; 
+		}
+		
+		body { 
+			font-family: var(--font-primary);
+			max-width: 600px; 
+			margin: 50px auto; 
+			padding: 20px;
+			background: var(--gradient-primary);
+			min-height: 100vh;
+			background-attachment: fixed;
+		}
+		
+		.container {
+			background: var(--color-surface);
+			padding: 40px;
+			border-radius: var(--border-radius-large);
+			box-shadow: var(--box-shadow-large);
+			border: 1px solid var(--color-border-teal);
+			backdrop-filter: blur(10px);
+			position: relative;
+			overflow: hidden;
+		}
+		
+		.container::before {
+			content: '';
+			position: absolute;
+			top: 0;
+			left: 0;
+			right: 0;
+			height: 4px;
+			background: var(--gradient-accent);
+			border-radius: var(--border-radius-large) var(--border-radius-large) 0 0;
+		}
+		
+		h1 { 
+			color: var(--color-text); 
+			margin-bottom: 10px;
+			font-size: 2rem;
+			font-weight: 700;
+			text-shadow: 0 2px 4px var(--shadow-teal);
+		}
+		
+		.subtitle {
+			color: var(--color-text-light);
+			margin-bottom: 30px;
+			font-size: 1.1rem;
+		}
+		
+		label {
+			font-weight: 600;
+			color: var(--color-text);
+			display: block;
+			margin-bottom: 8px;
+			font-size: 0.95rem;
+		}
+		
+		input, textarea, select { 
+			width: 100%; 
+			padding: 15px; 
+			margin: 0 0 20px 0;
+			border: 2px solid var(--color-border);
+			border-radius: var(--border-radius);
+			font-size: 16px;
+			font-family: var(--font-primary);
+			transition: var(--transition);
+			background: var(--color-surface-teal);
+		}
+		
+		input:focus, textarea:focus, select:focus {
+			border-color: var(--color-primary);
+			outline: none;
+			box-shadow: 0 0 0 3px var(--shadow-teal);
+			background: var(--color-surface);
+			transform: translateY(-1px);
+		}
+		
+		input:hover, textarea:hover, select:hover {
+			border-color: var(--color-primary-light);
+		}
+		
+		button { 
+			background: var(--gradient-teal-gold);
+			color: var(--color-text-inverse); 
+			padding: 18px 30px; 
+			border: none; 
+			border-radius: var(--border-radius);
+			cursor: pointer;
+			font-size: 18px;
+			font-weight: 600;
+			width: 100%;
+			transition: var(--transition);
+			box-shadow: var(--box-shadow);
+			text-transform: uppercase;
+			letter-spacing: 0.5px;
+		}
+		
+		button:hover {
+			transform: translateY(-2px);
+			box-shadow: var(--box-shadow-large);
+		}
+		
+		button:active {
+			transform: translateY(0);
+		}
+		
+		.required {
+			color: var(--color-accent);
+			font-weight: bold;
+		}
+		
+		.form-group {
+			margin-bottom: 24px;
+		}
+		
+		fieldset {
+			border: none;
+			margin: 0 0 20px 0;
+			padding: 0;
+		}
+		
+		legend {
+			font-weight: 600;
+			color: var(--color-text);
+			margin-bottom: 8px;
+			font-size: 0.95rem;
+		}
+		
+		label.choice {
+			display: flex;
+			align-items: center;
+			gap: 8px;
+			font-weight: 400;
+		}
+		
+		label.choice input {
+			width: auto;
+			margin: 0;
+		}
+		
+		.field-error {
+			color: var(--color-error);
+			font-size: 0.9rem;
+			font-weight: 600;
+			margin: -12px 0 16px 0;
+		}
+		
+		[aria-invalid="true"] {
+			border-color: var(--color-error);
+			background: var(--color-error-bg);
+		}
+		
+		.form-error-summary {
+			background: var(--color-error-bg);
+			color: var(--color-error);
+			border-left: 4px solid var(--color-error);
+			border-radius: var(--border-radius);
+			padding: 16px;
+			margin-bottom: 24px;
+			font-weight: 600;
+		}
+		
+		/* Honeypot: visually hidden from humans, still present for bots */
+		.hp-field {
+			position: absolute;
+			left: -10000px;
+			width: 1px;
+			height: 1px;
+			overflow: hidden;
+		}
+		
+		.response-message {
+			margin-top: 30px; 
+			padding: 16px;
+			font-size: 14px; 
+			color: var(--color-text-light); 
+			text-align: center;
+			background: var(--color-surface-gold);
+			border-radius: var(--border-radius);
+			border-left: 4px solid var(--color-accent);
+		}
+		
+		/* Mobile optimizations for Windows/Chrome/Firefox priority */
+		@media (max-width: 768px) {
+			body {
+				margin: 20px auto;
+				padding: 15px;
+			}
+			
+			.container {
+				padding: 30px 20px;
+			}
+			
+			h1 {
+				font-size: 1.75rem;
+			}
+			
+			input, textarea, select {
+				padding: 12px;
+				font-size: 16px; /* Prevents zoom on iOS */
+			}
+			
+			button {
+				padding: 16px 24px;
+				font-size: 16px;
+			}
+		}
+		
+		/* Cross-browser compatibility */
+		input[type="email"], input[type="tel"] {
+			-webkit-appearance: none;
+			-moz-appearance: none;
+			appearance: none;
+		}
+		
+		select {
+			-webkit-appearance: none;
+			-moz-appearance: none;
+			appearance: none;
+			background-image: url("data:image/svg+xml;charset=UTF-8,%3csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='%230f766e' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3e%3cpolyline points='6,9 12,15 18,9'%3e%3c/polyline%3e%3c/svg%3e");
+			background-repeat: no-repeat;
+			background-position: right 12px center;
+			background-size: 16px;
+			padding-right: 40px;
+		}
+	</style>
+</head>
+<body>
+	<div class="container">
+		<h1>${config.company.emoji} ${escapeHtml(config.company.name)}</h1>
+		<p class="subtitle">${escapeHtml(config.contactForm.tagline || config.company.tagline)}</p>
+		
+		${hasErrors ? `<div class="form-error-summary" role="alert">${escapeHtml(config.contactForm.validation.formError)}</div>` : ''}
+		
+		<form method="POST" action="${escapeAttr(getFormSubmitPath(config.contactForm.id))}">
+			${getFormFields(config).map(field => renderFormField(field, state, config)).join('\n\t\t\t')}
+			
+			<input type="hidden" name="${FORM_REFERRER_FIELD}" value="${escapeAttr(state.values[FORM_REFERRER_FIELD] ?? '')}">
+			${getSpamProtectionFields(config, state)}
+			
+			<button type="submit">${escapeHtml(config.contactForm.submitButtonText)}</button>
+		</form>
+		
+		<div class="response-message">
+			${escapeHtml(config.contactForm.responseTimeMessage)}
+		</div>
+	</div>
+</body>
+</html>`;
+}
+
+/**
+ * Render one configured form field with its current value and error
+ */
+function renderFormField(field: FormFieldConfig, state: FormState, config: typeof CONFIG): string {
+	const name = escapeAttr(field.name);
+	const value = state.values[field.name];
+	const selected = Array.isArray(value) ? value : value ? [value] : [];
+	const errorMessage = state.errors[field.name];
+	const invalid = errorMessage ? ' aria-invalid="true"' : '';
+	const required = field.required ? ' required' : '';
+	const placeholder = field.placeholder ? ` placeholder="${escapeAttr(field.placeholder)}"` : '';
+	const labelText = `${escapeHtml(field.label)}${field.required ? ' <span class="required">*</span>' : ''}`;
+	const error = errorMessage ? `<div class="field-error" id="${name}-error">${escapeHtml(errorMessage)}</div>` : '';
+	const options = getFieldOptions(field, config);
+
+	let control: string;
+	switch (field.type) {
+		case 'textarea':
+			control = `<label for="${name}">${labelText}</label>
+				<textarea name="${name}" id="${name}"${placeholder} rows="5"${invalid}${required}>${escapeHtml(selected[0] ?? '')}</textarea>`;
+			break;
+		case 'select':
+			control = `<label for="${name}">${labelText}</label>
+				<select name="${name}" id="${name}"${invalid}${required}>
+					<option value="">${escapeHtml(field.placeholder ?? 'Select...')}</option>
+					${options.map(option => `<option value="${escapeAttr(option)}"${selected.includes(option) ? ' selected' : ''}>${escapeHtml(getOptionLabel(field, option, config))}</option>`).join('')}
+				</select>`;
+			break;
+		case 'radio':
+		case 'checkboxes':
+			control = `<fieldset${invalid}>
+					<legend>${labelText}</legend>
+					${options.map(option => `<label class="choice"><input type="${field.type === 'radio' ? 'radio' : 'checkbox'}" name="${name}" value="${escapeAttr(option)}"${selected.includes(option) ? ' checked' : ''}${field.type === 'radio' ? required : ''}> ${escapeHtml(getOptionLabel(field, option, config))}</label>`).join('')}
+				</fieldset>`;
+			break;
+		case 'checkbox':
+			control = `<label class="choice"><input type="checkbox" name="${name}" id="${name}" value="yes"${selected.length > 0 ? ' checked' : ''}${invalid}${required}> ${labelText}</label>`;
+			break;
+		default:
+			control = `<label for="${name}">${labelText}</label>
+				<input name="${name}" id="${name}" type="${field.type}"${placeholder} value="${escapeAttr(selected[0] ?? '')}"${invalid}${required}>`;
+	}
+
+	return `<div class="form-group">
+				${control}
+				${error}
+			</div>`;
+}
+
+/**
+ * Honeypot, fill-time stamp and optional Turnstile widget for the contact form.
+ * A re-rendered form keeps its original timestamp so the fill-time check isn't reset.
+ */
+function getSpamProtectionFields(config: typeof CONFIG, state: FormState): string {
+	if (!config.features.enableSpamProtection) {
+		return '';
+	}
+	const renderedAt = state.values[FORM_TIMESTAMP_FIELD];
+	const honeypot = escapeAttr(config.spamProtection.honeypotField);
+	const turnstile = config.features.enableTurnstile
+		? `<div class="cf-turnstile form-group" data-sitekey="${escapeAttr(config.spamProtection.turnstile.siteKey)}"></div>`
+		: '';
+
+	return `<div class="hp-field" aria-hidden="true">
+				<label for="${honeypot}">Leave this field empty</label>
+				<input name="${honeypot}" id="${honeypot}" type="text" tabindex="-1" autocomplete="off">
+			</div>
+			<input type="hidden" name="${FORM_TIMESTAMP_FIELD}" value="${escapeAttr(typeof renderedAt === 'string' && renderedAt ? renderedAt : Date.now())}">
+			${turnstile}`;
+}
+
+/**
+ * Confirmation page after submitting; the reference is omitted for spam so bots learn nothing
+ */
+export function getSuccessHTML(config: typeof CONFIG, reference?: string): string {
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>Message Sent - ${escapeHtml(config.company.name)}</title>
+	<style>
+		${generateThemeCSS(config)}
+		
+		* { 
+			box-sizing: border-box; 
+		}
+		
+		body { 
+			font-family: var(--font-primary);
+			max-width: 600px; 
+			margin: 50px auto; 
+			padding: 20px;
+			background: var(--gradient-primary);
+			min-height: 100vh;
+			background-attachment: fixed;
+		}
+		
+		.container {
+			background: var(--color-surface);
+			padding: 50px 40px;
+			border-radius: var(--border-radius-large);
+			box-shadow: var(--box-shadow-large);
+			border: 1px solid var(--color-border-teal);
+			text-align: center;
+			position: relative;
+			overflow: hidden;
+		}
+		
+		.container::before {
+			content: '';
+			position: absolute;
+			top: 0;
+			left: 0;
+			right: 0;
+			height: 4px;
+			background: var(--gradient-accent);
+			border-radius: var(--border-radius-large) var(--border-radius-large) 0 0;
+		}
+		
+		.success-icon { 
+			font-size: 80px; 
+			margin-bottom: 24px;
+			animation: successPulse 2s ease-in-out infinite;
+		}
+		
+		@keyframes successPulse {
+			0%, 100% { transform: scale(1); }
+			50% { transform: scale(1.1); }
+		}
+		
+		h1 { 
+			color: var(--color-success); 
+			margin-bottom: 24px;
+			font-size: 2.2rem;
+			font-weight: 700;
+			text-shadow: 0 2px 4px var(--shadow-teal);
+		}
+		
+		p {
+			color: var(--color-text);
+			font-size: 1.1rem;
+			line-height: 1.6;
+			margin-bottom: 16px;
+		}
+		
+		.highlight {
+			color: var(--color-primary);
+			font-weight: 600;
+		}
+		
+		a { 
+			display: inline-block;
+			background: var(--gradient-teal-gold); 
+			color: var(--color-text-inverse); 
+			padding: 16px 32px; 
+			text-decoration: none;
+			border-radius: var(--border-radius);
+			margin-top: 30px;
+			font-weight: 600;
+			font-size: 1.1rem;
+			transition: var(--transition);
+			box-shadow: var(--box-shadow);
+			text-transform: uppercase;
+			letter-spacing: 0.5px;
+		}
+		
+		a:hover { 
+			transform: translateY(-2px);
+			box-shadow: var(--box-shadow-large);
+		}
+		
+		a:active {
+			transform: translateY(0);
+		}
+		
+		.reference {
+			font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+			letter-spacing: 1px;
+		}
+		
+		.celebration {
+			background: var(--color-surface-gold);
+			padding: 20px;
+			border-radius: var(--border-radius);
+			margin: 24px 0;
+			border-left: 4px solid var(--color-accent);
+		}
+		
+		/* Mobile optimizations */
+		@media (max-width: 768px) {
+			body {
+				margin: 20px auto;
+				padding: 15px;
+			}
+			
+			.container {
+				padding: 40px 25px;
+			}
+			
+			h1 {
+				font-size: 1.8rem;
+			}
+			
+			.success-icon {
+				font-size: 64px;
+			}
+			
+			a {
+				padding: 14px 24px;
+				font-size: 1rem;
+			}
+		}
+	</style>
+</head>
+<body>
+	<div class="container">
+		<div class="success-icon">✅</div>
+		<h1>Message Sent Successfully!</h1>
+		
+		<div class="celebration">
+			<p>Thank you for contacting <span class="highlight">${escapeHtml(config.company.name)}</span>. ${escapeHtml(config.contactForm.successMessage)}</p>
+			${reference ? `<p>Your reference is <span class="highlight reference">${escapeHtml(reference)}</span>. Please quote it if you get in touch about this message.</p>` : ''}
+			<p>We appreciate your business!</p>
+		</div>
+		
+		<a href="${escapeAttr(getFormPath(config.contactForm.id))}">← Send Another Message</a>
+	</div>
+</body>
+</html>`;
+}
+
+export function getErrorHTML(error: string, config: typeof CONFIG): string {
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>Error - ${escapeHtml(config.company.name)}</title>
+	<style>
+		${generateThemeCSS(config)}
+		
+		* { 
+			box-sizing: border-box; 
+		}
+		
+		body { 
+			font-family: var(--font-primary);
+			max-width: 600px; 
+			margin: 50px auto; 
+			padding: 20px;
+			background: var(--gradient-primary);
+			min-height: 100vh;
+			background-attachment: fixed;
+		}
+		
+		.container {
+			background: var(--color-surface);
+			padding: 50px 40px;
+			border-radius: var(--border-radius-large);
+			box-shadow: var(--box-shadow-large);
+			border: 1px solid var(--color-border-teal);
+			text-align: center;
+			position: relative;
+			overflow: hidden;
+		}
+		
+		.container::before {
+			content: '';
+			position: absolute;
+			top: 0;
+			left: 0;
+			right: 0;
+			height: 4px;
+			background: linear-gradient(135deg, var(--color-error) 0%, var(--color-warning) 100%);
+			border-radius: var(--border-radius-large) var(--border-radius-large) 0 0;
+		}
+		
+		.error-icon { 
+			font-size: 80px; 
+			margin-bottom: 24px;
+			animation: errorShake 0.5s ease-in-out;
+		}
+		
+		@keyframes errorShake {
+			0%, 100% { transform: translateX(0); }
+			25% { transform: translateX(-5px); }
+			75% { transform: translateX(5px); }
+		}
+		
+		h1 { 
+			color: var(--color-error); 
+			margin-bottom: 24px;
+			font-size: 2.2rem;
+			font-weight: 700;
+			text-shadow: 0 2px 4px var(--shadow-teal);
+		}
+		
+		.error-message {
+			background: var(--color-error-bg);
+			padding: 20px;
+			border-radius: var(--border-radius);
+			margin: 24px 0;
+			border-left: 4px solid var(--color-error);
+		}
+		
+		p {
+			color: var(--color-text);
+			font-size: 1.1rem;
+			line-height: 1.6;
+			margin-bottom: 16px;
+		}
+		
+		a { 
+			display: inline-block;
+			background: var(--gradient-teal-gold); 
+			color: var(--color-text-inverse); 
+			padding: 16px 32px; 
+			text-decoration: none;
+			border-radius: var(--border-radius);
+			margin-top: 30px;
+			font-weight: 600;
+			font-size: 1.1rem;
+			transition: var(--transition);
+			box-shadow: var(--box-shadow);
+			text-transform: uppercase;
+			letter-spacing: 0.5px;
+		}
+		
+		a:hover { 
+			transform: translateY(-2px);
+			box-shadow: var(--box-shadow-large);
+		}
+		
+		a:active {
+			transform: translateY(0);
+		}
+		
+		/* Mobile optimizations */
+		@media (max-width: 768px) {
+			body {
+				margin: 20px auto;
+				padding: 15px;
+			}
+			
+			.container {
+				padding: 40px 25px;
+			}
+			
+			h1 {
+				font-size: 1.8rem;
+			}
+			
+			.error-icon {
+				font-size: 64px;
+			}
+			
+			a {
+				padding: 14px 24px;
+				font-size: 1rem;
+			}
+		}
+	</style>
+</head>
+<body>
+	<div class="container">
+		<div class="error-icon">❌</div>
+		<h1>Oops! Something went wrong</h1>
+		
+		<div class="error-message">
+			<p>${escapeHtml(error)}</p>
+		</div>
+		
+		<a href="${escapeAttr(getFormPath(config.contactForm.id))}">← Try Again</a>
+	</div>
+</body>
+</html>`;
+}
+
+/**
+ * What the dashboard is showing: the current query, where it is in the results,
+ * and the SQL-computed counters
+ */
+export interface AdminDashboardView {
+	filters: SubmissionFilters;
+	sort: SubmissionSort;
+	page: number;
+	pageCount: number;
+	total: number; // Submissions matching the filters
+	stats: SubmissionStats;
+	assignees: string[]; // See listAssignees
+}
+
+export function getAdminHTML(submissions: any[], user: CloudflareAccessUser, config: typeof CONFIG, csrfToken: string, view: Partial<AdminDashboardView> = {}): string {
+	const { filters = {}, page = 1, pageCount = 1, total = submissions.length, assignees = [] } = view;
+	const me = user.email.toLowerCase();
+	const defaultSort = getDefaultSort(filters);
+	const sort = view.sort ?? defaultSort;
+	const stats = view.stats ?? { total, byStatus: {}, overdue: 0 };
+	const hasFilters = Object.keys(filters).length > 0;
+	const forms = listForms(config);
+	const showFormColumn = forms.length > 1;
+	const formTitle = (formId: string) => forms.find(form => form.id === formId)?.title ?? formId;
+
+	// Custom fields flagged showInAdmin get their own columns after Service
+	const customColumns = getCustomFields(config).filter(field => field.showInAdmin);
+	const customCells = (sub: SubmissionRow) => {
+		const values = parseCustomFields(sub.custom_fields);
+		return customColumns.map(field => {
+			const value = formatFieldValue(field, values[field.name]);
+			return `<td class="custom-cell">${value ? escapeHtml(value) : '<span class="no-data">N/A</span>'}</td>`;
+		}).join('');
+	};
+
+	const now = Date.now();
+	const slaCell = (sub: SubmissionRow) => {
+		const level = getPriorityLevel(sub.priority, config);
+		const sla = getSlaStatus(sub, config, now);
+		return `<td class="priority-cell">
+				<form method="POST" action="/admin/priority" class="status-form">
+					${csrfField(csrfToken)}
+					<input type="hidden" name="id" value="${escapeAttr(sub.id)}">
+					<select name="priority" class="priority-select" style="border-color: ${escapeAttr(level.color)}; color: ${escapeAttr(level.color)}" onchange="this.form.submit()">
+						${config.contactForm.priorityLevels.map(option =>
+							`<option value="${escapeAttr(option.value)}" ${level.value === option.value ? 'selected' : ''}>${escapeHtml(option.label)}</option>`
+						).join('')}
+					</select>
+				</form>
+				${sla ? `<div class="sla ${sla.overdue ? 'sla-overdue' : 'sla-ok'}" title="Due ${escapeAttr(sla.dueAt.toISOString())}">${sla.overdue ? `Overdue by ${formatDuration(sla.remainingMs)}` : `Due in ${formatDuration(sla.remainingMs)}`}</div>` : ''}
+			</td>`;
+	};
+
+	// Dashboard links keep the current filters and sort
+	const dashboardUrl = (changes: { sort?: SubmissionSort; page?: number }) => {
+		const params = toFilterParams(filters);
+		const nextSort = formatSort(changes.sort ?? sort);
+		if (nextSort !== formatSort(defaultSort)) {
+			params.set('sort', nextSort);
+		}
+		if (changes.page && changes.page > 1) {
+			params.set('page', String(changes.page));
+		}
+		const query = params.toString();
+		return query ? `/admin?${query}` : '/admin';
+	};
+	// Exports carry the current filters and sort as hidden fields
+	const exportParams = toFilterParams(filters);
+	if (formatSort(sort) !== formatSort(defaultSort)) {
+		exportParams.set('sort', formatSort(sort));
+	}
+	const sortHeader = (field: SortField, label: string) => {
+		const active = sort.field === field;
+		const firstDirection = field === 'name' || field === 'status' ? 'asc' : 'desc';
+		const direction = active ? (sort.direction === 'asc' ? 'desc' : 'asc') : firstDirection;
+		const ariaSort = active ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none';
+		return `<th aria-sort="${ariaSort}"><a href="${escapeAttr(dashboardUrl({ sort: { field, direction } }))}" class="sort-link">${escapeHtml(label)}${active ? (sort.direction === 'asc' ? ' ▲' : ' ▼') : ''}</a></th>`;
+	};
+	const filterOption = (value: string, label: string, current: string | undefined) =>
+		`<option value="${escapeAttr(value)}"${current === value ? ' selected' : ''}>${escapeHtml(label)}</option>`;
+	// "My submissions" and "Unassigned" keep every other filter
+	const quickView = (label: string, assignee: string | undefined) => {
+		const params = toFilterParams({ ...filters, assignee });
+		const query = params.toString();
+		return `<a href="${escapeAttr(query ? `/admin?${query}` : '/admin')}" class="quick-view${filters.assignee === assignee ? ' active' : ''}"${filters.assignee === assignee ? ' aria-current="page"' : ''}>${escapeHtml(label)}</a>`;
+	};
+	const serviceTypes = [...new Set([config.contactForm.serviceTypes, ...Object.values(config.forms).map(form => form.serviceTypes ?? [])].flat())];
+
+	const submissionRows = submissions.map(sub => `
+		<tr class="submission-row${getSlaStatus(sub, config, now)?.overdue ? ' overdue' : ''}">
+			<td class="name-cell"><a href="/admin/submissions/${escapeAttr(encodeURIComponent(sub.id))}" class="detail-link">${escapeHtml(sub.name)}</a></td>
+			<td class="email-cell">${sub.email ? escapeHtml(sub.email) : '<span class="no-data">N/A</span>'}</td>
+			<td class="phone-cell">${sub.phone ? escapeHtml(sub.phone) : '<span class="no-data">N/A</span>'}</td>
+			${showFormColumn ? `<td class="form-cell">${escapeHtml(formTitle(sub.form_id))}</td>` : ''}
+			<td class="service-cell"><span class="service-badge">${escapeHtml(sub.service_type)}</span></td>
+			${customCells(sub)}
+			<td class="message-cell" title="${escapeAttr(sub.message)}">
+				<div class="message-preview">${sub.snippet !== undefined ? snippetToHtml(sub.snippet) : `${escapeHtml(sub.message.substring(0, 50))}${sub.message.length > 50 ? '...' : ''}`}</div>
+			</td>
+			<td class="status-cell">
+				<form method="POST" action="/admin/update" class="status-form">
+					${csrfField(csrfToken)}
+					<input type="hidden" name="id" value="${escapeAttr(sub.id)}">
+					<select name="status" class="status-select ${escapeAttr(sub.status)}" onchange="this.form.submit()">
+						${config.admin.statusOptions.map(option =>
+							`<option value="${escapeAttr(option.value)}" ${sub.status === option.value ? 'selected' : ''}>${escapeHtml(option.label)}</option>`
+						).join('')}
+					</select>
+				</form>
+			</td>
+			${slaCell(sub)}
+			<td class="assignee-cell">${sub.assigned_to ? escapeHtml(sub.assigned_to === me ? 'Me' : sub.assigned_to) : '<span class="no-data">Unassigned</span>'}</td>
+			<td class="date-cell">${parseDbTimestamp(sub.created_at).toLocaleDateString()}</td>
+		</tr>
+	`).join('');
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>${escapeHtml(config.admin.title)} - ${escapeHtml(config.company.name)}</title>
+	<style>
+		${generateThemeCSS(config)}
+		
+		* { 
+			box-sizing: border-box; 
+		}
+		
+		body { 
+			font-family: var(--font-primary);
+			margin: 20px;
+			background: var(--gradient-dark);
+			min-height: 100vh;
+			background-attachment: fixed;
+		}
+		
+		.header {
+			background: var(--color-surface);
+			padding: 30px;
+			border-radius: var(--border-radius-large);
+			margin-bottom: 24px;
+			box-shadow: var(--box-shadow-large);
+			border: 1px solid var(--color-border-teal);
+			position: relative;
+			overflow: hidden;
+		}
+		
+		.header::before {
+			content: '';
+			position: absolute;
+			top: 0;
+			left: 0;
+			right: 0;
+			height: 6px;
+			background: var(--gradient-teal-gold);
+			border-radius: var(--border-radius-large) var(--border-radius-large) 0 0;
+		}
+		
+		.header-top {
+			display: flex;
+			justify-content: space-between;
+			align-items: center;
+			margin-bottom: 20px;
+		}
+		
+		h1 { 
+			color: var(--color-text); 
+			margin: 0;
+			font-size: 2rem;
+			font-weight: 700;
+			text-shadow: 0 2px 4px var(--shadow-teal);
+		}
+		
+		.user-info {
+			background: var(--gradient-primary);
+			color: var(--color-text-inverse);
+			padding: 12px 20px;
+			border-radius: var(--border-radius);
+			font-size: 14px;
+			font-weight: 600;
+			box-shadow: var(--box-shadow);
+		}
+		
+		.stats {
+			display: grid;
+			grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
+			gap: 16px;
+			margin-bottom: 20px;
+		}
+		
+		.stat {
+			background: var(--gradient-primary);
+			color: var(--color-text-inverse);
+			padding: 16px 20px;
+			border-radius: var(--border-radius);
+			font-weight: 600;
+			text-align: center;
+			box-shadow: var(--box-shadow);
+			transition: var(--transition);
+		}
+		
+		.stat:hover {
+			transform: translateY(-2px);
+			box-shadow: var(--box-shadow-large);
+		}
+		
+		.stat-number {
+			font-size: 1.5rem;
+			font-weight: 700;
+			display: block;
+		}
+		
+		.quick-views {
+			display: flex;
+			gap: 8px;
+			margin-bottom: 12px;
+		}
+		
+		.quick-view {
+			padding: 6px 14px;
+			border: 2px solid var(--color-border);
+			border-radius: var(--border-radius);
+			color: var(--color-text);
+			font-weight: 600;
+			text-decoration: none;
+		}
+		
+		.quick-view.active {
+			border-color: var(--color-primary);
+			background: var(--color-primary);
+			color: var(--color-text-inverse);
+		}
+		
+		.filters {
+			display: flex;
+			flex-wrap: wrap;
+			align-items: center;
+			gap: 12px;
+			margin-bottom: 20px;
+		}
+		
+		.filters label {
+			font-weight: 600;
+			color: var(--color-text);
+		}
+		
+		.filters input,
+		.filters select {
+			padding: 8px 12px;
+			border: 2px solid var(--color-border);
+			border-radius: var(--border-radius);
+			background: var(--color-surface);
+		}
+		
+		.filters input[type="search"] {
+			min-width: 240px;
+		}
+		
+		.filters button {
+			padding: 8px 16px;
+			border: none;
+			border-radius: var(--border-radius);
+			background: var(--color-primary);
+			color: var(--color-text-inverse);
+			font-weight: 600;
+			cursor: pointer;
+		}
+		
+		.clear-filters {
+			color: var(--color-text-light);
+		}
+		
+		.export-form {
+			display: inline-flex;
+			align-items: center;
+			gap: 8px;
+		}
+		
+		.export-form button {
+			border: none;
+			cursor: pointer;
+		}
+		
+		.export-form select {
+			padding: 8px 12px;
+			border: 2px solid var(--color-border);
+			border-radius: var(--border-radius);
+			background: var(--color-surface);
+		}
+		
+		.detail-link {
+			color: var(--color-primary);
+			font-weight: 600;
+		}
+		
+		.sort-link {
+			color: inherit;
+			text-decoration: none;
+		}
+		
+		.pagination {
+			display: flex;
+			justify-content: center;
+			align-items: center;
+			gap: 20px;
+			padding: 20px;
+			color: var(--color-text-light);
+		}
+		
+		.pagination a {
+			color: var(--color-primary);
+			font-weight: 600;
+		}
+		
+		.refresh-btn {
+			background: var(--gradient-accent);
+			color: var(--color-text-inverse);
+			padding: 14px 24px;
+			text-decoration: none;
+			border-radius: var(--border-radius);
+			display: inline-block;
+			font-weight: 600;
+			transition: var(--transition);
+			box-shadow: var(--box-shadow);
+			text-transform: uppercase;
+			letter-spacing: 0.5px;
+		}
+		
+		.refresh-btn:hover {
+			transform: translateY(-2px);
+			box-shadow: var(--box-shadow-large);
+		}
+		
+		.table-container {
+			background: var(--color-surface);
+			border-radius: var(--border-radius-large);
+			overflow: hidden;
+			box-shadow: var(--box-shadow-large);
+			border: 1px solid var(--color-border-teal);
+		}
+		
+		table { 
+			width: 100%; 
+			border-collapse: collapse; 
+		}
+		
+		th, td { 
+			padding: 16px 12px; 
+			text-align: left; 
+		}
+		
+		th { 
+			background: var(--gradient-dark); 
+			color: var(--color-text-inverse);
+			font-weight: 600;
+			font-size: 0.95rem;
+			text-transform: uppercase;
+			letter-spacing: 0.5px;
+		}
+		
+		.submission-row {
+			border-bottom: 1px solid var(--color-border);
+			transition: var(--transition);
+		}
+		
+		.submission-row:nth-child(even) { 
+			background: var(--color-surface-teal); 
+		}
+		
+		.submission-row:hover {
+			background: var(--color-surface-gold);
+			transform: scale(1.01);
+		}
+		
+		.name-cell {
+			font-weight: 600;
+			color: var(--color-text);
+		}
+		
+		.service-badge {
+			background: var(--gradient-primary);
+			color: var(--color-text-inverse);
+			padding: 4px 12px;
+			border-radius: 20px;
+			font-size: 0.85rem;
+			font-weight: 600;
+		}
+		
+		.message-preview {
+			color: var(--color-text-light);
+			font-style: italic;
+		}
+		
+		.message-preview mark {
+			background: var(--color-accent-light);
+			color: var(--color-text);
+			font-style: normal;
+		}
+		
+		.no-data {
+			color: var(--color-text-light);
+			font-style: italic;
+		}
+		
+		.status-form {
+			display: inline-block;
+		}
+		
+		.status-select {
+			padding: 8px 12px;
+			border: 2px solid var(--color-border);
+			border-radius: var(--border-radius);
+			font-weight: 600;
+			transition: var(--transition);
+			background: var(--color-surface);
+		}
+		
+		.status-select:hover {
+			border-color: var(--color-primary);
+		}
+		
+		.status-select.new { 
+			background: var(--color-warning-bg);
+			border-color: var(--color-warning);
+			color: var(--color-warning);
+		}
+		
+		.status-select.in_progress { 
+			background: var(--color-surface-teal);
+			border-color: var(--color-primary);
+			color: var(--color-primary);
+		}
+		
+		.status-select.resolved { 
+			background: var(--color-surface);
+			border-color: var(--color-success);
+			color: var(--color-success);
+		}
+		
+		.status-select.cancelled { 
+			background: var(--color-error-bg);
+			border-color: var(--color-error);
+			color: var(--color-error);
+		}
+		
+		.status-select.spam { 
+			background: var(--color-surface);
+			border-color: var(--color-border);
+			color: var(--color-text-light);
+		}
+		
+		.priority-select {
+			padding: 8px 12px;
+			border: 2px solid var(--color-border);
+			border-radius: var(--border-radius);
+			font-weight: 600;
+			background: var(--color-surface);
+		}
+		
+		.sla {
+			margin-top: 6px;
+			font-size: 0.85em;
+			white-space: nowrap;
+		}
+		
+		.sla-ok {
+			color: var(--color-text-light);
+		}
+		
+		.sla-overdue {
+			color: var(--color-error);
+			font-weight: 600;
+		}
+		
+		.submission-row.overdue {
+			background: var(--color-error-bg);
+			box-shadow: inset 4px 0 0 var(--color-error);
+		}
+		
+		.stat.stat-overdue {
+			background: var(--color-error);
+		}
+		
+		.empty-state {
+			text-align: center;
+			padding: 60px 40px;
+			background: var(--color-surface);
+			margin-top: 24px;
+			border-radius: var(--border-radius-large);
+			box-shadow: var(--box-shadow-large);
+			border: 1px solid var(--color-border-teal);
+		}
+		
+		.empty-state h3 {
+			color: var(--color-text);
+			font-size: 1.5rem;
+			margin-bottom: 16px;
+		}
+		
+		.empty-state p {
+			color: var(--color-text-light);
+			margin-bottom: 24px;
+		}
+		
+		.empty-state a {
+			background: var(--gradient-teal-gold);
+			color: var(--color-text-inverse);
+			padding: 14px 28px;
+			text-decoration: none;
+			border-radius: var(--border-radius);
+			font-weight: 600;
+			transition: var(--transition);
+			box-shadow: var(--box-shadow);
+		}
+		
+		.empty-state a:hover {
+			transform: translateY(-2px);
+			box-shadow: var(--box-shadow-large);
+		}
+		
+		/* Mobile optimizations */
+		@media (max-width: 1024px) {
+			body {
+				margin: 15px;
+			}
+			
+			.header {
+				padding: 20px;
+			}
+			
+			.header-top {
+				flex-direction: column;
+				gap: 16px;
+				align-items: stretch;
+			}
+			
+			h1 {
+				font-size: 1.5rem;
+				text-align: center;
+			}
+			
+			.stats {
+				grid-template-columns: repeat(2, 1fr);
+			}
+			
+			.table-container {
+				overflow-x: auto;
+			}
+			
+			table {
+				min-width: 800px;
+			}
+			
+			th, td {
+				padding: 12px 8px;
+				font-size: 0.9rem;
+			}
+		}
+		
+		@media (max-width: 768px) {
+			.stats {
+				grid-template-columns: 1fr;
+			}
+			
+			th, td {
+				padding: 10px 6px;
+				font-size: 0.85rem;
+			}
+		}
+		.user-info {
+			background: #34495e;
+			color: white;
+			padding: 8px 15px;
+			border-radius: 4px;
+			font-size: 14px;
+			font-weight: 500;
+		}
+	</style>
+</head>
+<body>
+	<div class="header">
+		<div class="header-top">
+			<h1>${config.company.emoji} ${escapeHtml(config.company.name)} - ${escapeHtml(config.admin.title)}</h1>
+			<div class="user-info">👤 ${escapeHtml(user.email)}</div>
+		</div>
+		
+		<div class="stats">
+			<div class="stat">
+				<span class="stat-number">${stats.total}</span>
+				Total Submissions
+			</div>
+			<div class="stat">
+				<span class="stat-number">${stats.byStatus.new ?? 0}</span>
+				New
+			</div>
+			<div class="stat">
+				<span class="stat-number">${stats.byStatus.in_progress ?? 0}</span>
+				In Progress
+			</div>
+			<div class="stat">
+				<span class="stat-number">${stats.byStatus.resolved ?? 0}</span>
+				Resolved
+			</div>
+			<div class="stat${stats.overdue > 0 ? ' stat-overdue' : ''}">
+				<span class="stat-number">${stats.overdue}</span>
+				Overdue
+			</div>
+		</div>
+		
+		<nav class="quick-views" aria-label="Views">
+			${quickView('All submissions', undefined)}
+			${quickView('My submissions', me)}
+			${quickView('Unassigned', 'none')}
+		</nav>
+		
+		<form method="GET" action="/admin" class="filters">
+			<input type="search" name="q" value="${escapeAttr(filters.search ?? '')}" placeholder="Search name, email or message" aria-label="Search">
+			<select name="status" aria-label="${escapeAttr(config.admin.columns.status)}">
+				<option value="">All statuses</option>
+				${config.admin.statusOptions.map(option => filterOption(option.value, option.label, filters.status)).join('')}
+			</select>
+			<select name="service" aria-label="${escapeAttr(config.admin.columns.service)}">
+				<option value="">All services</option>
+				${serviceTypes.map(service => filterOption(service, service, filters.service)).join('')}
+			</select>
+			<select name="priority" aria-label="${escapeAttr(config.admin.columns.priority)}">
+				<option value="">All priorities</option>
+				${config.contactForm.priorityLevels.map(level => filterOption(level.value, level.label, filters.priority)).join('')}
+			</select>
+			<select name="assignee" aria-label="${escapeAttr(config.admin.columns.assignee)}">
+				<option value="">Anyone</option>
+				${filterOption('none', 'Unassigned', filters.assignee)}
+				${[...new Set([me, ...assignees])].map(email => filterOption(email, email === me ? `${email} (me)` : email, filters.assignee)).join('')}
+			</select>
+			${showFormColumn ? `<select name="form" aria-label="${escapeAttr(config.admin.columns.form)}">
+				<option value="">All forms</option>
+				${forms.map(form => filterOption(form.id, form.title, filters.form)).join('')}
+			</select>` : ''}
+			<label>From <input type="date" name="created_after" value="${escapeAttr(filters.createdAfter?.slice(0, 10) ?? '')}"></label>
+			<label>Before <input type="date" name="created_before" value="${escapeAttr(filters.createdBefore?.slice(0, 10) ?? '')}"></label>
+			${formatSort(sort) !== formatSort(defaultSort) ? `<input type="hidden" name="sort" value="${escapeAttr(formatSort(sort))}">` : ''}
+			<button type="submit">Filter</button>
+			${hasFilters ? '<a href="/admin" class="clear-filters">Clear</a>' : ''}
+		</form>
+		
+		<a href="${escapeAttr(dashboardUrl({ page }))}" class="refresh-btn">🔄 Refresh Data</a>
+		<a href="/admin/audit" class="refresh-btn">📜 Audit Log</a>
+		<a href="/admin/outbox" class="refresh-btn">📬 Outbox</a>
+		<a href="/admin/webhooks" class="refresh-btn">🔗 Webhooks</a>
+		<form method="GET" action="/admin/export" class="export-form">
+			${[...exportParams].map(([name, value]) => `<input type="hidden" name="${escapeAttr(name)}" value="${escapeAttr(value)}">`).join('')}
+			<select name="format" aria-label="Export format">
+				<option value="csv">CSV</option>
+				<option value="ndjson">NDJSON</option>
+				<option value="json">JSON</option>
+			</select>
+			<button type="submit" class="refresh-btn">⬇ Export${hasFilters ? ' filtered' : ''}</button>
+		</form>
+	</div>
+
+	<div class="table-container">
+		<table>
+			<thead>
+				<tr>
+					${sortHeader('name', config.admin.columns.name)}
+					<th>${escapeHtml(config.admin.columns.email)}</th>
+					<th>${escapeHtml(config.admin.columns.phone)}</th>
+					${showFormColumn ? `<th>${escapeHtml(config.admin.columns.form)}</th>` : ''}
+					<th>${escapeHtml(config.admin.columns.service)}</th>
+					${customColumns.map(field => `<th>${escapeHtml(field.label)}</th>`).join('')}
+					<th>${escapeHtml(config.admin.columns.message)}</th>
+					${sortHeader('status', config.admin.columns.status)}
+					${sortHeader('priority', config.admin.columns.priority)}
+					<th>${escapeHtml(config.admin.columns.assignee)}</th>
+					${sortHeader('created_at', config.admin.columns.date)}
+				</tr>
+			</thead>
+			<tbody>
+				${submissionRows}
+			</tbody>
+		</table>
+	</div>
+
+	${total > 0 ? `
+		<nav class="pagination" aria-label="Pagination">
+			<span>${total} matching · Page ${page} of ${pageCount}</span>
+			${page > 1 ? `<a href="${escapeAttr(dashboardUrl({ page: page - 1 }))}" rel="prev">← Previous</a>` : ''}
+			${page < pageCount ? `<a href="${escapeAttr(dashboardUrl({ page: page + 1 }))}" rel="next">Next →</a>` : ''}
+		</nav>
+	` : ''}
+
+	${submissions.length === 0 && hasFilters ? `
+		<div class="empty-state">
+			<h3>${escapeHtml(config.admin.emptyState.filteredTitle)}</h3>
+			<p>${escapeHtml(config.admin.emptyState.filteredMessage)}</p>
+			<a href="/admin">Clear filters</a>
+		</div>
+	` : ''}
+	${submissions.length === 0 && !hasFilters ? `
+		<div class="empty-state">
+			<h3>${escapeHtml(config.admin.emptyState.title)}</h3>
+			<p>${escapeHtml(config.admin.emptyState.message)}</p>
+			<a href="/">${escapeHtml(config.admin.emptyState.buttonText)}</a>
+		</div>
+	` : ''}
+</body>
+</html>`;
+}
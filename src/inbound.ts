@@ -0,0 +1,215 @@
+/**
+ * Inbound email (the worker's email() handler, fed by Cloudflare Email Routing)
+ *
+ * A message is matched to a submission by, in order:
+ *   1. a plus-address token: replies ask customers to write to support+<id>@
+ *   2. In-Reply-To / References pointing at the thread root or a stored message
+ * Matched mail joins the submission's conversation and reopens it if it was
+ * resolved. Unmatched mail to the intake address becomes a new submission with
+ * source "email"; anything else is rejected.
+ */
+
+import PostalMime, { type Email } from 'postal-mime';
+import type { AuditContext } from './audit';
+import { generateReference } from './acknowledgement';
+import { CONFIG } from './config';
+import { MAX_REPLY_LENGTH, getReplyToken, parseThreadRootId } from './messages';
+import { applySubmissionChanges, getSubmission } from './submissions';
+import { dispatchSubmissionChanges, dispatchSubmissionCreated, type WebhookDispatcher } from './webhooks';
+import type { Env, FormSubmission } from './types';
+
+export const MAX_INBOUND_SIZE = 5 * 1024 * 1024;
+
+// Actor recorded when a customer reply reopens a submission
+const INBOUND_CONTEXT: AuditContext = { actor: 'inbound-email', ip: null };
+
+export type InboundResult =
+	| { action: 'threaded'; submissionId: string; reopened: boolean }
+	| { action: 'created'; submission: FormSubmission }
+	| { action: 'duplicate' | 'ignored' | 'rejected'; reason: string };
+
+/**
+ * Handle one inbound message. Calls setReject for mail that can't be placed.
+ */
+export async function receiveEmail(message: ForwardableEmailMessage, env: Env, config: typeof CONFIG, webhooks: WebhookDispatcher): Promise<InboundResult> {
+	if (message.rawSize > MAX_INBOUND_SIZE) {
+		return reject(message, 'Message too large');
+	}
+	if (isAutomatedEmail(message.headers)) {
+		// Out-of-office and list mail would otherwise reopen threads or loop
+		console.log(`Ignoring automated email from ${message.from}`);
+		return { action: 'ignored', reason: 'Automated email' };
+	}
+
+	const email = await PostalMime.parse(message.raw);
+	const submissionId = await findSubmissionId(env.DB, message.to, email, config);
+	if (submissionId) {
+		return threadReply(env.DB, submissionId, message, email, config, webhooks);
+	}
+
+	if (getLocalPart(message.to) === config.email.inbound.intakeAddress.toLowerCase()) {
+		return createEmailSubmission(env.DB, message, email, config, webhooks);
+	}
+
+	return reject(message, 'Unknown recipient');
+}
+
+/**
+ * The submission an email belongs to, from its plus-address token or its
+ * In-Reply-To / References headers
+ */
+export async function findSubmissionId(db: D1Database, recipient: string, email: Email, config: typeof CONFIG): Promise<string | null> {
+	const token = getReplyToken(recipient, config);
+	if (token && (await getSubmission(db, token))) {
+		return token;
+	}
+
+	const ids = [email.inReplyTo, email.references].flatMap((header) => header?.match(/<[^<>\s]+>/g) ?? []);
+	for (const id of ids) {
+		const root = parseThreadRootId(id);
+		if (root && (await getSubmission(db, root))) {
+			return root;
+		}
+	}
+	if (ids.length === 0) {
+		return null;
+	}
+	const row = await db
+		.prepare(`SELECT submission_id FROM messages WHERE message_id IN (${ids.map(() => '?').join(', ')}) ORDER BY id DESC LIMIT 1`)
+		.bind(...ids)
+		.first<{ submission_id: string }>();
+	return row?.submission_id ?? null;
+}
+
+/**
+ * The customer's new text, without the quoted message it replies to
+ */
+export function stripQuotedReply(text: string): string {
+	const lines = text.replace(/\r\n/g, '\n').split('\n');
+	const quoteStart = lines.findIndex((line) => /^On .+wrote:\s*$/.test(line.trim()) || /^-{2,}\s*Original Message\s*-{2,}$/i.test(line.trim()));
+	const kept = quoteStart === -1 ? lines : lines.slice(0, quoteStart);
+	while (kept.length > 0 && (kept[kept.length - 1].trim() === '' || kept[kept.length - 1].startsWith('>'))) {
+		kept.pop();
+	}
+	const stripped = kept.join('\n').trim();
+	return stripped || text.trim();
+}
+
+async function threadReply(
+	db: D1Database,
+	submissionId: string,
+	message: ForwardableEmailMessage,
+	email: Email,
+	config: typeof CONFIG,
+	webhooks: WebhookDispatcher,
+): Promise<InboundResult> {
+	const stored = await insertInboundMessage(db, submissionId, message, email, stripQuotedReply(getText(email))).run();
+	if (stored.meta.changes === 0) {
+		return { action: 'duplicate', reason: 'Message already stored' };
+	}
+
+	const submission = await getSubmission(db, submissionId);
+	const reopened = Boolean(submission && config.email.inbound.reopenStatuses.includes(submission.status));
+	if (reopened) {
+		const result = await applySubmissionChanges(db, submissionId, { status: config.email.inbound.reopenStatus }, INBOUND_CONTEXT);
+		if (result) {
+			await dispatchSubmissionChanges(webhooks, result, INBOUND_CONTEXT.actor, config);
+		}
+	}
+	console.log(`Inbound reply from ${message.from} threaded onto ${submissionId}${reopened ? ' (reopened)' : ''}`);
+	return { action: 'threaded', submissionId, reopened };
+}
+
+async function createEmailSubmission(
+	db: D1Database,
+	message: ForwardableEmailMessage,
+	email: Email,
+	config: typeof CONFIG,
+	webhooks: WebhookDispatcher,
+): Promise<InboundResult> {
+	const sender = email.from?.address || message.from;
+	const text = getText(email).trim();
+	const submission: FormSubmission = {
+		id: crypto.randomUUID(),
+		reference: generateReference(config),
+		form_id: config.contactForm.id,
+		name: (email.from?.name || sender.split('@')[0]).slice(0, 100),
+		email: sender.toLowerCase(),
+		service_type: config.email.inbound.serviceType,
+		priority: config.contactForm.defaultPriority,
+		message: (email.subject ? `${email.subject}\n\n${text}` : text).slice(0, MAX_REPLY_LENGTH),
+		timestamp: new Date().toISOString(),
+	};
+
+	await db.batch([
+		db.prepare(`
+			INSERT INTO submissions (id, reference, form_id, name, email, service_type, message, status, priority, source, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, 'new', ?, 'email', datetime('now'))
+		`).bind(submission.id, submission.reference, submission.form_id, submission.name, submission.email, submission.service_type, submission.message, submission.priority),
+		insertInboundMessage(db, submission.id, message, email, text),
+	]);
+	console.log(`Inbound email from ${sender} created submission ${submission.id}`);
+	await dispatchSubmissionCreated(webhooks, db, submission.id, config);
+	return { action: 'created', submission };
+}
+
+/**
+ * INSERT OR IGNORE, so a redelivered message (same Message-ID) is stored once
+ */
+function insertInboundMessage(db: D1Database, submissionId: string, message: ForwardableEmailMessage, email: Email, body: string): D1PreparedStatement {
+	return db
+		.prepare(`
+			INSERT OR IGNORE INTO messages (submission_id, direction, message_id, in_reply_to, from_address, to_address, subject, body, status)
+			VALUES (?, 'inbound', ?, ?, ?, ?, ?, ?, 'received')
+		`)
+		.bind(
+			submissionId,
+			email.messageId || `<${crypto.randomUUID()}@inbound.invalid>`,
+			email.inReplyTo ?? null,
+			email.from?.address || message.from,
+			message.to,
+			(email.subject ?? '(no subject)').slice(0, 200),
+			body.slice(0, MAX_REPLY_LENGTH),
+		);
+}
+
+/**
+ * Plain text body, falling back to the HTML part with tags removed
+ */
+function getText(email: Email): string {
+	if (email.text) {
+		return email.text;
+	}
+	return (email.html ?? '')
+		.replace(/<(style|script)[\s\S]*?<\/\1>/gi, '')
+		.replace(/<br\s*\/?>|<\/p>/gi, '\n')
+		.replace(/<[^>]+>/g, '')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&amp;/g, '&');
+}
+
+/**
+ * Auto-replies, bounces and mailing-list traffic (RFC 3834 and common headers)
+ */
+function isAutomatedEmail(headers: Headers): boolean {
+	const autoSubmitted = headers.get('Auto-Submitted')?.toLowerCase();
+	const precedence = headers.get('Precedence')?.toLowerCase();
+	return Boolean(
+		(autoSubmitted && autoSubmitted !== 'no') ||
+			(precedence && ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) ||
+			headers.get('X-Autoreply') ||
+			headers.get('List-Id'),
+	);
+}
+
+function getLocalPart(address: string): string {
+	return address.trim().toLowerCase().split('@')[0];
+}
+
+function reject(message: ForwardableEmailMessage, reason: string): InboundResult {
+	console.warn(`Rejecting email from ${message.from} to ${message.to}: ${reason}`);
+	message.setReject(reason);
+	return { action: 'rejected', reason };
+}
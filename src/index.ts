@@ -6,160 +6,92 @@
  */
 
 import { EmailMessage } from "cloudflare:email";
-import { createMimeMessage } from "mimetext";
 import { CONFIG, getConfig, validateConfig } from "./config";
-
-interface FormSubmission {
-id: string;
-name: string;
-email?: string;
-phone?: string;
-priority?: string;
-service_type: string;
-message: string;
-timestamp: string;
-}
-
-interface CloudflareAccessUser {
-	email: string;
-	name?: string;
-	sub?: string;
-	aud?: string[];
-	iss?: string;
-	iat?: number;
-	exp?: number;
-}
-
-interface Env {
-DB: D1Database;
-FROM_EMAIL: string;       // New
-ADMIN_EMAIL: string;      // New
-ENVIRONMENT?: string;     // New
-MG_DOMAIN: string;        // Mailgun domain
-MG_API_KEY: string;       // Mailgun API key
-}
+import { requireAdmin } from "./auth";
+import { getEmailTransport, type EmailTransport } from "./email";
+import { generateReference, sendAcknowledgement } from "./acknowledgement";
+import { listAssignees, notifyAssignee, notifyRoutedAssignee } from "./assignment";
+import { countAuditLog, getAuditContext, listAuditLog, parseAuditFilters, recordAudit, streamAuditCsv } from "./audit";
+import { API_PREFIX, handleApiRequest } from "./api";
+import { SLACK_ACTIONS_PATH, getSlackStatusUpdate, parseSlackAction, respondToSlack, sendChatNotifications, verifySlackRequest } from "./chat";
+import { EXPORT_CONTENT_TYPES, getExportFilename, parseExportFormat, streamSubmissionExport } from "./export";
+import { getCsrfSession, verifyCsrfRequest, withCsrfCookie } from "./csrf";
+import { getAdminHTML, getContactFormHTML, getErrorHTML, getSuccessHTML, type FormState } from "./html";
+import { getAuditLogHTML, getOutboxHTML, getSubmissionDetailHTML, getWebhooksHTML } from "./admin-html";
+import { listMessages, sendReply, validateReply } from "./messages";
+import { receiveEmail } from "./inbound";
+import { countOutbox, deliverOutboxEntry, enqueueEmail, listOutbox, parseOutboxStatus, processOutbox, requeueOutboxEntry } from "./outbox";
+import { applyRoutingRules, type RoutingResult } from "./routing";
+import { BOT_TRAP_CHECKS, SUBMISSION_SPAM_CHECKS, rateLimitCheck, runSpamChecks, type SpamVerdict } from "./spam";
+import { parseTemplateName, renderEmail, renderTemplatePreview } from "./templates";
+import { clampFormValues, collectFormValues, getCustomFieldValues, getTextValue } from "./fields";
+import { validateForm } from "./validation";
+import { FORM_REFERRER_FIELD, getSubmittedReferrer, parseFormPath, resolveFormConfig } from "./forms";
+import { isValidPriority } from "./priority";
+import {
+	MAX_NOTE_LENGTH,
+	addSubmissionNote,
+	applySubmissionChanges,
+	countSubmissions,
+	getDefaultSort,
+	getSubmission,
+	getSubmissionStats,
+	listSubmissionEvents,
+	listSubmissionNotes,
+	listSubmissions,
+	parseSort,
+	parseSubmissionFilters
+} from "./submissions";
+import {
+	countWebhookDeliveries,
+	createWebhookDispatcher,
+	dispatchSubmissionChanges,
+	dispatchSubmissionCreated,
+	listWebhookDeliveries,
+	parseWebhookStatus,
+	processWebhooks,
+	sendTestWebhook,
+	toWebhookSubmission,
+	type WebhookDispatcher
+} from "./webhooks";
+import type { CloudflareAccessUser, Env, FormSubmission } from "./types";
 
 /**
- * Extract user identity from Cloudflare Access JWT token
- * @param request - The incoming request
- * @returns CloudflareAccessUser object or null if token is missing/invalid
+ * The configured email transport (see email.ts), or null when there is none
  */
-function extractUserFromAccessToken(request: Request): CloudflareAccessUser | null {
-  try {
-    const userJWT = request.headers.get('Cf-Access-Jwt-Assertion');
-    if (!userJWT) {
-      return null;
-    }
-
-    // JWT structure: header.payload.signature
-    const parts = userJWT.split('.');
-    if (parts.length !== 3) {
-      console.error('Invalid JWT token format');
-      return null;
-    }
-
-    // Decode the payload (base64url decode)
-    const payload = parts[1];
-    // Convert base64url to base64
-    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
-    const paddedBase64 = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
-    
-    const decodedPayload = JSON.parse(atob(paddedBase64));
-    
-    // Validate token expiration
-    if (decodedPayload.exp && decodedPayload.exp < Math.floor(Date.now() / 1000)) {
-      console.warn('JWT token expired');
-      return null;
-    }
-    
-    // Validate required fields
-    if (!decodedPayload.email) {
-      console.error('JWT token missing email field');
-      return null;
-    }
-
-    return {
-      email: decodedPayload.email,
-      name: decodedPayload.name,
-      sub: decodedPayload.sub,
-      aud: decodedPayload.aud,
-      iss: decodedPayload.iss,
-      iat: decodedPayload.iat,
-      exp: decodedPayload.exp
-    };
-  } catch (error) {
-    console.error('Error extracting user from Access token:', error);
-    return null;
-  }
-}
-
-
-async function sendAdminNotification(env: Env, submission: FormSubmission): Promise<void> {
-  try {
-    const config = getConfig(env.ENVIRONMENT);
-    const subjectLine = createSubjectLine(submission, config);
-    const emailContent = createEmailContent(submission, env, config);
-    const domain = env.MG_DOMAIN;
-    const apiKey = env.MG_API_KEY;
-+   console.log(`🐝 Sending Mailgun email via domain: ${domain}`);
-+     const params = new URLSearchParams({
-      from: `Atlas Divisions <firebird@${domain}>`,
-      to: env.ADMIN_EMAIL,
-      subject: subjectLine,
-      text: emailContent
-    });
-    const response = await fetch(`https://api.mailgun.net/v3/${domain}/messages`, {
-      method: 'POST',
-      headers: {
-        Authorization: 'Basic ' + btoa(`api:${apiKey}`),
-        'Content-Type': 'application/x-www-form-urlencoded'
-      },
-      body: params.toString()
-    });
-    if (!response.ok) {
-      console.error(`❌ Email failed: ${response.status} ${response.statusText}`);
-    } else {
-      console.log(`✅ Mailgun email sent: ${response.status}`);
-    }
-  } catch (error) {
-    console.error('Error sending Mailgun email:', error);
-  }
+function getMailer(env: Env, config: typeof CONFIG): EmailTransport | null {
+  return getEmailTransport(env, config, EmailMessage);
 }
 
-function createSubjectLine(submission: FormSubmission, config: typeof CONFIG): string {
-  const serviceType = submission.service_type || 'General';
-  const customerName = submission.name || 'Unknown';
-  const subject = `${config.email.subjectPrefix}: ${serviceType} - ${customerName}`;
-  
-  // Truncate to 78 characters for email compatibility
-  return subject.length > 78 ? subject.substring(0, 75) + '...' : subject;
+/**
+ * Queue the new-submission email in the outbox and try it once in the background;
+ * the cron trigger retries it if that fails. baseUrl is the origin for its admin link;
+ * routing rules that fired can replace the recipients and add CCs.
+ */
+async function queueAdminNotification(env: Env, ctx: ExecutionContext, mailer: EmailTransport, submission: FormSubmission, config: typeof CONFIG, baseUrl: string, routing: RoutingResult | null = null): Promise<void> {
+  const { subject, text, html } = renderEmail("adminNotification", submission, config, { baseUrl, environment: env.ENVIRONMENT });
+  const entry = await enqueueEmail(env.DB, "admin_notification", submission.id, {
+    to: routing?.recipients.length ? routing.recipients : getNotificationRecipients(env, config),
+    cc: routing?.cc.length ? routing.cc : undefined,
+    subject,
+    text,
+    html,
+    // So "reply directly to this email" reaches the customer
+    replyTo: submission.email
+  });
+  ctx.waitUntil(deliverOutboxEntry(env.DB, mailer, entry, config));
 }
 
-function createEmailContent(submission: FormSubmission, env: Env, config: typeof CONFIG): string {
-  return `
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${config.company.emoji} ${config.email.templates.adminNotification.header}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-👤 Customer: ${submission.name}
-📧 Email: ${submission.email || 'Not provided'}
-📱 Phone: ${submission.phone || 'Not provided'}
-🔧 Service: ${submission.service_type}
-
-💬 Message:
-${submission.message}
-
-🕒 Submitted: ${new Date(submission.timestamp).toLocaleString()}
-🌐 Environment: ${env.ENVIRONMENT || 'production'}
-📝 Submission ID: ${submission.id}
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${config.email.templates.adminNotification.footer}
-  `.trim();
+/**
+ * Per-form recipients, falling back to ADMIN_EMAIL
+ */
+function getNotificationRecipients(env: Env, config: typeof CONFIG): string[] {
+  const recipients = config.contactForm.notificationRecipients;
+  return recipients.length > 0 ? recipients : [env.ADMIN_EMAIL];
 }
 
 export default {
-	async fetch(request: Request, env: Env): Promise<Response> {
+	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 		const url = new URL(request.url);
 		const config = getConfig(env.ENVIRONMENT);
 		
@@ -183,24 +115,44 @@ export default {
 
 		try {
 			let response: Response;
+			const formId = parseFormPath(url.pathname);
 			
 			// Landing page with contact form
 			if (url.pathname === '/' && request.method === 'GET') {
-				response = new Response(getContactFormHTML(config), {
+				response = new Response(getContactFormHTML(config, getInitialFormState(request)), {
 					headers: { 'Content-Type': 'text/html', ...corsHeaders }
 				});
 			}
 			// Submit contact form
 			else if (url.pathname === '/submit' && request.method === 'POST') {
-				response = await handleSubmit(request, env, corsHeaders, config);
+				response = await handleSubmit(request, env, ctx, corsHeaders, config);
+			}
+			// Named intake forms: GET renders, POST submits
+			else if (formId && (request.method === 'GET' || request.method === 'POST')) {
+				const formConfig = resolveFormConfig(config, formId);
+				if (!formConfig) {
+					response = new Response('Not Found', { status: 404, headers: corsHeaders });
+				} else if (request.method === 'GET') {
+					response = new Response(getContactFormHTML(formConfig, getInitialFormState(request)), {
+						headers: { 'Content-Type': 'text/html', ...corsHeaders }
+					});
+				} else {
+					response = await handleSubmit(request, env, ctx, corsHeaders, formConfig);
+				}
+			}
+			// Slack button clicks - authenticated by Slack's request signature, not the admin guard
+			else if (url.pathname === SLACK_ACTIONS_PATH && request.method === 'POST') {
+				response = await handleSlackAction(request, env, ctx, corsHeaders, config);
 			}
-			// Admin panel
-			else if (url.pathname === '/admin' && request.method === 'GET') {
-				response = await handleAdmin(request, env, corsHeaders, config);
+			// Admin JSON API - same guard as the admin panel
+			else if (url.pathname === API_PREFIX || url.pathname.startsWith(`${API_PREFIX}/`)) {
+				const auth = await requireAdmin(request, env, corsHeaders, config);
+				response = auth.response ?? await handleApiRequest(request, env, corsHeaders, config, auth.user, url, getMailer(env, config), createWebhookDispatcher(env, ctx, config));
 			}
-			// Update submission status
-			else if (url.pathname === '/admin/update' && request.method === 'POST') {
-				response = await handleStatusUpdate(request, env, corsHeaders, config);
+			// Admin routes - every /admin* path goes through the admin guard
+			else if (url.pathname === '/admin' || url.pathname.startsWith('/admin/')) {
+				const auth = await requireAdmin(request, env, corsHeaders, config);
+				response = auth.response ?? await handleAdminRoute(request, env, ctx, corsHeaders, config, auth.user, url);
 			}
 			// Handle unknown routes
 			else {
@@ -217,56 +169,153 @@ export default {
 			});
 		}
 	},
+
+	// Inbound mail from Cloudflare Email Routing: customer replies and new enquiries
+	async email(message: ForwardableEmailMessage, env: Env, ctx: ExecutionContext): Promise<void> {
+		const config = getConfig(env.ENVIRONMENT);
+		try {
+			const result = await receiveEmail(message, env, config, createWebhookDispatcher(env, ctx, config));
+			const mailer = getMailer(env, config);
+			if (result.action === 'created' && config.features.enableEmailNotifications && mailer && env.ADMIN_EMAIL) {
+				await queueAdminNotification(env, ctx, mailer, result.submission, config, config.admin.publicUrl);
+			}
+			if (result.action === 'created' && config.features.enableChatNotifications) {
+				ctx.waitUntil(sendChatNotifications(env, result.submission, config, config.admin.publicUrl));
+			}
+		} catch (error) {
+			// Rethrow so the sending server gets a temporary failure and retries
+			console.error('Inbound email error:', error);
+			throw error;
+		}
+	},
+
+	// Cron trigger: retry outbox messages and webhook deliveries that are due
+	async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+		const config = getConfig(env.ENVIRONMENT);
+		ctx.waitUntil(processOutbox(env.DB, getMailer(env, config), config));
+		ctx.waitUntil(processWebhooks(env.DB, env.WEBHOOK_SECRET, config));
+	},
 } satisfies ExportedHandler<Env>;
 
-async function handleSubmit(request: Request, env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG) {
+/**
+ * Blank form that remembers where the visitor came from
+ */
+function getInitialFormState(request: Request): FormState {
+	return { values: { [FORM_REFERRER_FIELD]: request.headers.get('Referer') ?? '' }, errors: {} };
+}
+
+async function handleSubmit(request: Request, env: Env, ctx: ExecutionContext, corsHeaders: Record<string, string>, config: typeof CONFIG) {
 	try {
 		const formData = await request.formData();
 		const id = crypto.randomUUID();
+		const reference = generateReference(config);
 		
 		const name = formData.get('name')?.toString();
 		const email = formData.get('email')?.toString();
 		const phone = formData.get('phone')?.toString();
 		const serviceType = formData.get('service_type')?.toString();
-const priority = formData.get('priority')?.toString();
+		const priority = formData.get('priority')?.toString();
 		const message = formData.get('message')?.toString();
 
-		// Basic validation
-		if (!name || !message || !serviceType) {
-			return new Response(getErrorHTML('Name, service type, and message are required', config), {
-				status: 400,
-				headers: { 'Content-Type': 'text/html', ...corsHeaders }
-			});
+		const values = collectFormValues(formData, config);
+		const ipAddress = request.headers.get('CF-Connecting-IP');
+		const userAgent = request.headers.get('User-Agent');
+		const spamContext = { formData, ip: ipAddress, name: name ?? '', email, message: message ?? '', env, config, now: Date.now() };
+
+		// Anti-abuse pipeline, part one: honeypot and fill time, before validation so bots are always recorded
+		let spamVerdict = config.features.enableSpamProtection ? await runSpamChecks(spamContext, BOT_TRAP_CHECKS) : null;
+
+		if (!spamVerdict) {
+			// Server-side validation against CONFIG.contactForm.fields
+			const errors = validateForm(values, config);
+			if (Object.keys(errors).length > 0 || !name || !message || !serviceType) {
+				// Re-render the form inline with the user's input kept
+				return new Response(getContactFormHTML(config, { values, errors }), {
+					status: 400,
+					headers: { 'Content-Type': 'text/html', ...corsHeaders }
+				});
+			}
+
+			// Part two: content score, rate limit, Turnstile
+			spamVerdict = config.features.enableSpamProtection ? await runSpamChecks(spamContext, SUBMISSION_SPAM_CHECKS) : null;
+		} else {
+			// A trapped bot is still rate limited, so flooding the form gets a 429 rather than unlimited spam rows
+			spamVerdict = (await runSpamChecks(spamContext, [rateLimitCheck])) ?? spamVerdict;
 		}
 
-		// Save to database
-		const timestamp = new Date().toISOString();
-		await env.DB.prepare(`
-			INSERT INTO submissions (id, name, email, phone, service_type, message, status, priority, created_at)
-			VALUES (?, ?, ?, ?, ?, ?, 'new', ?, datetime('now'))
-		`).bind(id, name, email, phone, serviceType, message, priority).run();
+		// Customers only choose a priority while the field is on; a bot's may not have been validated
+		const submissionPriority = config.features.enablePriorityField && priority && isValidPriority(priority, config) ? priority : config.contactForm.defaultPriority;
 
-		// After database save, add email notification
+		// Bot-trapped submissions skipped validation, so clip them to the validation limits before storing
+		const stored = spamVerdict ? clampFormValues(values, config) : values;
+		const storedEmail = getTextValue(stored, 'email');
+		const storedPhone = getTextValue(stored, 'phone');
+
+		const timestamp = new Date().toISOString();
+		const customFields = getCustomFieldValues(stored, config);
 		const submission: FormSubmission = {
 			id,
-			name: name!,
-			email: email || undefined,
-			phone: phone || undefined,
-			service_type: serviceType!,
-			message: message!,
+			reference,
+			form_id: config.contactForm.id,
+			name: getTextValue(stored, 'name') ?? '',
+			email: storedEmail || undefined,
+			phone: storedPhone || undefined,
+			service_type: getTextValue(stored, 'service_type') ?? '',
+			priority: submissionPriority,
+			message: getTextValue(stored, 'message') ?? '',
+			custom_fields: customFields,
 			timestamp
 		};
 
-		// Send email notification asynchronously (doesn't block response)
-		if (config.features.enableEmailNotifications && env.MG_API_KEY && env.ADMIN_EMAIL) {
-			console.log("Reaching sendAdminNotification");
-			await sendAdminNotification(env, submission);
-			console.log("sendAdminNotification completed");
+		// Routing rules pick recipients, assignee and priority; spam isn't routed
+		const routing = spamVerdict ? null : applyRoutingRules(submission, config);
+		if (routing?.priority) {
+			submission.priority = routing.priority;
+		}
+		if (routing && routing.rules.length > 0) {
+			console.log(`Routing rules fired for ${id}: ${routing.rules.join(', ')}`);
+		}
+
+		// Save to database - rejected submissions are kept with status 'spam'
+		await env.DB.prepare(`
+			INSERT INTO submissions (id, reference, form_id, name, email, phone, service_type, message, status, priority, assigned_to, routing_rules, custom_fields, ip_address, user_agent, referrer, spam_reason, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+		`).bind(
+			id, reference, config.contactForm.id, submission.name, storedEmail || null, storedPhone || null, submission.service_type, submission.message,
+			spamVerdict ? 'spam' : 'new', submission.priority,
+			routing?.assignTo ?? null,
+			routing && routing.rules.length > 0 ? JSON.stringify(routing.rules) : null,
+			Object.keys(customFields).length > 0 ? JSON.stringify(customFields) : null,
+			ipAddress, userAgent?.slice(0, 500) ?? null, getSubmittedReferrer(values),
+			spamVerdict ? `${spamVerdict.check}: ${spamVerdict.reason}` : null
+		).run();
+
+		if (spamVerdict) {
+			console.warn(`Submission ${id} flagged as spam by ${spamVerdict.check}: ${spamVerdict.reason}`);
+			return getSpamResponse(spamVerdict, corsHeaders, config);
+		}
+
+		// Email notification goes through the outbox and is sent after the response
+		const mailer = getMailer(env, config);
+		const baseUrl = config.admin.publicUrl || new URL(request.url).origin;
+		if (config.features.enableEmailNotifications && mailer && env.ADMIN_EMAIL) {
+			console.log(`Queueing admin notification (${mailer.name})`);
+			await queueAdminNotification(env, ctx, mailer, submission, config, baseUrl, routing);
 		} else {
-			console.log("MG_API_KEY or ADMIN_EMAIL not configured, or email notifications disabled");
+			console.log("No email transport or ADMIN_EMAIL configured, or email notifications disabled");
+		}
+		if (config.features.enableChatNotifications) {
+			ctx.waitUntil(sendChatNotifications(env, submission, config, baseUrl));
+		}
+		if (routing?.assignTo) {
+			ctx.waitUntil(notifyRoutedAssignee(env.DB, mailer, id, config, baseUrl));
 		}
 
-		return new Response(getSuccessHTML(config), {
+		// Copy of the message for the submitter (spam returned above, so never gets one)
+		ctx.waitUntil(sendAcknowledgement(env, mailer, submission, reference, config));
+		await dispatchSubmissionCreated(createWebhookDispatcher(env, ctx, config), env.DB, id, config);
+
+		return new Response(getSuccessHTML(config, reference), {
 			headers: { 'Content-Type': 'text/html', ...corsHeaders }
 		});
 	} catch (error) {
@@ -278,39 +327,179 @@ const priority = formData.get('priority')?.toString();
 	}
 }
 
-async function handleAdmin(request: Request, env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG) {
-	try {
-		// Extract user identity from Cloudflare Access token
-		const user = extractUserFromAccessToken(request);
-		
-		if (!user) {
-			console.warn('Missing Cf-Access-Jwt-Assertion header');
-			// If admin auth is enabled and no Cloudflare Access, deny access
-			if (config.features.enableAdminAuth && !config.features.enableCloudflareAccess) {
-				return new Response('Unauthorized - Admin access required', {
-					status: 401,
-					headers: corsHeaders
-				});
-			}
-		} else {
-			console.log(`Admin access: ${user.email}`);
-			// Check if user email is in allowed list (if not using Cloudflare Access)
-			if (config.features.enableAdminAuth && !config.features.enableCloudflareAccess) {
-				if (!config.security.allowedAdminEmails.includes(user.email)) {
-					return new Response('Unauthorized - Email not in admin list', {
-						status: 403,
-						headers: corsHeaders
-					});
-				}
-			}
+/**
+ * Respond to a rejected submission. Bot-like submissions get the normal success
+ * page so they learn nothing; humans who hit a limit or challenge get told why.
+ */
+function getSpamResponse(verdict: SpamVerdict, corsHeaders: Record<string, string>, config: typeof CONFIG): Response {
+	if (verdict.response === 'rate_limited') {
+		return new Response(getErrorHTML(config.spamProtection.rateLimitedMessage, config), {
+			status: 429,
+			headers: { 'Content-Type': 'text/html', 'Retry-After': String(config.spamProtection.rateLimit.windowMinutes * 60), ...corsHeaders }
+		});
+	}
+	if (verdict.response === 'challenge_failed') {
+		return new Response(getErrorHTML(config.spamProtection.challengeFailedMessage, config), {
+			status: 400,
+			headers: { 'Content-Type': 'text/html', ...corsHeaders }
+		});
+	}
+	return new Response(getSuccessHTML(config), {
+		headers: { 'Content-Type': 'text/html', ...corsHeaders }
+	});
+}
+
+/**
+ * Dispatch admin routes. Only reached after requireAdmin has resolved the user.
+ */
+async function handleAdminRoute(request: Request, env: Env, ctx: ExecutionContext, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser, url: URL) {
+	const csrf = getCsrfSession(request);
+	const webhooks = createWebhookDispatcher(env, ctx, config);
+
+	// Every state-changing admin request must carry the session's CSRF token
+	if (request.method !== 'GET' && request.method !== 'HEAD') {
+		const csrfError = await verifyCsrfRequest(request);
+		if (csrfError) {
+			console.warn(`CSRF check failed for ${user.email} on ${url.pathname}: ${csrfError}`);
+			return new Response(`Forbidden - ${csrfError}`, {
+				status: 403,
+				headers: { 'Content-Type': 'text/plain', ...corsHeaders }
+			});
 		}
+	}
+
+	let response: Response;
+	const detailMatch = url.pathname.match(/^\/admin\/submissions\/([^/]+)$/);
+	const notesMatch = url.pathname.match(/^\/admin\/submissions\/([^/]+)\/notes$/);
+	const replyMatch = url.pathname.match(/^\/admin\/submissions\/([^/]+)\/reply$/);
+	const resendMatch = url.pathname.match(/^\/admin\/outbox\/(\d+)\/resend$/);
+
+	// Admin panel
+	if (url.pathname === '/admin' && request.method === 'GET') {
+		response = await handleAdmin(request, env, corsHeaders, config, user, csrf.token);
+	}
+	// Audit log and its CSV export
+	else if (url.pathname === '/admin/audit' && request.method === 'GET') {
+		response = await handleAuditLog(env, corsHeaders, config, user, url);
+	}
+	else if (url.pathname === '/admin/audit.csv' && request.method === 'GET') {
+		response = await handleAuditExport(request, env, corsHeaders, user, url);
+	}
+	// Submission export with the dashboard's filters
+	else if (url.pathname === '/admin/export' && request.method === 'GET') {
+		response = await handleExport(request, env, corsHeaders, config, user, url);
+	}
+	// Notification delivery status and manual re-send
+	else if (url.pathname === '/admin/outbox' && request.method === 'GET') {
+		response = await handleOutbox(env, corsHeaders, config, user, csrf.token, url);
+	}
+	else if (resendMatch && request.method === 'POST') {
+		response = await handleOutboxResend(request, env, corsHeaders, config, user, Number(resendMatch[1]));
+	}
+	// Webhook endpoints, delivery log and test events
+	else if (url.pathname === '/admin/webhooks' && request.method === 'GET') {
+		response = await handleWebhooks(env, corsHeaders, config, user, csrf.token, url);
+	}
+	else if (url.pathname === '/admin/webhooks/test' && request.method === 'POST') {
+		response = await handleWebhookTest(request, env, corsHeaders, config, user);
+	}
+	// Email template preview against a sample submission
+	else if (url.pathname === '/admin/templates/preview' && request.method === 'GET') {
+		response = handleTemplatePreview(corsHeaders, config, url);
+	}
+	// Submission detail page
+	else if (detailMatch && request.method === 'GET') {
+		response = await handleSubmissionDetail(env, corsHeaders, config, user, csrf.token, decodeURIComponent(detailMatch[1]));
+	}
+	// Add an internal note
+	else if (notesMatch && request.method === 'POST') {
+		response = await handleAddNote(request, env, corsHeaders, user, decodeURIComponent(notesMatch[1]));
+	}
+	// Email the submitter
+	else if (replyMatch && request.method === 'POST') {
+		response = await handleReply(request, env, corsHeaders, config, user, webhooks, decodeURIComponent(replyMatch[1]));
+	}
+	// Assign a submission to a teammate
+	else if (url.pathname === '/admin/assign' && request.method === 'POST') {
+		response = await handleAssign(request, env, corsHeaders, config, user, webhooks);
+	}
+	// Update submission priority
+	else if (url.pathname === '/admin/priority' && request.method === 'POST') {
+		response = await handlePriorityUpdate(request, env, corsHeaders, config, user);
+	}
+	// Update submission status
+	else if (url.pathname === '/admin/update' && request.method === 'POST') {
+		response = await handleStatusUpdate(request, env, corsHeaders, config, user, webhooks);
+	}
+	else {
+		response = new Response('Not Found', { status: 404, headers: corsHeaders });
+	}
+
+	return withCsrfCookie(response, csrf);
+}
+
+/**
+ * The admin page (dashboard with its filters, sort and page, or a submission's
+ * detail page) that submitted a change, falling back to /admin
+ */
+function getAdminReturnPath(request: Request): string {
+	const referer = request.headers.get('Referer');
+	if (!referer) {
+		return '/admin';
+	}
+	try {
+		const from = new URL(referer);
+		const isAdminPage = from.pathname === '/admin' || from.pathname.startsWith('/admin/submissions/');
+		return from.origin === new URL(request.url).origin && isAdminPage ? `${from.pathname}${from.search}` : '/admin';
+	} catch {
+		return '/admin';
+	}
+}
 
-		const { results } = await env.DB.prepare(`
-			SELECT * FROM submissions
-			ORDER BY created_at DESC
-		`).all();
+async function handleSubmissionDetail(env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser, csrfToken: string, id: string) {
+	try {
+		const submission = await getSubmission(env.DB, id);
+		if (!submission) {
+			return new Response('Submission not found', { status: 404, headers: corsHeaders });
+		}
+		const [events, notes, messages, assignees] = await Promise.all([
+			listSubmissionEvents(env.DB, id),
+			listSubmissionNotes(env.DB, id),
+			listMessages(env.DB, id),
+			listAssignees(env.DB, config)
+		]);
+
+		return new Response(getSubmissionDetailHTML({ submission, events, notes, messages, assignees }, user, config, csrfToken), {
+			headers: { 'Content-Type': 'text/html', ...corsHeaders }
+		});
+	} catch (error) {
+		console.error('Submission detail error:', error);
+		return new Response('Internal Server Error', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
+}
 
-		return new Response(getAdminHTML(results, user, config), {
+async function handleAdmin(request: Request, env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser, csrfToken: string) {
+	try {
+		const url = new URL(request.url);
+		const filters = parseSubmissionFilters(url.searchParams);
+		const defaultSort = getDefaultSort(filters);
+		const sort = parseSort(url.searchParams.get('sort'), defaultSort) ?? defaultSort;
+		const pageSize = config.admin.pageSize;
+
+		const [total, stats, assignees] = await Promise.all([
+			countSubmissions(env.DB, filters),
+			getSubmissionStats(env.DB, config),
+			listAssignees(env.DB, config)
+		]);
+		const pageCount = Math.max(1, Math.ceil(total / pageSize));
+		const page = Math.min(Math.max(Number.parseInt(url.searchParams.get('page') ?? '', 10) || 1, 1), pageCount);
+
+		const { rows } = await listSubmissions(env.DB, { filters, sort, limit: pageSize, offset: (page - 1) * pageSize }, config);
+
+		return new Response(getAdminHTML(rows, user, config, csrfToken, { filters, sort, page, pageCount, total, stats, assignees }), {
 			headers: { 'Content-Type': 'text/html', ...corsHeaders }
 		});
 	} catch (error) {
@@ -322,16 +511,60 @@ async function handleAdmin(request: Request, env: Env, corsHeaders: Record<strin
 	}
 }
 
-async function handleStatusUpdate(request: Request, env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG) {
+/**
+ * A Slack "Mark in progress" or "Resolve" click. Slack wants an answer within
+ * 3 seconds, so the updated message goes to its response_url in the background.
+ */
+async function handleSlackAction(request: Request, env: Env, ctx: ExecutionContext, corsHeaders: Record<string, string>, config: typeof CONFIG) {
 	try {
-		// Extract user identity from Cloudflare Access token
-		const user = extractUserFromAccessToken(request);
-		
-		if (!user) {
-			console.warn('Status update without authentication');
-			// Still allow the update for now
+		if (!env.SLACK_SIGNING_SECRET) {
+			return new Response('Not Found', { status: 404, headers: corsHeaders });
 		}
-		
+		const body = await request.text();
+		const timestamp = request.headers.get('X-Slack-Request-Timestamp');
+		const signature = request.headers.get('X-Slack-Signature');
+		if (!await verifySlackRequest(env.SLACK_SIGNING_SECRET, timestamp, signature, body)) {
+			console.warn('Slack action rejected: invalid or expired signature');
+			return new Response('Invalid signature', { status: 401, headers: corsHeaders });
+		}
+
+		// Other interactions, such as the admin link button, only need acknowledging
+		const action = parseSlackAction(body);
+		if (!action) {
+			return new Response('', { status: 200, headers: corsHeaders });
+		}
+		const allowedUsers = config.chat.slackAllowedUsers;
+		if (allowedUsers.length > 0 && !allowedUsers.includes(action.userId)) {
+			console.warn(`Slack action refused for ${action.userName} (${action.userId})`);
+			ctx.waitUntil(respondToSlack(action.responseUrl, { response_type: 'ephemeral', replace_original: false, text: "You aren't allowed to change submissions from Slack." }, config));
+			return new Response('', { status: 200, headers: corsHeaders });
+		}
+		if (!config.admin.statusOptions.some(option => option.value === action.status)) {
+			return new Response('Invalid status value', { status: 400, headers: corsHeaders });
+		}
+
+		const actor = `slack:${action.userName}`;
+		console.log(`Status update: ${action.submissionId} -> ${action.status} by ${actor}`);
+		const result = await applySubmissionChanges(env.DB, action.submissionId, { status: action.status }, { actor, ip: request.headers.get('CF-Connecting-IP') });
+		if (!result) {
+			ctx.waitUntil(respondToSlack(action.responseUrl, { response_type: 'ephemeral', replace_original: false, text: 'This submission no longer exists.' }, config));
+			return new Response('', { status: 200, headers: corsHeaders });
+		}
+		await dispatchSubmissionChanges(createWebhookDispatcher(env, ctx, config), result, actor, config);
+		ctx.waitUntil(respondToSlack(action.responseUrl, getSlackStatusUpdate(action, config), config));
+
+		return new Response('', { status: 200, headers: corsHeaders });
+	} catch (error) {
+		console.error('Slack action error:', error);
+		return new Response('Update failed', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
+}
+
+async function handleStatusUpdate(request: Request, env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser, webhooks: WebhookDispatcher) {
+	try {
 		const formData = await request.formData();
 		const id = formData.get('id')?.toString();
 		const status = formData.get('status')?.toString();
@@ -352,18 +585,21 @@ async function handleStatusUpdate(request: Request, env: Env, corsHeaders: Recor
 			});
 		}
 
-		console.log(`Status update: ${id} -> ${status} by ${user?.email || 'unknown'}`);
+		console.log(`Status update: ${id} -> ${status} by ${user.email}`);
 
-		await env.DB.prepare(`
-			UPDATE submissions
-			SET status = ?, updated_at = datetime('now')
-			WHERE id = ?
-		`).bind(status, id).run();
+		const result = await applySubmissionChanges(env.DB, id, { status }, getAuditContext(request, user));
+		if (!result) {
+			return new Response('Submission not found', {
+				status: 404,
+				headers: corsHeaders
+			});
+		}
+		await dispatchSubmissionChanges(webhooks, result, user.email, config);
 
-		// Redirect back to admin panel
+		// Redirect back to the admin page the change was made from
 		return new Response('', {
 			status: 302,
-			headers: { 'Location': '/admin', ...corsHeaders }
+			headers: { 'Location': getAdminReturnPath(request), ...corsHeaders }
 		});
 	} catch (error) {
 		console.error('Update error:', error);
@@ -374,999 +610,393 @@ async function handleStatusUpdate(request: Request, env: Env, corsHeaders: Recor
 	}
 }
 
-/**
- * Generate CSS custom properties from theme configuration
- */
-function generateThemeCSS(config: typeof CONFIG): string {
-	const colors = config.styling.colors;
-	const effects = config.styling.effects;
-	
-	return `
-		:root {
-			/* Colors */
-			--color-primary: ${colors.primary};
-			--color-primary-hover: ${colors.primaryHover};
-			--color-primary-light: ${colors.primaryLight};
-			--color-primary-bg: ${colors.primaryBg};
-			--color-accent: ${colors.accent};
-			--color-accent-hover: ${colors.accentHover};
-			--color-accent-light: ${colors.accentLight};
-			--color-accent-dark: ${colors.accentDark};
-			--color-success: ${colors.success};
-			--color-success-hover: ${colors.successHover};
-			--color-error: ${colors.error};
-			--color-error-bg: ${colors.errorBg};
-			--color-warning: ${colors.warning};
-			--color-warning-bg: ${colors.warningBg};
-			--color-text: ${colors.text};
-			--color-text-light: ${colors.textLight};
-			--color-text-inverse: ${colors.textInverse};
-			--color-background: ${colors.background};
-			--color-background-secondary: ${colors.backgroundSecondary};
-			--color-background-dark: ${colors.backgroundDark};
-			--color-surface: ${colors.surface};
-			--color-surface-teal: ${colors.surfaceTeal};
-			--color-surface-gold: ${colors.surfaceGold};
-			--color-border: ${colors.border};
-			--color-border-teal: ${colors.borderTeal};
-			--color-border-gold: ${colors.borderGold};
-			
-			/* Gradients */
-			--gradient-primary: ${colors.gradientPrimary};
-			--gradient-accent: ${colors.gradientAccent};
-			--gradient-dark: ${colors.gradientDark};
-			--gradient-teal-gold: ${colors.gradientTealGold};
-			
-			/* Shadows */
-			--shadow-teal: ${colors.shadowTeal};
-			--shadow-gold: ${colors.shadowGold};
-			--shadow-dark: ${colors.shadowDark};
-			
-			/* Effects */
-			--border-radius: ${effects.borderRadius};
-			--border-radius-large: ${effects.borderRadiusLarge};
-			--border-radius-small: ${effects.borderRadiusSmall};
-			--box-shadow: ${effects.boxShadow};
-			--box-shadow-large: ${effects.boxShadowLarge};
-			--transition: ${effects.transition};
-			
-			/* Fonts */
-			--font-primary: ${config.styling.fonts.primary};
-		}
-	`.trim();
-}
+async function handlePriorityUpdate(request: Request, env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser) {
+	try {
+		const formData = await request.formData();
+		const id = formData.get('id')?.toString();
+		const priority = formData.get('priority')?.toString();
 
-function getContactFormHTML(config: typeof CONFIG): string {
-	return `<!DOCTYPE html>
-<html lang="en">
-<head>
-	<meta charset="UTF-8">
-	<meta name="viewport" content="width=device-width, initial-scale=1.0">
-	<title>${config.company.name} - ${config.contactForm.title}</title>
-	<style>
-		${generateThemeCSS(config)}
-		
-		* { 
-			box-sizing: border-box; 
-		}
-		
-		body { 
-			font-family: var(--font-primary);
-			max-width: 600px; 
-			margin: 50px auto; 
-			padding: 20px;
-			background: var(--gradient-primary);
-			min-height: 100vh;
-			background-attachment: fixed;
-		}
-		
-		.container {
-			background: var(--color-surface);
-			padding: 40px;
-			border-radius: var(--border-radius-large);
-			box-shadow: var(--box-shadow-large);
-			border: 1px solid var(--color-border-teal);
-			backdrop-filter: blur(10px);
-			position: relative;
-			overflow: hidden;
-		}
-		
-		.container::before {
-			content: '';
-			position: absolute;
-			top: 0;
-			left: 0;
-			right: 0;
-			height: 4px;
-			background: var(--gradient-accent);
-			border-radius: var(--border-radius-large) var(--border-radius-large) 0 0;
-		}
-		
-		h1 { 
-			color: var(--color-text); 
-			margin-bottom: 10px;
-			font-size: 2rem;
-			font-weight: 700;
-			text-shadow: 0 2px 4px var(--shadow-teal);
+		if (!id || !priority) {
+			return new Response('Missing ID or priority', {
+				status: 400,
+				headers: corsHeaders
+			});
 		}
-		
-		.subtitle {
-			color: var(--color-text-light);
-			margin-bottom: 30px;
-			font-size: 1.1rem;
+
+		if (!isValidPriority(priority, config)) {
+			return new Response('Invalid priority value', {
+				status: 400,
+				headers: corsHeaders
+			});
 		}
-		
-		label {
-			font-weight: 600;
-			color: var(--color-text);
-			display: block;
-			margin-bottom: 8px;
-			font-size: 0.95rem;
+
+		console.log(`Priority update: ${id} -> ${priority} by ${user.email}`);
+
+		if (!await applySubmissionChanges(env.DB, id, { priority }, getAuditContext(request, user))) {
+			return new Response('Submission not found', {
+				status: 404,
+				headers: corsHeaders
+			});
 		}
-		
-		input, textarea, select { 
-			width: 100%; 
-			padding: 15px; 
-			margin: 0 0 20px 0;
-			border: 2px solid var(--color-border);
-			border-radius: var(--border-radius);
-			font-size: 16px;
-			font-family: var(--font-primary);
-			transition: var(--transition);
-			background: var(--color-surface-teal);
+
+		// Redirect back to the admin page the change was made from
+		return new Response('', {
+			status: 302,
+			headers: { 'Location': getAdminReturnPath(request), ...corsHeaders }
+		});
+	} catch (error) {
+		console.error('Priority update error:', error);
+		return new Response('Update failed', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
+}
+
+async function handleAssign(request: Request, env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser, webhooks: WebhookDispatcher) {
+	try {
+		const formData = await request.formData();
+		const id = formData.get('id')?.toString();
+		const assignee = formData.get('assigned_to')?.toString().trim().toLowerCase() ?? '';
+
+		if (!id) {
+			return new Response('Missing ID', {
+				status: 400,
+				headers: corsHeaders
+			});
 		}
-		
-		input:focus, textarea:focus, select:focus {
-			border-color: var(--color-primary);
-			outline: none;
-			box-shadow: 0 0 0 3px var(--shadow-teal);
-			background: var(--color-surface);
-			transform: translateY(-1px);
+
+		// Empty means unassign; anything else must be a known teammate
+		if (assignee && !(await listAssignees(env.DB, config)).includes(assignee)) {
+			return new Response('Invalid assignee', {
+				status: 400,
+				headers: corsHeaders
+			});
 		}
-		
-		input:hover, textarea:hover, select:hover {
-			border-color: var(--color-primary-light);
+
+		console.log(`Assignment: ${id} -> ${assignee || 'unassigned'} by ${user.email}`);
+
+		const result = await applySubmissionChanges(env.DB, id, { assigned_to: assignee || null }, getAuditContext(request, user));
+		if (!result) {
+			return new Response('Submission not found', {
+				status: 404,
+				headers: corsHeaders
+			});
 		}
-		
-		button { 
-			background: var(--gradient-teal-gold);
-			color: var(--color-text-inverse); 
-			padding: 18px 30px; 
-			border: none; 
-			border-radius: var(--border-radius);
-			cursor: pointer;
-			font-size: 18px;
-			font-weight: 600;
-			width: 100%;
-			transition: var(--transition);
-			box-shadow: var(--box-shadow);
-			text-transform: uppercase;
-			letter-spacing: 0.5px;
+		await notifyAssignee(getMailer(env, config), result, user.email, config, config.admin.publicUrl || new URL(request.url).origin);
+		await dispatchSubmissionChanges(webhooks, result, user.email, config);
+
+		// Redirect back to the admin page the change was made from
+		return new Response('', {
+			status: 302,
+			headers: { 'Location': getAdminReturnPath(request), ...corsHeaders }
+		});
+	} catch (error) {
+		console.error('Assignment error:', error);
+		return new Response('Update failed', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
+}
+
+async function handleAddNote(request: Request, env: Env, corsHeaders: Record<string, string>, user: CloudflareAccessUser, id: string) {
+	try {
+		const formData = await request.formData();
+		const body = formData.get('body')?.toString().trim();
+
+		if (!body) {
+			return new Response('Missing note', {
+				status: 400,
+				headers: corsHeaders
+			});
 		}
-		
-		button:hover {
-			transform: translateY(-2px);
-			box-shadow: var(--box-shadow-large);
+
+		if (body.length > MAX_NOTE_LENGTH) {
+			return new Response(`Notes are limited to ${MAX_NOTE_LENGTH} characters`, {
+				status: 400,
+				headers: corsHeaders
+			});
 		}
-		
-		button:active {
-			transform: translateY(0);
+
+		if (!await addSubmissionNote(env.DB, id, body, getAuditContext(request, user))) {
+			return new Response('Submission not found', {
+				status: 404,
+				headers: corsHeaders
+			});
 		}
-		
-		.required {
-			color: var(--color-accent);
-			font-weight: bold;
+
+		console.log(`Note added: ${id} by ${user.email}`);
+
+		return new Response('', {
+			status: 302,
+			headers: { 'Location': `/admin/submissions/${encodeURIComponent(id)}#notes`, ...corsHeaders }
+		});
+	} catch (error) {
+		console.error('Add note error:', error);
+		return new Response('Note failed', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
+}
+
+async function handleReply(request: Request, env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser, webhooks: WebhookDispatcher, id: string) {
+	try {
+		const submission = await getSubmission(env.DB, id);
+		if (!submission) {
+			return new Response('Submission not found', {
+				status: 404,
+				headers: corsHeaders
+			});
 		}
-		
-		.form-group {
-			margin-bottom: 24px;
+
+		const formData = await request.formData();
+		const input = {
+			subject: formData.get('subject')?.toString().trim() ?? '',
+			body: formData.get('body')?.toString().trim() ?? '',
+			markInProgress: formData.get('mark_in_progress') === '1'
+		};
+
+		const error = validateReply(submission, input);
+		if (error) {
+			return new Response(error, {
+				status: 400,
+				headers: corsHeaders
+			});
 		}
-		
-		.response-message {
-			margin-top: 30px; 
-			padding: 16px;
-			font-size: 14px; 
-			color: var(--color-text-light); 
-			text-align: center;
-			background: var(--color-surface-gold);
-			border-radius: var(--border-radius);
-			border-left: 4px solid var(--color-accent);
+
+		const { message, sent, change } = await sendReply(env, getMailer(env, config), submission, input, getAuditContext(request, user), config);
+		console.log(`Reply ${sent ? 'sent' : 'failed'}: ${id} by ${user.email}`);
+		await webhooks.dispatch('submission.replied', id, {
+			submission: toWebhookSubmission(change?.submission ?? submission, config),
+			actor: user.email,
+			message: { id: message.id, to: message.to_address, subject: message.subject, body: message.body, status: message.status }
+		});
+		if (change) {
+			await dispatchSubmissionChanges(webhooks, change, user.email, config);
 		}
-		
-		/* Mobile optimizations for Windows/Chrome/Firefox priority */
-		@media (max-width: 768px) {
-			body {
-				margin: 20px auto;
-				padding: 15px;
-			}
-			
-			.container {
-				padding: 30px 20px;
-			}
-			
-			h1 {
-				font-size: 1.75rem;
-			}
-			
-			input, textarea, select {
-				padding: 12px;
-				font-size: 16px; /* Prevents zoom on iOS */
-			}
-			
-			button {
-				padding: 16px 24px;
-				font-size: 16px;
-			}
-		}
-		
-		/* Cross-browser compatibility */
-		input[type="email"], input[type="tel"] {
-			-webkit-appearance: none;
-			-moz-appearance: none;
-			appearance: none;
-		}
-		
-		select {
-			-webkit-appearance: none;
-			-moz-appearance: none;
-			appearance: none;
-			background-image: url("data:image/svg+xml;charset=UTF-8,%3csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='%230f766e' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3e%3cpolyline points='6,9 12,15 18,9'%3e%3c/polyline%3e%3c/svg%3e");
-			background-repeat: no-repeat;
-			background-position: right 12px center;
-			background-size: 16px;
-			padding-right: 40px;
-		}
-	</style>
-</head>
-<body>
-	<div class="container">
-		<h1>${config.company.emoji} ${config.company.name}</h1>
-		<p class="subtitle">${config.company.tagline}</p>
-		
-		<form method="POST" action="/submit">
-			<div class="form-group">
-				<label for="name">Name <span class="required">*</span></label>
-				<input name="name" id="name" placeholder="Your full name" required>
-			</div>
-			
-			<div class="form-group">
-				<label for="email">Email</label>
-				<input name="email" id="email" placeholder="your@email.com" type="email">
-			</div>
-			
-			<div class="form-group">
-				<label for="phone">Phone</label>
-				<input name="phone" id="phone" placeholder="(555) 123-4567" type="tel">
-			</div>
-			
-			<div class="form-group">
-				<label for="service_type">Service Type <span class="required">*</span></label>
-<select name="service_type" id="service_type" required>
-<option value="">Select a service...</option>
-${config.contactForm.serviceTypes.map(type => `<option value="${type}">${type}</option>`).join('')}
-</select>
-</div>
-
-<div class="form-group">
-<label for="priority">Urgency</label>
-<select name="priority" id="priority">
-<option value="">Select urgency...</option>
-${config.contactForm.priorityLevels.map(level => `<option value="${level}">${level.charAt(0).toUpperCase() + level.slice(1)}</option>`).join('')}
-</select>
-</div>
-			
-			<div class="form-group">
-				<label for="message">Message <span class="required">*</span></label>
-				<textarea name="message" id="message" placeholder="Describe how we can help you..." rows="5" required></textarea>
-			</div>
-			
-			<button type="submit">${config.contactForm.submitButtonText}</button>
-		</form>
-		
-		<div class="response-message">
-			${config.contactForm.responseTimeMessage}
-		</div>
-	</div>
-</body>
-</html>`;
+
+		// Failed replies are kept and flagged in the history
+		return new Response('', {
+			status: 302,
+			headers: { 'Location': `/admin/submissions/${encodeURIComponent(id)}#notes`, ...corsHeaders }
+		});
+	} catch (error) {
+		console.error('Reply error:', error);
+		return new Response('Reply failed', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
 }
 
-function getSuccessHTML(config: typeof CONFIG): string {
-	return `<!DOCTYPE html>
-<html lang="en">
-<head>
-	<meta charset="UTF-8">
-	<meta name="viewport" content="width=device-width, initial-scale=1.0">
-	<title>Message Sent - ${config.company.name}</title>
-	<style>
-		${generateThemeCSS(config)}
-		
-		* { 
-			box-sizing: border-box; 
-		}
-		
-		body { 
-			font-family: var(--font-primary);
-			max-width: 600px; 
-			margin: 50px auto; 
-			padding: 20px;
-			background: var(--gradient-primary);
-			min-height: 100vh;
-			background-attachment: fixed;
-		}
-		
-		.container {
-			background: var(--color-surface);
-			padding: 50px 40px;
-			border-radius: var(--border-radius-large);
-			box-shadow: var(--box-shadow-large);
-			border: 1px solid var(--color-border-teal);
-			text-align: center;
-			position: relative;
-			overflow: hidden;
-		}
-		
-		.container::before {
-			content: '';
-			position: absolute;
-			top: 0;
-			left: 0;
-			right: 0;
-			height: 4px;
-			background: var(--gradient-accent);
-			border-radius: var(--border-radius-large) var(--border-radius-large) 0 0;
-		}
-		
-		.success-icon { 
-			font-size: 80px; 
-			margin-bottom: 24px;
-			animation: successPulse 2s ease-in-out infinite;
-		}
-		
-		@keyframes successPulse {
-			0%, 100% { transform: scale(1); }
-			50% { transform: scale(1.1); }
-		}
-		
-		h1 { 
-			color: var(--color-success); 
-			margin-bottom: 24px;
-			font-size: 2.2rem;
-			font-weight: 700;
-			text-shadow: 0 2px 4px var(--shadow-teal);
-		}
-		
-		p {
-			color: var(--color-text);
-			font-size: 1.1rem;
-			line-height: 1.6;
-			margin-bottom: 16px;
-		}
-		
-		.highlight {
-			color: var(--color-primary);
-			font-weight: 600;
-		}
-		
-		a { 
-			display: inline-block;
-			background: var(--gradient-teal-gold); 
-			color: var(--color-text-inverse); 
-			padding: 16px 32px; 
-			text-decoration: none;
-			border-radius: var(--border-radius);
-			margin-top: 30px;
-			font-weight: 600;
-			font-size: 1.1rem;
-			transition: var(--transition);
-			box-shadow: var(--box-shadow);
-			text-transform: uppercase;
-			letter-spacing: 0.5px;
-		}
-		
-		a:hover { 
-			transform: translateY(-2px);
-			box-shadow: var(--box-shadow-large);
-		}
-		
-		a:active {
-			transform: translateY(0);
-		}
-		
-		.celebration {
-			background: var(--color-surface-gold);
-			padding: 20px;
-			border-radius: var(--border-radius);
-			margin: 24px 0;
-			border-left: 4px solid var(--color-accent);
-		}
-		
-		/* Mobile optimizations */
-		@media (max-width: 768px) {
-			body {
-				margin: 20px auto;
-				padding: 15px;
-			}
-			
-			.container {
-				padding: 40px 25px;
-			}
-			
-			h1 {
-				font-size: 1.8rem;
-			}
-			
-			.success-icon {
-				font-size: 64px;
-			}
-			
-			a {
-				padding: 14px 24px;
-				font-size: 1rem;
-			}
-		}
-	</style>
-</head>
-<body>
-	<div class="container">
-		<div class="success-icon">✅</div>
-		<h1>Message Sent Successfully!</h1>
-		
-		<div class="celebration">
-			<p>Thank you for contacting <span class="highlight">${config.company.name}</span>. We've received your message and will get back to you within 24 hours.</p>
-			<p>We appreciate your business!</p>
-		</div>
-		
-		<a href="/">← Send Another Message</a>
-	</div>
-</body>
-</html>`;
+async function handleAuditLog(env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser, url: URL) {
+	try {
+		const filters = parseAuditFilters(url.searchParams);
+		const pageSize = config.admin.pageSize;
+		const total = await countAuditLog(env.DB, filters);
+		const pageCount = Math.max(1, Math.ceil(total / pageSize));
+		const page = Math.min(Math.max(Number.parseInt(url.searchParams.get('page') ?? '', 10) || 1, 1), pageCount);
+		const entries = await listAuditLog(env.DB, filters, pageSize, (page - 1) * pageSize);
+
+		return new Response(getAuditLogHTML({ entries, filters, page, pageCount, total }, user, config), {
+			headers: { 'Content-Type': 'text/html', ...corsHeaders }
+		});
+	} catch (error) {
+		console.error('Audit log error:', error);
+		return new Response('Internal Server Error', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
 }
 
-function getErrorHTML(error: string, config: typeof CONFIG): string {
-	return `<!DOCTYPE html>
-<html lang="en">
-<head>
-	<meta charset="UTF-8">
-	<meta name="viewport" content="width=device-width, initial-scale=1.0">
-	<title>Error - ${config.company.name}</title>
-	<style>
-		${generateThemeCSS(config)}
-		
-		* { 
-			box-sizing: border-box; 
-		}
-		
-		body { 
-			font-family: var(--font-primary);
-			max-width: 600px; 
-			margin: 50px auto; 
-			padding: 20px;
-			background: var(--gradient-primary);
-			min-height: 100vh;
-			background-attachment: fixed;
-		}
-		
-		.container {
-			background: var(--color-surface);
-			padding: 50px 40px;
-			border-radius: var(--border-radius-large);
-			box-shadow: var(--box-shadow-large);
-			border: 1px solid var(--color-border-teal);
-			text-align: center;
-			position: relative;
-			overflow: hidden;
-		}
-		
-		.container::before {
-			content: '';
-			position: absolute;
-			top: 0;
-			left: 0;
-			right: 0;
-			height: 4px;
-			background: linear-gradient(135deg, var(--color-error) 0%, var(--color-warning) 100%);
-			border-radius: var(--border-radius-large) var(--border-radius-large) 0 0;
-		}
-		
-		.error-icon { 
-			font-size: 80px; 
-			margin-bottom: 24px;
-			animation: errorShake 0.5s ease-in-out;
-		}
-		
-		@keyframes errorShake {
-			0%, 100% { transform: translateX(0); }
-			25% { transform: translateX(-5px); }
-			75% { transform: translateX(5px); }
-		}
-		
-		h1 { 
-			color: var(--color-error); 
-			margin-bottom: 24px;
-			font-size: 2.2rem;
-			font-weight: 700;
-			text-shadow: 0 2px 4px var(--shadow-teal);
-		}
-		
-		.error-message {
-			background: var(--color-error-bg);
-			padding: 20px;
-			border-radius: var(--border-radius);
-			margin: 24px 0;
-			border-left: 4px solid var(--color-error);
-		}
-		
-		p {
-			color: var(--color-text);
-			font-size: 1.1rem;
-			line-height: 1.6;
-			margin-bottom: 16px;
-		}
-		
-		a { 
-			display: inline-block;
-			background: var(--gradient-teal-gold); 
-			color: var(--color-text-inverse); 
-			padding: 16px 32px; 
-			text-decoration: none;
-			border-radius: var(--border-radius);
-			margin-top: 30px;
-			font-weight: 600;
-			font-size: 1.1rem;
-			transition: var(--transition);
-			box-shadow: var(--box-shadow);
-			text-transform: uppercase;
-			letter-spacing: 0.5px;
-		}
-		
-		a:hover { 
-			transform: translateY(-2px);
-			box-shadow: var(--box-shadow-large);
-		}
-		
-		a:active {
-			transform: translateY(0);
-		}
-		
-		/* Mobile optimizations */
-		@media (max-width: 768px) {
-			body {
-				margin: 20px auto;
-				padding: 15px;
-			}
-			
-			.container {
-				padding: 40px 25px;
-			}
-			
-			h1 {
-				font-size: 1.8rem;
-			}
-			
-			.error-icon {
-				font-size: 64px;
-			}
-			
-			a {
-				padding: 14px 24px;
-				font-size: 1rem;
+async function handleAuditExport(request: Request, env: Env, corsHeaders: Record<string, string>, user: CloudflareAccessUser, url: URL) {
+	try {
+		const filters = parseAuditFilters(url.searchParams);
+		const rows = await countAuditLog(env.DB, filters);
+
+		// Exports are audited too, before the data leaves
+		await recordAudit(env.DB, getAuditContext(request, user), {
+			action: 'audit.export',
+			after: { filters, rows }
+		});
+
+		return new Response(streamAuditCsv(env.DB, filters), {
+			headers: {
+				'Content-Type': 'text/csv; charset=utf-8',
+				'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`,
+				'Cache-Control': 'no-store',
+				...corsHeaders
 			}
-		}
-	</style>
-</head>
-<body>
-	<div class="container">
-		<div class="error-icon">❌</div>
-		<h1>Oops! Something went wrong</h1>
-		
-		<div class="error-message">
-			<p>${error}</p>
-		</div>
-		
-		<a href="/">← Try Again</a>
-	</div>
-</body>
-</html>`;
+		});
+	} catch (error) {
+		console.error('Audit export error:', error);
+		return new Response('Export failed', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
 }
 
-function getAdminHTML(submissions: any[], user: CloudflareAccessUser | null = null, config: typeof CONFIG): string {
-	const submissionRows = submissions.map(sub => `
-		<tr class="submission-row">
-			<td class="name-cell">${sub.name}</td>
-			<td class="email-cell">${sub.email || '<span class="no-data">N/A</span>'}</td>
-			<td class="phone-cell">${sub.phone || '<span class="no-data">N/A</span>'}</td>
-			<td class="service-cell"><span class="service-badge">${sub.service_type}</span></td>
-			<td class="message-cell" title="${sub.message}">
-				<div class="message-preview">${sub.message.substring(0, 50)}${sub.message.length > 50 ? '...' : ''}</div>
-			</td>
-			<td class="status-cell">
-				<form method="POST" action="/admin/update" class="status-form">
-					<input type="hidden" name="id" value="${sub.id}">
-					<select name="status" class="status-select ${sub.status}" onchange="this.form.submit()">
-						${config.admin.statusOptions.map(option =>
-							`<option value="${option.value}" ${sub.status === option.value ? 'selected' : ''}>${option.label}</option>`
-						).join('')}
-					</select>
-				</form>
-			</td>
-			<td class="date-cell">${new Date(sub.created_at).toLocaleDateString()}</td>
-		</tr>
-	`).join('');
-
-	return `<!DOCTYPE html>
-<html lang="en">
-<head>
-	<meta charset="UTF-8">
-	<meta name="viewport" content="width=device-width, initial-scale=1.0">
-	<title>${config.admin.title} - ${config.company.name}</title>
-	<style>
-		${generateThemeCSS(config)}
-		
-		* { 
-			box-sizing: border-box; 
-		}
-		
-		body { 
-			font-family: var(--font-primary);
-			margin: 20px;
-			background: var(--gradient-dark);
-			min-height: 100vh;
-			background-attachment: fixed;
-		}
-		
-		.header {
-			background: var(--color-surface);
-			padding: 30px;
-			border-radius: var(--border-radius-large);
-			margin-bottom: 24px;
-			box-shadow: var(--box-shadow-large);
-			border: 1px solid var(--color-border-teal);
-			position: relative;
-			overflow: hidden;
-		}
-		
-		.header::before {
-			content: '';
-			position: absolute;
-			top: 0;
-			left: 0;
-			right: 0;
-			height: 6px;
-			background: var(--gradient-teal-gold);
-			border-radius: var(--border-radius-large) var(--border-radius-large) 0 0;
-		}
-		
-		.header-top {
-			display: flex;
-			justify-content: space-between;
-			align-items: center;
-			margin-bottom: 20px;
-		}
-		
-		h1 { 
-			color: var(--color-text); 
-			margin: 0;
-			font-size: 2rem;
-			font-weight: 700;
-			text-shadow: 0 2px 4px var(--shadow-teal);
-		}
-		
-		.user-info {
-			background: var(--gradient-primary);
-			color: var(--color-text-inverse);
-			padding: 12px 20px;
-			border-radius: var(--border-radius);
-			font-size: 14px;
-			font-weight: 600;
-			box-shadow: var(--box-shadow);
-		}
-		
-		.stats {
-			display: grid;
-			grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
-			gap: 16px;
-			margin-bottom: 20px;
-		}
-		
-		.stat {
-			background: var(--gradient-primary);
-			color: var(--color-text-inverse);
-			padding: 16px 20px;
-			border-radius: var(--border-radius);
-			font-weight: 600;
-			text-align: center;
-			box-shadow: var(--box-shadow);
-			transition: var(--transition);
-		}
-		
-		.stat:hover {
-			transform: translateY(-2px);
-			box-shadow: var(--box-shadow-large);
-		}
-		
-		.stat-number {
-			font-size: 1.5rem;
-			font-weight: 700;
-			display: block;
-		}
-		
-		.refresh-btn {
-			background: var(--gradient-accent);
-			color: var(--color-text-inverse);
-			padding: 14px 24px;
-			text-decoration: none;
-			border-radius: var(--border-radius);
-			display: inline-block;
-			font-weight: 600;
-			transition: var(--transition);
-			box-shadow: var(--box-shadow);
-			text-transform: uppercase;
-			letter-spacing: 0.5px;
-		}
-		
-		.refresh-btn:hover {
-			transform: translateY(-2px);
-			box-shadow: var(--box-shadow-large);
-		}
-		
-		.table-container {
-			background: var(--color-surface);
-			border-radius: var(--border-radius-large);
-			overflow: hidden;
-			box-shadow: var(--box-shadow-large);
-			border: 1px solid var(--color-border-teal);
-		}
-		
-		table { 
-			width: 100%; 
-			border-collapse: collapse; 
-		}
-		
-		th, td { 
-			padding: 16px 12px; 
-			text-align: left; 
-		}
-		
-		th { 
-			background: var(--gradient-dark); 
-			color: var(--color-text-inverse);
-			font-weight: 600;
-			font-size: 0.95rem;
-			text-transform: uppercase;
-			letter-spacing: 0.5px;
-		}
-		
-		.submission-row {
-			border-bottom: 1px solid var(--color-border);
-			transition: var(--transition);
-		}
-		
-		.submission-row:nth-child(even) { 
-			background: var(--color-surface-teal); 
-		}
-		
-		.submission-row:hover {
-			background: var(--color-surface-gold);
-			transform: scale(1.01);
-		}
-		
-		.name-cell {
-			font-weight: 600;
-			color: var(--color-text);
-		}
-		
-		.service-badge {
-			background: var(--gradient-primary);
-			color: var(--color-text-inverse);
-			padding: 4px 12px;
-			border-radius: 20px;
-			font-size: 0.85rem;
-			font-weight: 600;
-		}
-		
-		.message-preview {
-			color: var(--color-text-light);
-			font-style: italic;
-		}
-		
-		.no-data {
-			color: var(--color-text-light);
-			font-style: italic;
-		}
-		
-		.status-form {
-			display: inline-block;
-		}
-		
-		.status-select {
-			padding: 8px 12px;
-			border: 2px solid var(--color-border);
-			border-radius: var(--border-radius);
-			font-weight: 600;
-			transition: var(--transition);
-			background: var(--color-surface);
-		}
-		
-		.status-select:hover {
-			border-color: var(--color-primary);
-		}
-		
-		.status-select.new { 
-			background: var(--color-warning-bg);
-			border-color: var(--color-warning);
-			color: var(--color-warning);
-		}
-		
-		.status-select.in_progress { 
-			background: var(--color-surface-teal);
-			border-color: var(--color-primary);
-			color: var(--color-primary);
-		}
-		
-		.status-select.resolved { 
-			background: var(--color-surface);
-			border-color: var(--color-success);
-			color: var(--color-success);
-		}
-		
-		.status-select.cancelled { 
-			background: var(--color-error-bg);
-			border-color: var(--color-error);
-			color: var(--color-error);
-		}
-		
-		.empty-state {
-			text-align: center;
-			padding: 60px 40px;
-			background: var(--color-surface);
-			margin-top: 24px;
-			border-radius: var(--border-radius-large);
-			box-shadow: var(--box-shadow-large);
-			border: 1px solid var(--color-border-teal);
-		}
-		
-		.empty-state h3 {
-			color: var(--color-text);
-			font-size: 1.5rem;
-			margin-bottom: 16px;
-		}
-		
-		.empty-state p {
-			color: var(--color-text-light);
-			margin-bottom: 24px;
-		}
-		
-		.empty-state a {
-			background: var(--gradient-teal-gold);
-			color: var(--color-text-inverse);
-			padding: 14px 28px;
-			text-decoration: none;
-			border-radius: var(--border-radius);
-			font-weight: 600;
-			transition: var(--transition);
-			box-shadow: var(--box-shadow);
-		}
-		
-		.empty-state a:hover {
-			transform: translateY(-2px);
-			box-shadow: var(--box-shadow-large);
-		}
-		
-		/* Mobile optimizations */
-		@media (max-width: 1024px) {
-			body {
-				margin: 15px;
-			}
-			
-			.header {
-				padding: 20px;
-			}
-			
-			.header-top {
-				flex-direction: column;
-				gap: 16px;
-				align-items: stretch;
-			}
-			
-			h1 {
-				font-size: 1.5rem;
-				text-align: center;
-			}
-			
-			.stats {
-				grid-template-columns: repeat(2, 1fr);
-			}
-			
-			.table-container {
-				overflow-x: auto;
-			}
-			
-			table {
-				min-width: 800px;
-			}
-			
-			th, td {
-				padding: 12px 8px;
-				font-size: 0.9rem;
-			}
+async function handleExport(request: Request, env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser, url: URL) {
+	try {
+		const format = parseExportFormat(url.searchParams.get('format'));
+		if (!format) {
+			return new Response('Invalid export format', {
+				status: 400,
+				headers: corsHeaders
+			});
 		}
-		
-		@media (max-width: 768px) {
-			.stats {
-				grid-template-columns: 1fr;
-			}
-			
-			th, td {
-				padding: 10px 6px;
-				font-size: 0.85rem;
+		const filters = parseSubmissionFilters(url.searchParams);
+		const defaultSort = getDefaultSort(filters);
+		const sort = parseSort(url.searchParams.get('sort'), defaultSort) ?? defaultSort;
+		const rows = await countSubmissions(env.DB, filters);
+
+		// Exports are audited before the data leaves, like audit log exports
+		await recordAudit(env.DB, getAuditContext(request, user), {
+			action: 'submission.export',
+			after: { format, filters, rows }
+		});
+		console.log(`Export: ${rows} submissions as ${format} by ${user.email}`);
+
+		return new Response(streamSubmissionExport(env.DB, { filters, sort }, format, config), {
+			headers: {
+				'Content-Type': EXPORT_CONTENT_TYPES[format],
+				'Content-Disposition': `attachment; filename="${getExportFilename(format)}"`,
+				'Cache-Control': 'no-store',
+				...corsHeaders
 			}
+		});
+	} catch (error) {
+		console.error('Export error:', error);
+		return new Response('Export failed', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
+}
+
+async function handleOutbox(env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser, csrfToken: string, url: URL) {
+	try {
+		const status = parseOutboxStatus(url.searchParams.get('status'));
+		const counts = await countOutbox(env.DB);
+		const total = status ? counts[status] : counts.pending + counts.sent + counts.dead;
+		const pageSize = config.admin.pageSize;
+		const pageCount = Math.max(1, Math.ceil(total / pageSize));
+		const page = Math.min(Math.max(Number.parseInt(url.searchParams.get('page') ?? '', 10) || 1, 1), pageCount);
+		const entries = await listOutbox(env.DB, status, pageSize, (page - 1) * pageSize);
+
+		return new Response(getOutboxHTML({ entries, status, counts, page, pageCount }, user, config, csrfToken), {
+			headers: { 'Content-Type': 'text/html', ...corsHeaders }
+		});
+	} catch (error) {
+		console.error('Outbox error:', error);
+		return new Response('Internal Server Error', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
+}
+
+async function handleOutboxResend(request: Request, env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser, id: number) {
+	try {
+		const entry = await requeueOutboxEntry(env.DB, id, getAuditContext(request, user));
+		if (!entry) {
+			return new Response('Message not found', {
+				status: 404,
+				headers: corsHeaders
+			});
 		}
-		.user-info {
-			background: #34495e;
-			color: white;
-			padding: 8px 15px;
-			border-radius: 4px;
-			font-size: 14px;
-			font-weight: 500;
+
+		// Try straight away; if it fails again the cron keeps retrying
+		const sent = await deliverOutboxEntry(env.DB, getMailer(env, config), entry, config);
+		console.log(`Outbox re-send ${sent ? 'sent' : 'failed'}: ${id} by ${user.email}`);
+
+		return new Response('', {
+			status: 302,
+			headers: { 'Location': '/admin/outbox', ...corsHeaders }
+		});
+	} catch (error) {
+		console.error('Outbox re-send error:', error);
+		return new Response('Re-send failed', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
+}
+
+/**
+ * A template rendered against a sample submission: the HTML email, or its
+ * subject and text with ?format=text
+ */
+function handleTemplatePreview(corsHeaders: Record<string, string>, config: typeof CONFIG, url: URL) {
+	const name = parseTemplateName(url.searchParams.get('template'));
+	if (!name) {
+		return new Response('Unknown template', {
+			status: 400,
+			headers: corsHeaders
+		});
+	}
+
+	const preview = renderTemplatePreview(name, url.searchParams.get('service_type'), config, config.admin.publicUrl || url.origin);
+	if (url.searchParams.get('format') === 'text') {
+		return new Response(`Subject: ${preview.subject}\n\n${preview.text}`, {
+			headers: { 'Content-Type': 'text/plain; charset=utf-8', ...corsHeaders }
+		});
+	}
+	return new Response(preview.html, {
+		headers: { 'Content-Type': 'text/html', ...corsHeaders }
+	});
+}
+
+async function handleWebhooks(env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser, csrfToken: string, url: URL) {
+	try {
+		const status = parseWebhookStatus(url.searchParams.get('status'));
+		const counts = await countWebhookDeliveries(env.DB);
+		const total = status ? counts[status] : counts.pending + counts.delivered + counts.dead;
+		const pageSize = config.admin.pageSize;
+		const pageCount = Math.max(1, Math.ceil(total / pageSize));
+		const page = Math.min(Math.max(Number.parseInt(url.searchParams.get('page') ?? '', 10) || 1, 1), pageCount);
+		const entries = await listWebhookDeliveries(env.DB, status, pageSize, (page - 1) * pageSize);
+
+		return new Response(getWebhooksHTML({ entries, status, counts, page, pageCount }, user, config, csrfToken), {
+			headers: { 'Content-Type': 'text/html', ...corsHeaders }
+		});
+	} catch (error) {
+		console.error('Webhooks error:', error);
+		return new Response('Internal Server Error', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
+}
+
+async function handleWebhookTest(request: Request, env: Env, corsHeaders: Record<string, string>, config: typeof CONFIG, user: CloudflareAccessUser) {
+	try {
+		const formData = await request.formData();
+		const name = formData.get('endpoint')?.toString() ?? '';
+
+		const result = await sendTestWebhook(env.DB, name, env.WEBHOOK_SECRET, getAuditContext(request, user), config);
+		if (!result) {
+			return new Response('Unknown webhook endpoint', {
+				status: 404,
+				headers: corsHeaders
+			});
 		}
-	</style>
-</head>
-<body>
-	<div class="header">
-		<div class="header-top">
-			<h1>${config.company.emoji} ${config.company.name} - ${config.admin.title}</h1>
-			${user ? `<div class="user-info">👤 ${user.email}</div>` : ''}
-		</div>
-		
-		<div class="stats">
-			<div class="stat">
-				<span class="stat-number">${submissions.length}</span>
-				Total Submissions
-			</div>
-			<div class="stat">
-				<span class="stat-number">${submissions.filter(s => s.status === 'new').length}</span>
-				New
-			</div>
-			<div class="stat">
-				<span class="stat-number">${submissions.filter(s => s.status === 'in_progress').length}</span>
-				In Progress
-			</div>
-			<div class="stat">
-				<span class="stat-number">${submissions.filter(s => s.status === 'resolved').length}</span>
-				Resolved
-			</div>
-		</div>
-		
-		<a href="/admin" class="refresh-btn">🔄 Refresh Data</a>
-	</div>
-
-	<div class="table-container">
-		<table>
-			<thead>
-				<tr>
-					<th>${config.admin.columns.name}</th>
-					<th>${config.admin.columns.email}</th>
-					<th>${config.admin.columns.phone}</th>
-					<th>${config.admin.columns.service}</th>
-					<th>${config.admin.columns.message}</th>
-					<th>${config.admin.columns.status}</th>
-					<th>${config.admin.columns.date}</th>
-				</tr>
-			</thead>
-			<tbody>
-				${submissionRows}
-			</tbody>
-		</table>
-	</div>
-
-	${submissions.length === 0 ? `
-		<div class="empty-state">
-			<h3>${config.admin.emptyState.title}</h3>
-			<p>${config.admin.emptyState.message}</p>
-			<a href="/">${config.admin.emptyState.buttonText}</a>
-		</div>
-	` : ''}
-</body>
-</html>`;
+		console.log(`Webhook test ${result.delivered ? 'delivered' : 'failed'}: ${name} by ${user.email}`);
+
+		// The outcome shows at the top of the delivery log
+		return new Response('', {
+			status: 302,
+			headers: { 'Location': '/admin/webhooks', ...corsHeaders }
+		});
+	} catch (error) {
+		console.error('Webhook test error:', error);
+		return new Response('Test failed', {
+			status: 500,
+			headers: corsHeaders
+		});
+	}
 }
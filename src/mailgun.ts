@@ -0,0 +1,61 @@
+/**
+ * Email through the Mailgun HTTP API (MG_DOMAIN / MG_API_KEY)
+ */
+
+import type { EmailTransport, OutgoingEmail } from './email';
+import type { Env } from './types';
+
+/**
+ * Mailgun as an EmailTransport (see email.ts), sending as `sender` unless a message sets its own from
+ */
+export function createMailgunTransport(env: Env, sender: string): EmailTransport {
+	return { name: 'mailgun', send: (message) => sendMailgunEmail(env, { ...message, from: message.from ?? sender }) };
+}
+
+/**
+ * Send one message. Failures are logged, never thrown, so a mail outage
+ * cannot break the request that triggered it.
+ *
+ * @returns whether Mailgun accepted the message
+ */
+export async function sendMailgunEmail(env: Env, message: OutgoingEmail & { from: string }): Promise<boolean> {
+	try {
+		const domain = env.MG_DOMAIN;
+		console.log(`🐝 Sending Mailgun email via domain: ${domain}`);
+		const params = new URLSearchParams({
+			from: message.from,
+			to: message.to.join(', '),
+			subject: message.subject,
+			text: message.text,
+		});
+		if (message.cc?.length) {
+			params.set('cc', message.cc.join(', '));
+		}
+		if (message.html) {
+			params.set('html', message.html);
+		}
+		if (message.replyTo) {
+			params.set('h:Reply-To', message.replyTo);
+		}
+		for (const [name, value] of Object.entries(message.headers ?? {})) {
+			params.set(`h:${name}`, value);
+		}
+		const response = await fetch(`https://api.mailgun.net/v3/${domain}/messages`, {
+			method: 'POST',
+			headers: {
+				Authorization: 'Basic ' + btoa(`api:${env.MG_API_KEY}`),
+				'Content-Type': 'application/x-www-form-urlencoded',
+			},
+			body: params.toString(),
+		});
+		if (!response.ok) {
+			console.error(`❌ Email failed: ${response.status} ${response.statusText}`);
+			return false;
+		}
+		console.log(`✅ Mailgun email sent: ${response.status}`);
+		return true;
+	} catch (error) {
+		console.error('Error sending Mailgun email:', error);
+		return false;
+	}
+}
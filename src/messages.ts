@@ -0,0 +1,147 @@
+/**
+ * Email conversation with a submitter (messages table)
+ *
+ * Every submission has a synthetic thread root, <submission.ID@MG_DOMAIN>. The
+ * first reply answers it and later replies answer the latest message, so mail
+ * clients thread the conversation. Replies also set Reply-To: support+ID@, so
+ * the customer's answer can be matched back to the submission (see inbound.ts)
+ * by address or by its In-Reply-To / References headers.
+ */
+
+import { auditStatement, type AuditContext } from './audit';
+import { CONFIG } from './config';
+import { formatMailbox, getMailDomain, type EmailTransport } from './email';
+import { applySubmissionChanges, type SubmissionChangeResult } from './submissions';
+import type { Env, MessageRow, SubmissionRow } from './types';
+
+export const MAX_REPLY_LENGTH = 20000;
+export const MAX_SUBJECT_LENGTH = 200;
+
+export interface ReplyInput {
+	subject: string;
+	body: string;
+	markInProgress: boolean;
+}
+
+export interface ReplyResult {
+	message: MessageRow;
+	sent: boolean;
+	change: SubmissionChangeResult | null; // Set when the reply moved the submission to in_progress
+}
+
+/**
+ * The Message-ID every thread for this submission hangs off
+ */
+export function getThreadRootId(submissionId: string, domain: string): string {
+	return `<submission.${encodeURIComponent(submissionId)}@${domain}>`;
+}
+
+/**
+ * Submission id from a thread root Message-ID, or null for any other id
+ */
+export function parseThreadRootId(messageId: string): string | null {
+	const match = messageId.trim().match(/^<submission\.([^@>]+)@[^>]+>$/);
+	return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * The address customers reply to for a submission, e.g. support+<id>@MG_DOMAIN
+ */
+export function getReplyAddress(submissionId: string, domain: string, config: typeof CONFIG): string {
+	return `${config.email.replyAddress}+${submissionId}@${domain}`;
+}
+
+/**
+ * Submission id from a support+<id>@ recipient, or null
+ */
+export function getReplyToken(recipient: string, config: typeof CONFIG): string | null {
+	const [local, token] = recipient.trim().toLowerCase().split('@')[0].split('+', 2);
+	return local === config.email.replyAddress.toLowerCase() && token ? token : null;
+}
+
+export async function listMessages(db: D1Database, submissionId: string): Promise<MessageRow[]> {
+	const { results } = await db
+		.prepare('SELECT * FROM messages WHERE submission_id = ? ORDER BY created_at, id')
+		.bind(submissionId)
+		.all<MessageRow>();
+	return results;
+}
+
+/**
+ * Subject and body the composer starts with
+ */
+export function getReplyDefaults(submission: SubmissionRow, config: typeof CONFIG): { subject: string; body: string } {
+	const fill = (template: string) => template.replaceAll('{service}', submission.service_type).replaceAll('{company}', config.company.name);
+	const template = config.email.templates.customerReply;
+	return { subject: fill(template.subject), body: `Hi ${submission.name},\n\n\n\n${fill(template.footer)}` };
+}
+
+/**
+ * Check a reply before sending
+ * @returns an error message, or null when the reply can be sent
+ */
+export function validateReply(submission: SubmissionRow, input: ReplyInput): string | null {
+	if (!submission.email) {
+		return 'This submission has no email address to reply to';
+	}
+	if (!input.subject || input.subject.length > MAX_SUBJECT_LENGTH) {
+		return `Subject is required and limited to ${MAX_SUBJECT_LENGTH} characters`;
+	}
+	if (!input.body || input.body.length > MAX_REPLY_LENGTH) {
+		return `Message is required and limited to ${MAX_REPLY_LENGTH} characters`;
+	}
+	return null;
+}
+
+/**
+ * Email a reply to the submitter and store it, sent or not (failed without a transport).
+ * On success the submission can move from "new" to "in_progress".
+ * Call validateReply first.
+ */
+export async function sendReply(
+	env: Env,
+	mailer: EmailTransport | null,
+	submission: SubmissionRow,
+	input: ReplyInput,
+	context: AuditContext,
+	config: typeof CONFIG,
+): Promise<ReplyResult> {
+	const domain = getMailDomain(env);
+	const thread = await listMessages(env.DB, submission.id);
+	const root = getThreadRootId(submission.id, domain);
+	const inReplyTo = thread.length > 0 ? thread[thread.length - 1].message_id : root;
+	// The root plus the most recent ids keeps the header short on long threads.
+	// An acknowledgement email is the root itself, so it's listed once.
+	const references = [...new Set([root, ...thread.slice(-9).map((message) => message.message_id)])].join(' ');
+	const messageId = `<${crypto.randomUUID()}@${domain}>`;
+	const from = formatMailbox(config.company.name, `${config.email.replyAddress}@${domain}`);
+
+	const sent = mailer !== null && (await mailer.send({
+		from,
+		to: [submission.email!],
+		subject: input.subject,
+		text: input.body,
+		replyTo: getReplyAddress(submission.id, domain, config),
+		headers: { 'Message-Id': messageId, 'In-Reply-To': inReplyTo, References: references },
+	}));
+
+	const status = sent ? 'sent' : 'failed';
+	const [inserted] = await env.DB.batch<MessageRow>([
+		env.DB.prepare(`
+			INSERT INTO messages (submission_id, direction, message_id, in_reply_to, from_address, to_address, subject, body, sent_by, status)
+			VALUES (?, 'outbound', ?, ?, ?, ?, ?, ?, ?, ?)
+			RETURNING *
+		`).bind(submission.id, messageId, inReplyTo, from, submission.email, input.subject, input.body, context.actor, status),
+		auditStatement(env.DB, context, {
+			action: 'submission.reply',
+			targetId: submission.id,
+			after: { message_id: messageId, subject: input.subject, status },
+		}),
+	]);
+
+	const change = sent && input.markInProgress && submission.status === 'new'
+		? await applySubmissionChanges(env.DB, submission.id, { status: 'in_progress' }, context)
+		: null;
+
+	return { message: inserted.results[0], sent, change };
+}
@@ -0,0 +1,207 @@
+/**
+ * Outbox for notification emails (outbox table)
+ *
+ * Notifications are written here before anything is sent, so a mail outage
+ * delays them instead of losing them. The request that queued a message tries
+ * it once in the background (ctx.waitUntil); the cron trigger retries failures
+ * with exponential backoff, and after CONFIG.email.outbox.maxAttempts the
+ * message is dead-lettered until an admin re-sends it.
+ *
+ * A sender first claims a row by pushing next_attempt_at past its lease, so the
+ * background attempt and the cron never send the same message twice at once.
+ */
+
+import { auditStatement, type AuditContext } from './audit';
+import { CONFIG } from './config';
+import type { EmailTransport, OutgoingEmail } from './email';
+
+export const OUTBOX_STATUSES = ['pending', 'sent', 'dead'] as const;
+export type OutboxStatus = (typeof OUTBOX_STATUSES)[number];
+
+export const OUTBOX_KINDS = ['admin_notification'] as const;
+export type OutboxKind = (typeof OUTBOX_KINDS)[number];
+
+// How long a claimed message is hidden from other senders
+const CLAIM_LEASE_SECONDS = 300;
+// Messages one cron run sends at most
+const OUTBOX_BATCH_SIZE = 25;
+
+/**
+ * A row of the outbox table
+ */
+export interface OutboxRow {
+	id: number;
+	kind: OutboxKind;
+	submission_id: string | null;
+	recipients: string; // Comma-separated To and CC, for display and filtering
+	subject: string;
+	payload: string; // JSON OutgoingEmail
+	status: OutboxStatus;
+	attempts: number;
+	last_error: string | null;
+	next_attempt_at: string; // D1 datetime
+	sent_at: string | null;
+	created_at: string;
+}
+
+/**
+ * Store a message for delivery
+ */
+export async function enqueueEmail(db: D1Database, kind: OutboxKind, submissionId: string | null, message: OutgoingEmail): Promise<OutboxRow> {
+	const row = await db
+		.prepare(`
+			INSERT INTO outbox (kind, submission_id, recipients, subject, payload, status, next_attempt_at)
+			VALUES (?, ?, ?, ?, ?, 'pending', datetime('now'))
+			RETURNING *
+		`)
+		.bind(kind, submissionId, [...message.to, ...(message.cc ?? [])].join(', '), message.subject, JSON.stringify(message))
+		.first<OutboxRow>();
+	return row!;
+}
+
+/**
+ * Retry settings of a queue (CONFIG.email.outbox, CONFIG.webhooks)
+ */
+export interface RetryPolicy {
+	maxAttempts: number;
+	retryDelaySeconds: number;
+	maxRetryDelaySeconds: number;
+}
+
+/**
+ * Delay before retrying after a failed attempt: retryDelaySeconds, doubling
+ * each time, capped at maxRetryDelaySeconds
+ */
+export function getBackoffSeconds(attempts: number, policy: RetryPolicy): number {
+	return Math.min(policy.retryDelaySeconds * 2 ** Math.max(attempts - 1, 0), policy.maxRetryDelaySeconds);
+}
+
+export function getRetryDelaySeconds(attempts: number, config: typeof CONFIG): number {
+	return getBackoffSeconds(attempts, config.email.outbox);
+}
+
+/**
+ * Claim and send one message, recording the outcome
+ * @returns whether it was sent; false too when another sender holds it
+ */
+export async function deliverOutboxEntry(db: D1Database, mailer: EmailTransport | null, entry: OutboxRow, config: typeof CONFIG): Promise<boolean> {
+	const claim = await db
+		.prepare(`
+			UPDATE outbox SET next_attempt_at = datetime('now', ?)
+			WHERE id = ? AND status = 'pending' AND next_attempt_at <= datetime('now')
+		`)
+		.bind(`+${CLAIM_LEASE_SECONDS} seconds`, entry.id)
+		.run();
+	if (claim.meta.changes === 0) {
+		return false;
+	}
+
+	const message = JSON.parse(entry.payload) as OutgoingEmail;
+	const sent = mailer !== null && (await mailer.send(message));
+	const attempts = entry.attempts + 1;
+	if (sent) {
+		await db
+			.prepare(`UPDATE outbox SET status = 'sent', attempts = ?, last_error = NULL, sent_at = datetime('now') WHERE id = ?`)
+			.bind(attempts, entry.id)
+			.run();
+		return true;
+	}
+
+	// Keep the recipients a partial send reached, so they don't get the message twice
+	if (message.delivered?.length) {
+		await db.prepare(`UPDATE outbox SET payload = ? WHERE id = ?`).bind(JSON.stringify(message), entry.id).run();
+	}
+
+	const error = mailer ? `${mailer.name} did not accept the message` : 'No email transport configured';
+	if (attempts >= config.email.outbox.maxAttempts) {
+		console.error(`Outbox ${entry.id} dead-lettered after ${attempts} attempts: ${error}`);
+		await db
+			.prepare(`UPDATE outbox SET status = 'dead', attempts = ?, last_error = ? WHERE id = ?`)
+			.bind(attempts, error, entry.id)
+			.run();
+	} else {
+		const delay = getRetryDelaySeconds(attempts, config);
+		console.warn(`Outbox ${entry.id} attempt ${attempts} failed, retrying in ${delay}s: ${error}`);
+		await db
+			.prepare(`UPDATE outbox SET attempts = ?, last_error = ?, next_attempt_at = datetime('now', ?) WHERE id = ?`)
+			.bind(attempts, error, `+${delay} seconds`, entry.id)
+			.run();
+	}
+	return false;
+}
+
+/**
+ * Send every message that is due (the cron trigger)
+ * @returns how many were sent
+ */
+export async function processOutbox(db: D1Database, mailer: EmailTransport | null, config: typeof CONFIG): Promise<number> {
+	const { results } = await db
+		.prepare(`SELECT * FROM outbox WHERE status = 'pending' AND next_attempt_at <= datetime('now') ORDER BY next_attempt_at, id LIMIT ?`)
+		.bind(OUTBOX_BATCH_SIZE)
+		.all<OutboxRow>();
+
+	let sent = 0;
+	for (const entry of results) {
+		if (await deliverOutboxEntry(db, mailer, entry, config)) {
+			sent++;
+		}
+	}
+	if (results.length > 0) {
+		console.log(`Outbox: sent ${sent} of ${results.length} due messages`);
+	}
+	return sent;
+}
+
+export async function getOutboxEntry(db: D1Database, id: number): Promise<OutboxRow | null> {
+	return db.prepare('SELECT * FROM outbox WHERE id = ?').bind(id).first<OutboxRow>();
+}
+
+/**
+ * Put a message back in the queue with a fresh set of attempts, audited
+ * @returns the requeued row, or null when it doesn't exist
+ */
+export async function requeueOutboxEntry(db: D1Database, id: number, context: AuditContext): Promise<OutboxRow | null> {
+	const entry = await getOutboxEntry(db, id);
+	if (!entry) {
+		return null;
+	}
+	await db.batch([
+		db
+			.prepare(`UPDATE outbox SET status = 'pending', attempts = 0, last_error = NULL, next_attempt_at = datetime('now') WHERE id = ?`)
+			.bind(id),
+		auditStatement(db, context, {
+			action: 'outbox.resend',
+			targetId: String(id),
+			before: { status: entry.status, attempts: entry.attempts, last_error: entry.last_error },
+			after: { status: 'pending', kind: entry.kind, submission_id: entry.submission_id },
+		}),
+	]);
+	return { ...entry, status: 'pending', attempts: 0, last_error: null };
+}
+
+/**
+ * Newest first, optionally only one status
+ */
+export async function listOutbox(db: D1Database, status: OutboxStatus | undefined, limit: number, offset = 0): Promise<OutboxRow[]> {
+	const { results } = await db
+		.prepare(`SELECT * FROM outbox ${status ? 'WHERE status = ?' : ''} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+		.bind(...(status ? [status] : []), limit, offset)
+		.all<OutboxRow>();
+	return results;
+}
+
+/**
+ * Message counts by status, for the outbox page's filter tabs
+ */
+export async function countOutbox(db: D1Database): Promise<Record<OutboxStatus, number>> {
+	const { results } = await db.prepare('SELECT status, COUNT(*) AS count FROM outbox GROUP BY status').all<{ status: OutboxStatus; count: number }>();
+	const counts: Record<OutboxStatus, number> = { pending: 0, sent: 0, dead: 0 };
+	for (const row of results) {
+		counts[row.status] = row.count;
+	}
+	return counts;
+}
+
+export function parseOutboxStatus(value: string | null): OutboxStatus | undefined {
+	return OUTBOX_STATUSES.find((status) => status === value);
+}
@@ -0,0 +1,81 @@
+/**
+ * Submission priority levels and SLA response targets
+ *
+ * Levels come from CONFIG.contactForm.priorityLevels. The SLA clock starts at
+ * created_at and only runs while the submission is in one of
+ * CONFIG.admin.slaStatuses.
+ */
+
+import { CONFIG, type PriorityLevelConfig } from './config';
+
+export interface SlaStatus {
+	dueAt: Date;
+	overdue: boolean;
+	remainingMs: number; // Negative once overdue
+}
+
+/**
+ * Whether a value is one of the configured priority levels
+ */
+export function isValidPriority(value: string, config: typeof CONFIG): boolean {
+	return config.contactForm.priorityLevels.some((level) => level.value === value);
+}
+
+/**
+ * The configured level for a stored priority, falling back to the default level
+ */
+export function getPriorityLevel(value: string | null | undefined, config: typeof CONFIG): PriorityLevelConfig {
+	const levels = config.contactForm.priorityLevels;
+	return (
+		levels.find((level) => level.value === value) ??
+		levels.find((level) => level.value === config.contactForm.defaultPriority) ??
+		levels[0]
+	);
+}
+
+/**
+ * Parse a D1 datetime('now') value ("YYYY-MM-DD HH:MM:SS", UTC) or an ISO string
+ */
+export function parseDbTimestamp(value: string): Date {
+	return new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+}
+
+/**
+ * Convert an ISO date or datetime into D1's "YYYY-MM-DD HH:MM:SS" (UTC) format
+ */
+export function toDbTimestamp(value: string | null | undefined): string | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? undefined : date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * SLA state for a submission, or null when its status isn't tracked
+ */
+export function getSlaStatus(
+	submission: { priority?: string | null; status: string; created_at: string },
+	config: typeof CONFIG,
+	now: number = Date.now(),
+): SlaStatus | null {
+	if (!config.admin.slaStatuses.includes(submission.status)) {
+		return null;
+	}
+	const level = getPriorityLevel(submission.priority, config);
+	const dueAt = new Date(parseDbTimestamp(submission.created_at).getTime() + level.slaHours * 3_600_000);
+	const remainingMs = dueAt.getTime() - now;
+	return { dueAt, overdue: remainingMs < 0, remainingMs };
+}
+
+/**
+ * Compact duration for the dashboard, e.g. "45m", "5h", "3d"
+ */
+export function formatDuration(ms: number): string {
+	const minutes = Math.floor(Math.abs(ms) / 60_000);
+	if (minutes < 60) {
+		return `${minutes}m`;
+	}
+	const hours = Math.floor(minutes / 60);
+	return hours < 48 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+}
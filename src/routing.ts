@@ -0,0 +1,94 @@
+/**
+ * Routing rules for new submissions (CONFIG.routing.rules)
+ *
+ * Rules are checked in order when a submission arrives through a form. A rule
+ * fires when every condition it sets matches; a condition with several values
+ * matches if any of them does. Fired rules can send the admin notification to
+ * other recipients, copy people in, assign the submission and set its initial
+ * priority. Recipients and CC lists of all fired rules are combined; the first
+ * fired rule that sets an assignee or priority wins. A rule with stop: true
+ * ends the evaluation. The names of the fired rules are stored on the
+ * submission (submissions.routing_rules) and shown on its detail page.
+ */
+
+import { CONFIG, type RoutingRule } from './config';
+import type { FormSubmission } from './types';
+
+export interface RoutingResult {
+	rules: string[]; // Names of the rules that fired, in order
+	recipients: string[]; // Empty when the default recipients should get the notification
+	cc: string[];
+	assignTo: string | null;
+	priority: string | null;
+}
+
+/**
+ * Run the rules against a new submission
+ */
+export function applyRoutingRules(submission: FormSubmission, config: typeof CONFIG): RoutingResult {
+	const result: RoutingResult = { rules: [], recipients: [], cc: [], assignTo: null, priority: null };
+	for (const rule of config.routing.rules) {
+		if (!matchesRule(rule, submission)) {
+			continue;
+		}
+		const { actions } = rule;
+		result.rules.push(rule.name);
+		result.recipients = addUnique(result.recipients, actions.recipients);
+		result.cc = addUnique(result.cc, actions.cc);
+		result.assignTo ??= actions.assignTo?.trim().toLowerCase() || null;
+		result.priority ??= actions.priority ?? null;
+		if (rule.stop) {
+			break;
+		}
+	}
+	// Nobody needs a copy of what they already receive
+	result.cc = result.cc.filter((address) => !result.recipients.includes(address));
+	return result;
+}
+
+/**
+ * Whether every condition the rule sets matches the submission
+ */
+export function matchesRule(rule: RoutingRule, submission: FormSubmission): boolean {
+	const { serviceTypes, priorities, forms, keywords, emailDomains } = rule.match;
+	const domain = submission.email?.split('@').pop()?.toLowerCase() ?? '';
+	return (
+		(!serviceTypes || serviceTypes.includes(submission.service_type)) &&
+		(!priorities || priorities.includes(submission.priority ?? '')) &&
+		(!forms || forms.includes(submission.form_id)) &&
+		(!keywords || keywords.some((keyword) => containsWord(submission.message, keyword))) &&
+		(!emailDomains || (domain !== '' && emailDomains.some((allowed) => isDomainOrSubdomain(domain, allowed.toLowerCase()))))
+	);
+}
+
+/**
+ * Fired rule names stored in submissions.routing_rules
+ */
+export function parseRoutingRules(json: string | null | undefined): string[] {
+	if (!json) {
+		return [];
+	}
+	try {
+		const parsed = JSON.parse(json);
+		return Array.isArray(parsed) ? parsed.filter((name): name is string => typeof name === 'string') : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Case-insensitive match of a word or phrase, so "bug" doesn't match "debug"
+ */
+function containsWord(text: string, keyword: string): boolean {
+	const pattern = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+	return pattern !== '' && new RegExp(`(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+function isDomainOrSubdomain(domain: string, allowed: string): boolean {
+	return domain === allowed || domain.endsWith(`.${allowed}`);
+}
+
+function addUnique(list: string[], additions: string[] | undefined): string[] {
+	const added = (additions ?? []).map((address) => address.trim()).filter((address) => address && !list.includes(address));
+	return [...list, ...added];
+}
@@ -0,0 +1,185 @@
+/**
+ * Anti-abuse pipeline for POST /submit
+ *
+ * Each check inspects the submission and returns a verdict when it should be
+ * rejected. Checks run in order and the first verdict wins; rejected submissions
+ * are still stored (status "spam") so nothing is silently dropped.
+ */
+
+import { CONFIG } from './config';
+import type { Env } from './types';
+
+export const FORM_TIMESTAMP_FIELD = '_ts';
+export const TURNSTILE_RESPONSE_FIELD = 'cf-turnstile-response';
+
+const TURNSTILE_VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+export interface SpamCheckContext {
+	formData: FormData;
+	ip: string | null;
+	name: string;
+	email?: string;
+	message: string;
+	env: Env;
+	config: typeof CONFIG;
+	now: number; // Milliseconds since epoch
+	fetcher?: typeof fetch; // Override for tests
+}
+
+/**
+ * How the submitter is answered when a check rejects them:
+ * - silent: show the normal success page so bots learn nothing
+ * - rate_limited: 429 with a retry-later message
+ * - challenge_failed: 400 asking the human to try again
+ */
+export type SpamResponse = 'silent' | 'rate_limited' | 'challenge_failed';
+
+export interface SpamVerdict {
+	check: string;
+	reason: string;
+	response: SpamResponse;
+}
+
+export interface SpamCheck {
+	name: string;
+	enabled?: (config: typeof CONFIG) => boolean;
+	run: (context: SpamCheckContext) => Promise<SpamVerdict | null> | SpamVerdict | null;
+}
+
+export const honeypotCheck: SpamCheck = {
+	name: 'honeypot',
+	run: ({ formData, config }) => {
+		const value = formData.get(config.spamProtection.honeypotField)?.toString();
+		return value ? { check: 'honeypot', reason: 'Honeypot field was filled in', response: 'silent' } : null;
+	},
+};
+
+export const fillTimeCheck: SpamCheck = {
+	name: 'fill_time',
+	run: ({ formData, config, now }) => {
+		const renderedAt = Number(formData.get(FORM_TIMESTAMP_FIELD)?.toString());
+		if (!Number.isFinite(renderedAt) || renderedAt <= 0) {
+			return { check: 'fill_time', reason: 'Missing form timestamp', response: 'silent' };
+		}
+		const elapsedSeconds = (now - renderedAt) / 1000;
+		if (elapsedSeconds < config.spamProtection.minFillTimeSeconds) {
+			return { check: 'fill_time', reason: `Form completed in ${elapsedSeconds.toFixed(1)}s`, response: 'silent' };
+		}
+		return null;
+	},
+};
+
+export const rateLimitCheck: SpamCheck = {
+	name: 'rate_limit',
+	run: async ({ ip, env, config }) => {
+		if (!ip) {
+			return null;
+		}
+		const { maxSubmissions, windowMinutes } = config.spamProtection.rateLimit;
+		const row = await env.DB.prepare(`
+			SELECT COUNT(*) AS count FROM submissions
+			WHERE ip_address = ? AND created_at > datetime('now', ?)
+		`).bind(ip, `-${windowMinutes} minutes`).first<{ count: number }>();
+
+		if ((row?.count ?? 0) >= maxSubmissions) {
+			return { check: 'rate_limit', reason: `More than ${maxSubmissions} submissions in ${windowMinutes} minutes`, response: 'rate_limited' };
+		}
+		return null;
+	},
+};
+
+export const turnstileCheck: SpamCheck = {
+	name: 'turnstile',
+	enabled: (config) => config.features.enableTurnstile,
+	run: async ({ formData, ip, env, fetcher }) => {
+		const token = formData.get(TURNSTILE_RESPONSE_FIELD)?.toString();
+		if (!token) {
+			return { check: 'turnstile', reason: 'Missing Turnstile token', response: 'challenge_failed' };
+		}
+		if (!env.TURNSTILE_SECRET_KEY) {
+			console.error('Turnstile is enabled but TURNSTILE_SECRET_KEY is not set');
+			return { check: 'turnstile', reason: 'Turnstile secret not configured', response: 'challenge_failed' };
+		}
+
+		const body = new URLSearchParams({ secret: env.TURNSTILE_SECRET_KEY, response: token });
+		if (ip) {
+			body.set('remoteip', ip);
+		}
+		let result: { success: boolean; 'error-codes'?: string[] };
+		try {
+			const response = await (fetcher ?? fetch)(TURNSTILE_VERIFY_URL, { method: 'POST', body });
+			result = await response.json();
+		} catch (error) {
+			// Siteverify down or answering garbage: ask the human to retry rather than failing the submission
+			console.error('Turnstile verification request failed:', error);
+			return { check: 'turnstile', reason: 'Turnstile verification unavailable', response: 'challenge_failed' };
+		}
+
+		if (!result.success) {
+			const codes = result['error-codes']?.join(', ') || 'unknown error';
+			return { check: 'turnstile', reason: `Turnstile verification failed: ${codes}`, response: 'challenge_failed' };
+		}
+		return null;
+	},
+};
+
+export const contentScoreCheck: SpamCheck = {
+	name: 'content_score',
+	run: ({ name, email, message, config }) => {
+		const score = scoreContent(`${name}\n${email ?? ''}\n${message}`, config);
+		if (score.total >= config.spamProtection.contentScoring.threshold) {
+			return { check: 'content_score', reason: `Content score ${score.total}: ${score.signals.join(', ')}`, response: 'silent' };
+		}
+		return null;
+	},
+};
+
+// Traps only bots fall into; POST /submit runs these before field validation,
+// so a bot is recorded as spam even when what it filled in doesn't validate (rate limiting still applies)
+export const BOT_TRAP_CHECKS: SpamCheck[] = [honeypotCheck, fillTimeCheck];
+
+// Checks of a valid submission: cheap local ones first, network checks (D1, Turnstile) afterwards
+export const SUBMISSION_SPAM_CHECKS: SpamCheck[] = [contentScoreCheck, rateLimitCheck, turnstileCheck];
+
+export const DEFAULT_SPAM_CHECKS: SpamCheck[] = [...BOT_TRAP_CHECKS, ...SUBMISSION_SPAM_CHECKS];
+
+/**
+ * Run the pipeline and return the first rejection, if any
+ */
+export async function runSpamChecks(context: SpamCheckContext, checks: SpamCheck[] = DEFAULT_SPAM_CHECKS): Promise<SpamVerdict | null> {
+	for (const check of checks) {
+		if (check.enabled && !check.enabled(context.config)) {
+			continue;
+		}
+		const verdict = await check.run(context);
+		if (verdict) {
+			return verdict;
+		}
+	}
+	return null;
+}
+
+/**
+ * Score free text for common spam signals (link stuffing, banned phrases)
+ */
+export function scoreContent(text: string, config: typeof CONFIG): { total: number; signals: string[] } {
+	const scoring = config.spamProtection.contentScoring;
+	const signals: string[] = [];
+	let total = 0;
+
+	const links = text.match(/https?:\/\/|www\./gi)?.length ?? 0;
+	if (links > scoring.maxLinks) {
+		total += (links - scoring.maxLinks) * scoring.pointsPerExtraLink;
+		signals.push(`${links} links`);
+	}
+
+	const lowerText = text.toLowerCase();
+	for (const phrase of scoring.bannedPhrases) {
+		if (lowerText.includes(phrase.toLowerCase())) {
+			total += scoring.pointsPerBannedPhrase;
+			signals.push(`"${phrase}"`);
+		}
+	}
+
+	return { total, signals };
+}
@@ -0,0 +1,511 @@
+/**
+ * Submission queries shared by the admin dashboard and the JSON API
+ *
+ * Filter and sort columns are whitelisted here and every user-supplied value is
+ * bound, never interpolated. Lists use keyset (cursor) pagination on
+ * (sort value, id), so pages stay stable while new submissions arrive.
+ *
+ * Free-text search goes through the submissions_fts FTS5 table (see schema.sql):
+ * results can be ranked by relevance and carry a highlighted message snippet.
+ */
+
+import { auditStatement, recordAudit, type AuditAction, type AuditContext } from './audit';
+import { CONFIG } from './config';
+import { parseCustomFields, type CustomFieldValues } from './fields';
+import { escapeHtml } from './escape';
+import { getSlaStatus, parseDbTimestamp, toDbTimestamp } from './priority';
+import { parseRoutingRules } from './routing';
+import type { SubmissionEventRow, SubmissionFilters, SubmissionNoteRow, SubmissionRow } from './types';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+export const SORT_FIELDS = ['created_at', 'updated_at', 'priority', 'status', 'name', 'relevance'] as const;
+export type SortField = (typeof SORT_FIELDS)[number];
+
+export interface SubmissionSort {
+	field: SortField;
+	direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_SORT: SubmissionSort = { field: 'created_at', direction: 'desc' };
+
+// Best matches first ("relevance" only applies while searching)
+export const RELEVANCE_SORT: SubmissionSort = { field: 'relevance', direction: 'asc' };
+
+// Marks matched terms in snippets; replaced with <mark> by snippetToHtml
+const SNIPPET_START = '\u0002';
+const SNIPPET_END = '\u0003';
+
+export interface SubmissionListQuery {
+	filters: SubmissionFilters;
+	sort: SubmissionSort;
+	limit: number;
+	cursor?: string | null; // From a previous page's nextCursor
+	offset?: number; // Numbered pages (admin dashboard); ignored when a cursor is given
+}
+
+export interface SubmissionPage {
+	rows: SubmissionRow[];
+	nextCursor: string | null;
+}
+
+/**
+ * Dashboard counters, computed in SQL over all submissions
+ */
+export interface SubmissionStats {
+	total: number;
+	byStatus: Record<string, number>;
+	overdue: number;
+}
+
+/**
+ * Fields an admin can change on a submission
+ */
+export interface SubmissionChanges {
+	status?: string;
+	priority?: string;
+	assigned_to?: string | null;
+}
+
+const EDITABLE_COLUMNS = ['status', 'priority', 'assigned_to'] as const;
+
+/**
+ * A submission before and after applySubmissionChanges
+ */
+export interface SubmissionChangeResult {
+	previous: SubmissionRow;
+	submission: SubmissionRow;
+}
+
+export const MAX_NOTE_LENGTH = 5000;
+
+/**
+ * Submission as returned by the JSON API
+ */
+export interface SubmissionJson extends Omit<SubmissionRow, 'custom_fields' | 'routing_rules' | 'snippet' | 'search_rank'> {
+	custom_fields: CustomFieldValues;
+	routing_rules: string[];
+	snippet?: string; // Search results only: HTML-escaped message excerpt with <mark> around matches
+	sla: { due_at: string; overdue: boolean } | null;
+}
+
+export class InvalidCursorError extends Error {
+	constructor() {
+		super('Invalid cursor');
+		this.name = 'InvalidCursorError';
+	}
+}
+
+/**
+ * Read list filters from a query string (q, form, status, priority, service,
+ * assignee, created_after, created_before). Unparseable dates are dropped.
+ */
+export function parseSubmissionFilters(params: URLSearchParams): SubmissionFilters {
+	const filters: SubmissionFilters = {};
+	const text = (key: string) => params.get(key)?.trim() || undefined;
+
+	filters.search = text('q');
+	filters.form = text('form');
+	filters.status = text('status');
+	filters.priority = text('priority');
+	filters.service = text('service');
+	filters.assignee = text('assignee')?.toLowerCase();
+	filters.createdAfter = toDbTimestamp(params.get('created_after'));
+	filters.createdBefore = toDbTimestamp(params.get('created_before'));
+
+	return Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Query-string form of a set of filters (the inverse of parseSubmissionFilters)
+ */
+export function toFilterParams(filters: SubmissionFilters): URLSearchParams {
+	const params = new URLSearchParams();
+	const entries: [string, string | undefined][] = [
+		['q', filters.search],
+		['form', filters.form],
+		['status', filters.status],
+		['priority', filters.priority],
+		['service', filters.service],
+		['assignee', filters.assignee],
+		['created_after', filters.createdAfter && parseDbTimestamp(filters.createdAfter).toISOString()],
+		['created_before', filters.createdBefore && parseDbTimestamp(filters.createdBefore).toISOString()],
+	];
+	for (const [key, value] of entries) {
+		if (value) {
+			params.set(key, value);
+		}
+	}
+	return params;
+}
+
+/**
+ * Sort key as used in ?sort= ("-created_at" for descending)
+ */
+export function formatSort(sort: SubmissionSort): string {
+	return `${sort.direction === 'desc' ? '-' : ''}${sort.field}`;
+}
+
+/**
+ * Sort used when none is requested: relevance while searching, newest first otherwise
+ */
+export function getDefaultSort(filters: SubmissionFilters): SubmissionSort {
+	return filters.search ? RELEVANCE_SORT : DEFAULT_SORT;
+}
+
+/**
+ * Parse a sort key such as "created_at" or "-priority" (descending)
+ * @returns The sort (the fallback when empty), or null when the field isn't sortable
+ */
+export function parseSort(value: string | null | undefined, fallback: SubmissionSort = DEFAULT_SORT): SubmissionSort | null {
+	if (!value) {
+		return fallback;
+	}
+	const direction = value.startsWith('-') ? 'desc' : 'asc';
+	const field = value.replace(/^-/, '');
+	return (SORT_FIELDS as readonly string[]).includes(field) ? { field: field as SortField, direction } : null;
+}
+
+/**
+ * Fetch one page of submissions
+ * @throws InvalidCursorError when the cursor is malformed or was issued for a different sort
+ */
+export async function listSubmissions(db: D1Database, query: SubmissionListQuery, config: typeof CONFIG): Promise<SubmissionPage> {
+	const { from, where, params } = buildFilterClause(query.filters);
+	const searching = Boolean(query.filters.search);
+	const sort = query.sort.field === 'relevance' && !searching ? DEFAULT_SORT : query.sort;
+
+	const sortKey = `${sort.field}:${sort.direction}`;
+	const sortExpression = getSortExpression(sort.field, config);
+	const operator = sort.direction === 'desc' ? '<' : '>';
+
+	if (query.cursor) {
+		const cursor = decodeCursor(query.cursor, sortKey);
+		where.push(`(${sortExpression.sql}, submissions.id) ${operator} (?, ?)`);
+		params.push(...sortExpression.params, cursor.value, cursor.id);
+	}
+
+	const limit = Math.min(Math.max(query.limit, 1), MAX_PAGE_SIZE);
+	const offset = query.cursor ? 0 : Math.max(query.offset ?? 0, 0);
+	const direction = sort.direction.toUpperCase();
+	const sql = `
+		SELECT submissions.*${searching ? `,
+			snippet(submissions_fts, 2, '${SNIPPET_START}', '${SNIPPET_END}', '…', 24) AS snippet,
+			submissions_fts.rank AS search_rank` : ''}
+		FROM ${from}
+		${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+		ORDER BY ${sortExpression.sql} ${direction}, submissions.id ${direction}
+		LIMIT ?${offset > 0 ? ' OFFSET ?' : ''}
+	`;
+
+	// One extra row tells us whether there is a next page
+	const { results } = await db
+		.prepare(sql)
+		.bind(...params, ...sortExpression.params, limit + 1, ...(offset > 0 ? [offset] : []))
+		.all<SubmissionRow>();
+	const rows = results.slice(0, limit);
+	const last = rows[rows.length - 1];
+
+	return {
+		rows,
+		nextCursor: results.length > limit && last ? encodeCursor(sortKey, getSortValue(last, sort.field, config), last.id) : null,
+	};
+}
+
+/**
+ * Number of submissions matching the filters
+ */
+export async function countSubmissions(db: D1Database, filters: SubmissionFilters): Promise<number> {
+	const { from, where, params } = buildFilterClause(filters);
+	const row = await db
+		.prepare(`SELECT COUNT(*) AS count FROM ${from} ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}`)
+		.bind(...params)
+		.first<{ count: number }>();
+	return row?.count ?? 0;
+}
+
+/**
+ * Totals per status plus the number of submissions past their SLA target
+ */
+export async function getSubmissionStats(db: D1Database, config: typeof CONFIG, now: number = Date.now()): Promise<SubmissionStats> {
+	const slaStatuses = config.admin.slaStatuses;
+	const levels = config.contactForm.priorityLevels;
+
+	// A submission is overdue once created_at is older than now minus its level's SLA
+	const overdueSql = `
+		SELECT COUNT(*) AS count FROM submissions
+		WHERE status IN (${slaStatuses.map(() => '?').join(', ')})
+		AND (${levels.map(() => '(COALESCE(priority, ?) = ? AND created_at < ?)').join(' OR ')})
+	`;
+	const overdueParams = levels.flatMap((level) => [
+		config.contactForm.defaultPriority,
+		level.value,
+		toDbTimestamp(new Date(now - level.slaHours * 3_600_000).toISOString()),
+	]);
+
+	const [statusCounts, overdue] = await Promise.all([
+		db.prepare('SELECT status, COUNT(*) AS count FROM submissions GROUP BY status').all<{ status: string; count: number }>(),
+		db.prepare(overdueSql).bind(...slaStatuses, ...overdueParams).first<{ count: number }>(),
+	]);
+
+	const byStatus: Record<string, number> = {};
+	let total = 0;
+	for (const { status, count } of statusCounts.results) {
+		byStatus[status] = count;
+		total += count;
+	}
+	return { total, byStatus, overdue: overdue?.count ?? 0 };
+}
+
+export async function getSubmission(db: D1Database, id: string): Promise<SubmissionRow | null> {
+	return db.prepare('SELECT * FROM submissions WHERE id = ?').bind(id).first<SubmissionRow>();
+}
+
+/**
+ * Apply admin changes to a submission, recording each changed field in
+ * submission_events and the whole change in audit_log (same batch, so history
+ * can't drift from the row)
+ * @returns The submission before and after, or null when no submission has that id
+ */
+export async function applySubmissionChanges(
+	db: D1Database,
+	id: string,
+	changes: SubmissionChanges,
+	context: AuditContext,
+): Promise<SubmissionChangeResult | null> {
+	const current = await getSubmission(db, id);
+	if (!current) {
+		return null;
+	}
+
+	const columns = EDITABLE_COLUMNS.filter((column) => changes[column] !== undefined && changes[column] !== current[column]);
+	if (columns.length === 0) {
+		return { previous: current, submission: current };
+	}
+
+	await db.batch([
+		db.prepare(`
+			UPDATE submissions
+			SET ${columns.map((column) => `${column} = ?`).join(', ')}, updated_at = datetime('now')
+			WHERE id = ?
+		`).bind(...columns.map((column) => changes[column]), id),
+		...columns.map((column) =>
+			db.prepare(`
+				INSERT INTO submission_events (submission_id, field, old_value, new_value, actor)
+				VALUES (?, ?, ?, ?, ?)
+			`).bind(id, column, current[column], changes[column], context.actor),
+		),
+		auditStatement(db, context, {
+			action: getChangeAction(columns),
+			targetId: id,
+			before: Object.fromEntries(columns.map((column) => [column, current[column]])),
+			after: Object.fromEntries(columns.map((column) => [column, changes[column]])),
+		}),
+	]);
+
+	const submission = await getSubmission(db, id);
+	return submission && { previous: current, submission };
+}
+
+/**
+ * Change history for a submission, oldest first
+ */
+export async function listSubmissionEvents(db: D1Database, id: string): Promise<SubmissionEventRow[]> {
+	const { results } = await db
+		.prepare('SELECT * FROM submission_events WHERE submission_id = ? ORDER BY created_at, id')
+		.bind(id)
+		.all<SubmissionEventRow>();
+	return results;
+}
+
+/**
+ * Internal notes on a submission, oldest first
+ */
+export async function listSubmissionNotes(db: D1Database, id: string): Promise<SubmissionNoteRow[]> {
+	const { results } = await db
+		.prepare('SELECT * FROM submission_notes WHERE submission_id = ? ORDER BY created_at, id')
+		.bind(id)
+		.all<SubmissionNoteRow>();
+	return results;
+}
+
+/**
+ * @returns false when no submission has that id
+ */
+export async function addSubmissionNote(db: D1Database, id: string, body: string, context: AuditContext): Promise<boolean> {
+	const result = await db
+		.prepare('INSERT INTO submission_notes (submission_id, author, body) SELECT id, ?, ? FROM submissions WHERE id = ?')
+		.bind(context.actor, body, id)
+		.run();
+	if (result.meta.changes === 0) {
+		return false;
+	}
+	await recordAudit(db, context, { action: 'submission.note', targetId: id, after: { body } });
+	return true;
+}
+
+/**
+ * Delete a submission (its events and notes cascade). The audit entry keeps
+ * the workflow fields but none of the customer's details.
+ * @returns false when no submission has that id
+ */
+export async function deleteSubmission(db: D1Database, id: string, context: AuditContext): Promise<boolean> {
+	const current = await getSubmission(db, id);
+	if (!current) {
+		return false;
+	}
+	await db.batch([
+		db.prepare('DELETE FROM submissions WHERE id = ?').bind(id),
+		auditStatement(db, context, {
+			action: 'submission.delete',
+			targetId: id,
+			before: {
+				form_id: current.form_id,
+				status: current.status,
+				priority: current.priority,
+				assigned_to: current.assigned_to,
+				created_at: current.created_at,
+			},
+		}),
+	]);
+	return true;
+}
+
+/**
+ * Audit action for a set of changed columns
+ */
+function getChangeAction(columns: readonly (typeof EDITABLE_COLUMNS)[number][]): AuditAction {
+	if (columns.length > 1) {
+		return 'submission.update';
+	}
+	return columns[0] === 'assigned_to' ? 'submission.assign' : `submission.${columns[0]}`;
+}
+
+/**
+ * API representation: custom fields parsed, timestamps as ISO 8601, SLA state added
+ */
+export function toSubmissionJson(row: SubmissionRow, config: typeof CONFIG, now: number = Date.now()): SubmissionJson {
+	const { snippet, search_rank: _rank, ...columns } = row;
+	const sla = getSlaStatus(row, config, now);
+	return {
+		...columns,
+		...(snippet !== undefined ? { snippet: snippetToHtml(snippet) } : {}),
+		custom_fields: parseCustomFields(row.custom_fields),
+		routing_rules: parseRoutingRules(row.routing_rules),
+		created_at: parseDbTimestamp(row.created_at).toISOString(),
+		updated_at: parseDbTimestamp(row.updated_at).toISOString(),
+		sla: sla ? { due_at: sla.dueAt.toISOString(), overdue: sla.overdue } : null,
+	};
+}
+
+/**
+ * HTML for a search snippet: the text escaped, matched terms wrapped in <mark>
+ */
+export function snippetToHtml(snippet: string | null): string {
+	return escapeHtml(snippet ?? '').replaceAll(SNIPPET_START, '<mark>').replaceAll(SNIPPET_END, '</mark>');
+}
+
+/**
+ * Turn search box input into an FTS5 query: every word must match (as a prefix),
+ * and FTS5 operators and punctuation are treated as plain text.
+ */
+export function toFtsQuery(search: string): string {
+	return search
+		.split(/\s+/)
+		.filter(Boolean)
+		.map((term) => `"${term.replace(/"/g, '""')}"*`)
+		.join(' ');
+}
+
+/**
+ * FROM and WHERE for a set of filters. Searching joins the FTS5 table, so every
+ * submissions column is qualified.
+ */
+function buildFilterClause(filters: SubmissionFilters): { from: string; where: string[]; params: unknown[] } {
+	const where: string[] = [];
+	const params: unknown[] = [];
+	let from = 'submissions';
+
+	if (filters.search) {
+		from = 'submissions_fts JOIN submissions ON submissions.rowid = submissions_fts.rowid';
+		where.push('submissions_fts MATCH ?');
+		params.push(toFtsQuery(filters.search));
+	}
+
+	const equals: [keyof SubmissionFilters, string][] = [
+		['form', 'form_id'],
+		['status', 'status'],
+		['priority', 'priority'],
+		['service', 'service_type'],
+	];
+	for (const [key, column] of equals) {
+		if (filters[key]) {
+			where.push(`submissions.${column} = ?`);
+			params.push(filters[key]);
+		}
+	}
+	if (filters.assignee === 'none') {
+		where.push('submissions.assigned_to IS NULL');
+	} else if (filters.assignee) {
+		where.push('submissions.assigned_to = ?');
+		params.push(filters.assignee);
+	}
+	if (filters.createdAfter) {
+		where.push('submissions.created_at >= ?');
+		params.push(filters.createdAfter);
+	}
+	if (filters.createdBefore) {
+		where.push('submissions.created_at < ?');
+		params.push(filters.createdBefore);
+	}
+
+	return { from, where, params };
+}
+
+/**
+ * Priorities sort by their position in CONFIG.contactForm.priorityLevels
+ * (unknown values first) and relevance by FTS5 rank (lower is better); every
+ * other sort field is a plain column.
+ */
+function getSortExpression(field: SortField, config: typeof CONFIG): { sql: string; params: string[] } {
+	if (field === 'relevance') {
+		return { sql: 'submissions_fts.rank', params: [] };
+	}
+	if (field !== 'priority') {
+		return { sql: `submissions.${field}`, params: [] };
+	}
+	const levels = config.contactForm.priorityLevels.map((level) => level.value);
+	return {
+		sql: `CASE submissions.priority ${levels.map((_, index) => `WHEN ? THEN ${index}`).join(' ')} ELSE -1 END`,
+		params: levels,
+	};
+}
+
+function getSortValue(row: SubmissionRow, field: SortField, config: typeof CONFIG): string | number | null {
+	if (field === 'priority') {
+		return config.contactForm.priorityLevels.findIndex((level) => level.value === row.priority);
+	}
+	if (field === 'relevance') {
+		return row.search_rank ?? null;
+	}
+	return row[field];
+}
+
+function encodeCursor(sortKey: string, value: string | number | null, id: string): string {
+	const bytes = new TextEncoder().encode(JSON.stringify([sortKey, value, id]));
+	return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string, sortKey: string): { value: string | number | null; id: string } {
+	try {
+		const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+		const [key, value, id] = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0))));
+		if (key === sortKey && typeof id === 'string' && (value === null || ['string', 'number'].includes(typeof value))) {
+			return { value, id };
+		}
+	} catch {
+		// Fall through to the error below
+	}
+	throw new InvalidCursorError();
+}
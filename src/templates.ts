@@ -0,0 +1,185 @@
+/**
+ * Email templates: the admin notification and the acknowledgement auto-reply
+ *
+ * Templates (CONFIG.email.templates) are text with {{variable}} placeholders,
+ * listed in TEMPLATE_VARIABLES. Each one renders to a plain-text part and an
+ * HTML part: the template's own html, or else its text with the line breaks
+ * kept, inside a layout themed from CONFIG.styling.colors. Values are escaped
+ * in the HTML part and filled in a single pass, so placeholders a customer
+ * types into their message are left alone.
+ */
+
+import { CONFIG, type EmailTemplate } from './config';
+import { escapeHtml, safeUrl } from './escape';
+import { formatFieldValue, getCustomFields } from './fields';
+import { getPriorityLevel } from './priority';
+import type { FormSubmission } from './types';
+
+export const EMAIL_TEMPLATE_NAMES = ['adminNotification', 'acknowledgement'] as const;
+export type EmailTemplateName = (typeof EMAIL_TEMPLATE_NAMES)[number];
+
+// Placeholders every template can use, with what they hold (shown in the docs and previews)
+export const TEMPLATE_VARIABLES = {
+	name: "Submitter's name",
+	email: "Submitter's email, or 'Not provided'",
+	phone: "Submitter's phone, or 'Not provided'",
+	service_type: 'Service type',
+	priority: 'Priority label and response target',
+	form: 'Title of the form used',
+	message: 'The message as written',
+	quoted_message: 'The message quoted with "> " (a blockquote in HTML)',
+	custom_fields: 'Custom field values, one "Label: value" per line',
+	reference: 'Reference code, e.g. REF-7K2M-X9QD',
+	admin_url: 'Link to the submission in the admin panel',
+	submission_id: 'Internal submission ID',
+	submitted_at: 'When it was submitted',
+	company: 'CONFIG.company.name',
+	company_emoji: 'CONFIG.company.emoji',
+	response_time: 'CONFIG.contactForm.responseTimeMessage',
+	environment: 'ENVIRONMENT, e.g. production',
+} as const;
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+// Longer subjects are cut for older mail clients
+const MAX_SUBJECT_LENGTH = 78;
+
+export interface RenderedEmail {
+	subject: string;
+	text: string;
+	html: string;
+}
+
+export interface TemplateContext {
+	baseUrl?: string; // Origin for admin_url; without it admin_url is empty
+	environment?: string;
+}
+
+/**
+ * The template for a service type: its override (email.templates.byService)
+ * if it has one, else the default
+ */
+export function getEmailTemplate(name: EmailTemplateName, serviceType: string, config: typeof CONFIG): EmailTemplate {
+	return config.email.templates.byService[serviceType]?.[name] ?? config.email.templates[name];
+}
+
+/**
+ * Fill in a template for a submission
+ */
+export function renderEmail(name: EmailTemplateName, submission: FormSubmission, config: typeof CONFIG, context: TemplateContext = {}): RenderedEmail {
+	const template = getEmailTemplate(name, submission.service_type, config);
+	const { text, html } = getTemplateValues(submission, config, context);
+	const subject = fillTemplate(template.subject, text, (literal) => literal).replace(/\s*\r?\n\s*/g, ' ');
+
+	const content = template.html
+		? fillTemplate(template.html, html, (literal) => literal)
+		: fillTemplate(template.text, html, (literal) => escapeHtml(literal).replace(/\r?\n/g, '<br>\n'));
+	return {
+		subject: subject.length > MAX_SUBJECT_LENGTH ? subject.substring(0, MAX_SUBJECT_LENGTH - 3) + '...' : subject,
+		text: fillTemplate(template.text, text, (literal) => literal),
+		html: getEmailLayout(subject, content, config),
+	};
+}
+
+/**
+ * Render a template against a made-up submission, for the admin preview
+ */
+export function renderTemplatePreview(name: EmailTemplateName, serviceType: string | null, config: typeof CONFIG, baseUrl: string): RenderedEmail {
+	const submission: FormSubmission = {
+		id: '00000000-0000-4000-8000-000000000000',
+		reference: `${config.email.referencePrefix}-7K2M-X9QD`,
+		form_id: config.contactForm.id,
+		name: 'Jane Doe',
+		email: 'jane.doe@example.com',
+		phone: '+1 555 0100',
+		service_type: serviceType || config.contactForm.serviceTypes[0],
+		priority: config.contactForm.defaultPriority,
+		message: "Hello,\n\nI'd like to know more about your services. Could someone call me this week?\n\nThanks, Jane",
+		timestamp: new Date().toISOString(),
+	};
+	return renderEmail(name, submission, config, { baseUrl, environment: 'preview' });
+}
+
+export function parseTemplateName(value: string | null): EmailTemplateName | undefined {
+	return EMAIL_TEMPLATE_NAMES.find((name) => name === value);
+}
+
+/**
+ * Every variable's plain-text and HTML value
+ */
+function getTemplateValues(submission: FormSubmission, config: typeof CONFIG, context: TemplateContext): Record<'text' | 'html', Record<string, string>> {
+	const colors = config.styling.colors;
+	const level = getPriorityLevel(submission.priority, config);
+	const message = submission.message.replace(/\r\n/g, '\n');
+	const customFields = getCustomFields(config)
+		.map((field) => ({ field, value: formatFieldValue(field, submission.custom_fields?.[field.name]) }))
+		.filter(({ value }) => value)
+		.map(({ field, value }) => `📋 ${field.label}: ${value}`)
+		.join('\n');
+	const adminUrl = context.baseUrl ? `${context.baseUrl}/admin/submissions/${encodeURIComponent(submission.id)}` : '';
+
+	const text: Record<TemplateVariable, string> = {
+		name: submission.name,
+		email: submission.email || 'Not provided',
+		phone: submission.phone || 'Not provided',
+		service_type: submission.service_type,
+		priority: `${level.label} (respond within ${level.slaHours}h)`,
+		form: config.contactForm.title,
+		message,
+		quoted_message: message.split('\n').map((line) => `> ${line}`).join('\n'),
+		custom_fields: customFields,
+		reference: submission.reference ?? '',
+		admin_url: adminUrl,
+		submission_id: submission.id,
+		submitted_at: new Date(submission.timestamp).toLocaleString(),
+		company: config.company.name,
+		company_emoji: config.company.emoji,
+		response_time: config.contactForm.responseTimeMessage,
+		environment: context.environment || 'production',
+	};
+
+	const html: Record<string, string> = {};
+	for (const [key, value] of Object.entries(text)) {
+		html[key] = escapeHtml(value).replace(/\n/g, '<br>');
+	}
+	html.quoted_message = `<blockquote style="margin: 12px 0; padding: 8px 16px; border-left: 4px solid ${colors.accent}; background: ${colors.surfaceGold}; color: ${colors.text};">${html.message}</blockquote>`;
+	html.admin_url = adminUrl ? `<a href="${safeUrl(adminUrl)}" style="color: ${colors.primary};">${escapeHtml(adminUrl)}</a>` : '';
+	return { text, html };
+}
+
+/**
+ * Replace each known {{variable}} in one pass; the rest of the template goes
+ * through literal(), which escapes it when an HTML part is made from the text
+ */
+function fillTemplate(template: string, values: Record<string, string>, literal: (text: string) => string): string {
+	let result = '';
+	let last = 0;
+	for (const match of template.matchAll(PLACEHOLDER)) {
+		const value = Object.prototype.hasOwnProperty.call(values, match[1]) ? values[match[1]] : literal(match[0]);
+		result += literal(template.slice(last, match.index)) + value;
+		last = match.index! + match[0].length;
+	}
+	return result + literal(template.slice(last));
+}
+
+/**
+ * Table layout with inline styles, which is what mail clients render reliably
+ */
+function getEmailLayout(subject: string, content: string, config: typeof CONFIG): string {
+	const colors = config.styling.colors;
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin: 0; padding: 24px 12px; background: ${colors.background}; color: ${colors.text}; font-family: ${escapeHtml(config.styling.fonts.primary)};">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; margin: 0 auto; background: ${colors.surface}; border: 1px solid ${colors.borderTeal}; border-radius: 8px; border-collapse: separate;">
+<tr><td style="padding: 16px 24px; background: ${colors.primary}; color: ${colors.textInverse}; font-size: 18px; font-weight: bold; border-radius: 8px 8px 0 0;">${escapeHtml(config.company.emoji)} ${escapeHtml(config.company.name)}</td></tr>
+<tr><td style="padding: 24px; font-size: 15px; line-height: 1.6;">${content}</td></tr>
+<tr><td style="padding: 12px 24px; border-top: 3px solid ${colors.accent}; color: ${colors.textLight}; font-size: 12px;">${escapeHtml(config.company.tagline)}</td></tr>
+</table>
+</body>
+</html>`;
+}
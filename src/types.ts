@@ -0,0 +1,134 @@
+/**
+ * Shared types for the contact form worker
+ */
+
+import type { CustomFieldValues } from './fields';
+
+export interface FormSubmission {
+	id: string;
+	reference?: string; // Customer-facing code, e.g. REF-7K2M-X9QD
+	form_id: string; // "default" or a key of CONFIG.forms
+	name: string;
+	email?: string;
+	phone?: string;
+	priority?: string;
+	service_type: string;
+	message: string;
+	custom_fields?: CustomFieldValues; // Values of non-core CONFIG.contactForm.fields
+	timestamp: string;
+}
+
+export interface CloudflareAccessUser {
+	email: string;
+	name?: string;
+	sub?: string;
+	aud?: string[];
+	iss?: string;
+	iat?: number;
+	exp?: number;
+}
+
+export interface Env {
+	DB: D1Database;
+	FROM_EMAIL: string; // New
+	ADMIN_EMAIL: string; // New
+	ENVIRONMENT?: string; // New
+	MG_DOMAIN: string; // Mailgun domain
+	MG_API_KEY: string; // Mailgun API key
+	EMAIL_SENDER?: SendEmail; // Cloudflare send_email binding
+	EMAIL_TRANSPORT?: string; // Overrides CONFIG.email.transport
+	EMAIL_API_URL?: string; // Send endpoint for the "http" transport
+	EMAIL_API_KEY?: string; // Bearer token for EMAIL_API_URL
+	ACCESS_TEAM_DOMAIN?: string; // e.g. yourteam.cloudflareaccess.com
+	ACCESS_AUD?: string; // Application Audience (AUD) tag from Zero Trust
+	TURNSTILE_SECRET_KEY?: string; // Cloudflare Turnstile secret (when enableTurnstile is on)
+	WEBHOOK_SECRET?: string; // HMAC key for signing webhook deliveries
+	SLACK_WEBHOOK_URL?: string; // Slack incoming webhook for chat notifications
+	SLACK_SIGNING_SECRET?: string; // Slack app signing secret, for the status buttons
+	TEAMS_WEBHOOK_URL?: string; // Teams incoming webhook or Workflows URL
+	DISCORD_WEBHOOK_URL?: string; // Discord channel webhook
+}
+
+/**
+ * A row of the submissions table
+ */
+export interface SubmissionRow {
+	id: string;
+	reference: string | null; // Customer-facing code (see acknowledgement.ts); null on older rows
+	form_id: string;
+	name: string;
+	email: string | null;
+	phone: string | null;
+	service_type: string;
+	message: string;
+	status: string;
+	priority: string | null;
+	assigned_to: string | null; // Admin email, null when unassigned
+	routing_rules: string | null; // JSON, see parseRoutingRules
+	custom_fields: string | null; // JSON, see parseCustomFields
+	ip_address: string | null;
+	user_agent: string | null;
+	spam_reason: string | null;
+	referrer: string | null; // Page the visitor came from before opening the form
+	source: 'form' | 'email';
+	created_at: string; // D1 datetime, UTC
+	updated_at: string;
+	snippet?: string | null; // Search results only: message excerpt with match markers
+	search_rank?: number; // Search results only: FTS5 rank, lower is better
+}
+
+/**
+ * A row of submission_events: one admin change to a submission field
+ */
+export interface SubmissionEventRow {
+	id: number;
+	submission_id: string;
+	field: 'status' | 'priority' | 'assigned_to';
+	old_value: string | null;
+	new_value: string | null;
+	actor: string; // Admin email
+	created_at: string;
+}
+
+/**
+ * A row of submission_notes: an internal note left by an admin
+ */
+export interface SubmissionNoteRow {
+	id: number;
+	submission_id: string;
+	author: string; // Admin email
+	body: string;
+	created_at: string;
+}
+
+/**
+ * A row of the messages table: an email exchanged with the submitter
+ */
+export interface MessageRow {
+	id: number;
+	submission_id: string;
+	direction: 'outbound' | 'inbound';
+	message_id: string; // RFC 5322 Message-ID, with angle brackets
+	in_reply_to: string | null;
+	from_address: string;
+	to_address: string;
+	subject: string;
+	body: string;
+	sent_by: string | null; // Admin email, outbound only
+	status: 'sent' | 'failed' | 'received';
+	created_at: string;
+}
+
+/**
+ * Submission list filters, shared by the admin dashboard and the JSON API
+ */
+export interface SubmissionFilters {
+	search?: string; // Free text matched against name, email and message
+	form?: string;
+	status?: string;
+	priority?: string;
+	service?: string;
+	assignee?: string; // An admin email, or "none" for unassigned
+	createdAfter?: string; // D1 datetime, inclusive
+	createdBefore?: string; // D1 datetime, exclusive
+}
@@ -0,0 +1,101 @@
+/**
+ * Server-side form validation driven by CONFIG.contactForm.fields
+ */
+
+import { CONFIG, type FieldValidationRule } from './config';
+import { getFieldOptions, getFormFields, toValidationRule, type FormValue, type FormValues } from './fields';
+
+export type { FormValues };
+export type ValidationErrors = Record<string, string>;
+
+// Deliberately permissive: something@something.tld
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Digits with optional +, spaces, dots, dashes and parentheses; 7-15 digits
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+
+/**
+ * Validate submitted values against the fields currently on the form
+ * @returns Field name → error message, empty when everything is valid
+ */
+export function validateForm(values: FormValues, config: typeof CONFIG): ValidationErrors {
+	const errors: ValidationErrors = {};
+
+	for (const field of getFormFields(config)) {
+		const error = validateField(values[field.name] ?? '', toValidationRule(field), config);
+		if (error) {
+			errors[field.name] = error;
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Validate one value against its rule
+ * @returns The error message, or null when valid
+ */
+export function validateField(rawValue: FormValue, rule: FieldValidationRule, config: typeof CONFIG): string | null {
+	// Checkbox groups: at least one choice when required, every choice from the options
+	if (Array.isArray(rawValue)) {
+		if (rawValue.length === 0) {
+			return rule.required ? message(rule, 'required', 'required', config) : null;
+		}
+		const options = rule.options ? getFieldOptions(rule, config) : null;
+		if (options && rawValue.some((choice) => !options.includes(choice))) {
+			return message(rule, 'options', 'invalid', config);
+		}
+		return null;
+	}
+
+	const value = rawValue.trim();
+
+	if (!value) {
+		return rule.required ? message(rule, 'required', 'required', config) : null;
+	}
+
+	if (rule.minLength !== undefined && value.length < rule.minLength) {
+		return message(rule, undefined, 'tooShort', config);
+	}
+	if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+		return message(rule, undefined, 'tooLong', config);
+	}
+
+	if (rule.format === 'email' && !EMAIL_PATTERN.test(value)) {
+		return message(rule, 'format', 'invalid', config);
+	}
+	if (rule.format === 'phone') {
+		const digits = value.replace(/\D/g, '').length;
+		if (!PHONE_PATTERN.test(value) || digits < 7 || digits > 15) {
+			return message(rule, 'format', 'invalid', config);
+		}
+	}
+
+	if (rule.pattern && !new RegExp(rule.pattern).test(value)) {
+		return message(rule, 'pattern', 'invalid', config);
+	}
+
+	const options = rule.options ? getFieldOptions(rule, config) : null;
+	if (options && !options.includes(value)) {
+		return message(rule, 'options', 'invalid', config);
+	}
+
+	return null;
+}
+
+type MessageKey = keyof typeof CONFIG.contactForm.validation;
+
+function message(
+	rule: FieldValidationRule,
+	override: keyof NonNullable<FieldValidationRule['messages']> | undefined,
+	fallback: MessageKey,
+	config: typeof CONFIG,
+): string {
+	const messages = config.contactForm.validation;
+	const overrideKey = override ? rule.messages?.[override] : undefined;
+	const template = (overrideKey && messages[overrideKey as MessageKey]) || messages[fallback];
+
+	return template
+		.replace('{label}', rule.label)
+		.replace('{min}', String(rule.minLength ?? ''))
+		.replace('{max}', String(rule.maxLength ?? ''));
+}
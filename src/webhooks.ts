@@ -0,0 +1,325 @@
+/**
+ * Outbound webhooks on submission events (webhook_deliveries table)
+ *
+ * An event is stored once per endpoint in CONFIG.webhooks.endpoints that
+ * subscribes to it, then POSTed in the background. Like the email outbox (see
+ * outbox.ts), a sender claims a delivery before trying it, the cron trigger
+ * retries failures with exponential backoff, and after
+ * CONFIG.webhooks.maxAttempts the delivery is dead-lettered.
+ *
+ * The body is JSON ({ event, created_at, data }), signed with HMAC-SHA256 using
+ * the WEBHOOK_SECRET secret:
+ *
+ *   X-Webhook-Id         delivery id, the same on every retry
+ *   X-Webhook-Event      e.g. submission.created
+ *   X-Webhook-Timestamp  unix seconds of this attempt
+ *   X-Webhook-Signature  sha256=<hex HMAC of "<timestamp>.<body>">
+ */
+
+import { auditStatement, type AuditContext } from './audit';
+import { CONFIG, type WebhookEndpoint } from './config';
+import { getBackoffSeconds } from './outbox';
+import { getSubmission, toSubmissionJson, type SubmissionChangeResult } from './submissions';
+import type { Env, SubmissionRow } from './types';
+
+export const WEBHOOK_EVENTS = ['submission.created', 'submission.status_changed', 'submission.assigned', 'submission.replied'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent by the "Send test event" button, whatever events the endpoint subscribes to
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export const WEBHOOK_STATUSES = ['pending', 'delivered', 'dead'] as const;
+export type WebhookStatus = (typeof WEBHOOK_STATUSES)[number];
+
+// How long a claimed delivery is hidden from other senders
+const CLAIM_LEASE_SECONDS = 300;
+// Deliveries one cron run sends at most
+const WEBHOOK_BATCH_SIZE = 25;
+// Response bodies kept in last_error
+const MAX_ERROR_LENGTH = 200;
+
+/**
+ * A row of the webhook_deliveries table
+ */
+export interface WebhookDeliveryRow {
+	id: number;
+	endpoint: string; // CONFIG.webhooks.endpoints name
+	url: string;
+	event: WebhookEvent | typeof WEBHOOK_TEST_EVENT;
+	submission_id: string | null;
+	payload: string; // JSON body
+	status: WebhookStatus;
+	attempts: number;
+	response_status: number | null; // HTTP status of the last attempt
+	last_error: string | null;
+	next_attempt_at: string; // D1 datetime
+	delivered_at: string | null;
+	created_at: string;
+}
+
+/**
+ * Queues events for the endpoints that want them and delivers them after the
+ * response (ctx.waitUntil). Never throws, so a webhook problem cannot undo the
+ * change that raised the event.
+ */
+export interface WebhookDispatcher {
+	dispatch(event: WebhookEvent, submissionId: string | null, data: Record<string, unknown>): Promise<void>;
+}
+
+export function createWebhookDispatcher(env: Env, ctx: ExecutionContext, config: typeof CONFIG): WebhookDispatcher {
+	return {
+		async dispatch(event, submissionId, data) {
+			const endpoints = getWebhookEndpoints(event, config);
+			if (endpoints.length === 0) {
+				return;
+			}
+			try {
+				const deliveries = await enqueueWebhooks(env.DB, endpoints, event, submissionId, data);
+				for (const delivery of deliveries) {
+					ctx.waitUntil(deliverWebhook(env.DB, delivery, env.WEBHOOK_SECRET, config));
+				}
+			} catch (error) {
+				console.error(`Failed to queue ${event} webhooks:`, error);
+			}
+		},
+	};
+}
+
+/**
+ * Endpoints subscribed to an event
+ */
+export function getWebhookEndpoints(event: WebhookEvent, config: typeof CONFIG): WebhookEndpoint[] {
+	return config.webhooks.endpoints.filter((endpoint) => endpoint.events.includes(event));
+}
+
+/**
+ * submission.created for a stored submission (read back, so the payload matches the API)
+ */
+export async function dispatchSubmissionCreated(webhooks: WebhookDispatcher, db: D1Database, id: string, config: typeof CONFIG): Promise<void> {
+	if (getWebhookEndpoints('submission.created', config).length === 0) {
+		return;
+	}
+	const submission = await getSubmission(db, id);
+	if (submission) {
+		await webhooks.dispatch('submission.created', id, { submission: toWebhookSubmission(submission, config) });
+	}
+}
+
+/**
+ * submission.status_changed and/or submission.assigned for an admin change
+ */
+export async function dispatchSubmissionChanges(webhooks: WebhookDispatcher, result: SubmissionChangeResult, actor: string, config: typeof CONFIG): Promise<void> {
+	const { previous, submission } = result;
+	const data = { submission: toWebhookSubmission(submission, config), actor };
+	if (previous.status !== submission.status) {
+		await webhooks.dispatch('submission.status_changed', submission.id, { ...data, previous_status: previous.status });
+	}
+	if (previous.assigned_to !== submission.assigned_to) {
+		await webhooks.dispatch('submission.assigned', submission.id, { ...data, previous_assignee: previous.assigned_to });
+	}
+}
+
+/**
+ * The submission as the JSON API returns it, minus the visitor's IP address and user agent
+ */
+export function toWebhookSubmission(submission: SubmissionRow, config: typeof CONFIG): Record<string, unknown> {
+	const { ip_address: _ip, user_agent: _userAgent, ...json } = toSubmissionJson(submission, config);
+	return json;
+}
+
+/**
+ * Store one delivery per endpoint
+ */
+export async function enqueueWebhooks(
+	db: D1Database,
+	endpoints: WebhookEndpoint[],
+	event: WebhookDeliveryRow['event'],
+	submissionId: string | null,
+	data: Record<string, unknown>,
+): Promise<WebhookDeliveryRow[]> {
+	const payload = JSON.stringify({ event, created_at: new Date().toISOString(), data });
+	const results = await db.batch<WebhookDeliveryRow>(endpoints.map((endpoint) => insertStatement(db, endpoint, event, submissionId, payload)));
+	return results.map((result) => result.results[0]);
+}
+
+/**
+ * hex HMAC-SHA256 of "<timestamp>.<body>", as sent in X-Webhook-Signature
+ */
+export async function signWebhook(secret: string, timestamp: number, body: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+	return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Claim and POST one delivery, recording the outcome
+ * @returns whether the endpoint accepted it; false too when another sender holds it
+ */
+export async function deliverWebhook(db: D1Database, delivery: WebhookDeliveryRow, secret: string | undefined, config: typeof CONFIG): Promise<boolean> {
+	const claim = await db
+		.prepare(`
+			UPDATE webhook_deliveries SET next_attempt_at = datetime('now', ?)
+			WHERE id = ? AND status = 'pending' AND next_attempt_at <= datetime('now')
+		`)
+		.bind(`+${CLAIM_LEASE_SECONDS} seconds`, delivery.id)
+		.run();
+	if (claim.meta.changes === 0) {
+		return false;
+	}
+
+	const { responseStatus, error } = secret ? await postWebhook(delivery, secret, config) : { responseStatus: null, error: 'WEBHOOK_SECRET is not set' };
+	const attempts = delivery.attempts + 1;
+	if (!error) {
+		await db
+			.prepare(`UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, response_status = ?, last_error = NULL, delivered_at = datetime('now') WHERE id = ?`)
+			.bind(attempts, responseStatus, delivery.id)
+			.run();
+		return true;
+	}
+
+	if (attempts >= config.webhooks.maxAttempts) {
+		console.error(`Webhook ${delivery.id} to ${delivery.endpoint} dead-lettered after ${attempts} attempts: ${error}`);
+		await db
+			.prepare(`UPDATE webhook_deliveries SET status = 'dead', attempts = ?, response_status = ?, last_error = ? WHERE id = ?`)
+			.bind(attempts, responseStatus, error, delivery.id)
+			.run();
+	} else {
+		const delay = getBackoffSeconds(attempts, config.webhooks);
+		console.warn(`Webhook ${delivery.id} to ${delivery.endpoint} attempt ${attempts} failed, retrying in ${delay}s: ${error}`);
+		await db
+			.prepare(`UPDATE webhook_deliveries SET attempts = ?, response_status = ?, last_error = ?, next_attempt_at = datetime('now', ?) WHERE id = ?`)
+			.bind(attempts, responseStatus, error, `+${delay} seconds`, delivery.id)
+			.run();
+	}
+	return false;
+}
+
+/**
+ * Send every delivery that is due (the cron trigger)
+ * @returns how many were delivered
+ */
+export async function processWebhooks(db: D1Database, secret: string | undefined, config: typeof CONFIG): Promise<number> {
+	const { results } = await db
+		.prepare(`SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= datetime('now') ORDER BY next_attempt_at, id LIMIT ?`)
+		.bind(WEBHOOK_BATCH_SIZE)
+		.all<WebhookDeliveryRow>();
+
+	let delivered = 0;
+	for (const delivery of results) {
+		if (await deliverWebhook(db, delivery, secret, config)) {
+			delivered++;
+		}
+	}
+	if (results.length > 0) {
+		console.log(`Webhooks: delivered ${delivered} of ${results.length} due`);
+	}
+	return delivered;
+}
+
+/**
+ * Queue a webhook.test event for one endpoint, audited, and try it straight away
+ * @returns the delivery after the attempt, or null when there is no such endpoint
+ */
+export async function sendTestWebhook(
+	db: D1Database,
+	name: string,
+	secret: string | undefined,
+	context: AuditContext,
+	config: typeof CONFIG,
+): Promise<{ delivery: WebhookDeliveryRow; delivered: boolean } | null> {
+	const endpoint = config.webhooks.endpoints.find((candidate) => candidate.name === name);
+	if (!endpoint) {
+		return null;
+	}
+
+	const payload = JSON.stringify({
+		event: WEBHOOK_TEST_EVENT,
+		created_at: new Date().toISOString(),
+		data: { endpoint: endpoint.name, message: `Test event from ${config.email.systemName}`, sent_by: context.actor },
+	});
+	const [inserted] = await db.batch<WebhookDeliveryRow>([
+		insertStatement(db, endpoint, WEBHOOK_TEST_EVENT, null, payload),
+		auditStatement(db, context, {
+			action: 'webhook.test',
+			targetId: endpoint.name,
+			after: { url: endpoint.url },
+		}),
+	]);
+	const delivery = inserted.results[0];
+	const delivered = await deliverWebhook(db, delivery, secret, config);
+	return { delivery: (await getWebhookDelivery(db, delivery.id)) ?? delivery, delivered };
+}
+
+export async function getWebhookDelivery(db: D1Database, id: number): Promise<WebhookDeliveryRow | null> {
+	return db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').bind(id).first<WebhookDeliveryRow>();
+}
+
+/**
+ * Newest first, optionally only one status
+ */
+export async function listWebhookDeliveries(db: D1Database, status: WebhookStatus | undefined, limit: number, offset = 0): Promise<WebhookDeliveryRow[]> {
+	const { results } = await db
+		.prepare(`SELECT * FROM webhook_deliveries ${status ? 'WHERE status = ?' : ''} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+		.bind(...(status ? [status] : []), limit, offset)
+		.all<WebhookDeliveryRow>();
+	return results;
+}
+
+/**
+ * Delivery counts by status, for the webhooks page's filter tabs
+ */
+export async function countWebhookDeliveries(db: D1Database): Promise<Record<WebhookStatus, number>> {
+	const { results } = await db
+		.prepare('SELECT status, COUNT(*) AS count FROM webhook_deliveries GROUP BY status')
+		.all<{ status: WebhookStatus; count: number }>();
+	const counts: Record<WebhookStatus, number> = { pending: 0, delivered: 0, dead: 0 };
+	for (const row of results) {
+		counts[row.status] = row.count;
+	}
+	return counts;
+}
+
+export function parseWebhookStatus(value: string | null): WebhookStatus | undefined {
+	return WEBHOOK_STATUSES.find((status) => status === value);
+}
+
+function insertStatement(db: D1Database, endpoint: WebhookEndpoint, event: WebhookDeliveryRow['event'], submissionId: string | null, payload: string): D1PreparedStatement {
+	return db
+		.prepare(`
+			INSERT INTO webhook_deliveries (endpoint, url, event, submission_id, payload, status, next_attempt_at)
+			VALUES (?, ?, ?, ?, ?, 'pending', datetime('now'))
+			RETURNING *
+		`)
+		.bind(endpoint.name, endpoint.url, event, submissionId, payload);
+}
+
+/**
+ * POST a delivery; any 2xx response counts as accepted
+ */
+async function postWebhook(delivery: WebhookDeliveryRow, secret: string, config: typeof CONFIG): Promise<{ responseStatus: number | null; error: string | null }> {
+	const timestamp = Math.floor(Date.now() / 1000);
+	try {
+		const response = await fetch(delivery.url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'User-Agent': `${config.email.systemName} webhooks`,
+				'X-Webhook-Id': String(delivery.id),
+				'X-Webhook-Event': delivery.event,
+				'X-Webhook-Timestamp': String(timestamp),
+				'X-Webhook-Signature': `sha256=${await signWebhook(secret, timestamp, delivery.payload)}`,
+			},
+			body: delivery.payload,
+			signal: AbortSignal.timeout(config.webhooks.timeoutSeconds * 1000),
+		});
+		if (response.ok) {
+			return { responseStatus: response.status, error: null };
+		}
+		const body = (await response.text().catch(() => '')).trim();
+		return { responseStatus: response.status, error: `HTTP ${response.status}${body ? `: ${body.slice(0, MAX_ERROR_LENGTH)}` : ''}` };
+	} catch (error) {
+		const timedOut = error instanceof Error && error.name === 'TimeoutError';
+		return { responseStatus: null, error: timedOut ? `No response within ${config.webhooks.timeoutSeconds}s` : String(error) };
+	}
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG } from '../src/config';
+import { generateReference, sendAcknowledgement } from '../src/acknowledgement';
+import { createRecordingTransport } from '../src/email';
+import type { Env, FormSubmission } from '../src/types';
+
+const enabled = { ...CONFIG, features: { ...CONFIG.features, enableAcknowledgementEmail: true } };
+
+const submission: FormSubmission = {
+	id: 'abc-123',
+	reference: 'REF-7K2M-X9QD',
+	form_id: 'default',
+	name: 'Jane',
+	email: 'jane@example.com',
+	service_type: 'General Inquiry',
+	message: 'First line\nSecond line with {reference}',
+	timestamp: '2025-01-01T09:00:00.000Z',
+};
+
+/** Records every statement */
+function fakeEnv() {
+	const queries: { sql: string; params: unknown[] }[] = [];
+	const db = {
+		prepare(sql: string) {
+			const statement = {
+				bind(...params: unknown[]) {
+					queries.push({ sql, params });
+					return statement;
+				},
+				async run() {
+					return { meta: { changes: 1 } };
+				},
+			};
+			return statement;
+		},
+	};
+	const env = { DB: db, MG_DOMAIN: 'mg.example.com' } as unknown as Env;
+	return { env, queries };
+}
+
+describe('Acknowledgement email', () => {
+	it('should generate unambiguous references', () => {
+		for (let i = 0; i < 50; i++) {
+			expect(generateReference(CONFIG)).toMatch(/^REF-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/);
+		}
+		expect(generateReference(CONFIG)).not.toBe(generateReference(CONFIG));
+	});
+
+	it('should send as the thread root and store the message', async () => {
+		const mailer = createRecordingTransport();
+		const { env, queries } = fakeEnv();
+
+		expect(await sendAcknowledgement(env, mailer, submission, 'REF-7K2M-X9QD', enabled)).toBe(true);
+		const [sent] = mailer.sent;
+		expect(sent.from).toBe('Your Company Name <support@mg.example.com>');
+		expect(sent.to).toEqual(['jane@example.com']);
+		expect(sent.replyTo).toBe('support+abc-123@mg.example.com');
+		expect(sent.headers).toEqual({ 'Message-Id': '<submission.abc-123@mg.example.com>', 'Auto-Submitted': 'auto-replied' });
+		expect(sent.subject).toBe("We've received your message [REF-7K2M-X9QD]");
+		expect(sent.text).toContain('> First line\n> Second line with {reference}');
+		expect(sent.html).toContain('<blockquote');
+
+		const insert = queries.find((query) => query.sql.includes('INSERT INTO messages'))!;
+		expect(insert.params[1]).toBe('<submission.abc-123@mg.example.com>');
+		expect(insert.params[insert.params.length - 1]).toBe('sent');
+	});
+
+	it('should quote a company name with punctuation in the From header', async () => {
+		const mailer = createRecordingTransport();
+		const config = { ...enabled, company: { ...enabled.company, name: 'Smith & Sons, Ltd.' } };
+
+		await sendAcknowledgement(fakeEnv().env, mailer, submission, 'REF-7K2M-X9QD', config);
+		expect(mailer.sent[0].from).toBe('"Smith & Sons, Ltd." <support@mg.example.com>');
+	});
+
+	it('should do nothing when disabled or without an address or transport', async () => {
+		const mailer = createRecordingTransport();
+		const { env, queries } = fakeEnv();
+
+		expect(await sendAcknowledgement(env, mailer, submission, 'REF-7K2M-X9QD', CONFIG)).toBe(false);
+		expect(await sendAcknowledgement(env, mailer, { ...submission, email: undefined }, 'REF-7K2M-X9QD', enabled)).toBe(false);
+		expect(await sendAcknowledgement(env, null, submission, 'REF-7K2M-X9QD', enabled)).toBe(false);
+		expect(mailer.sent).toHaveLength(0);
+		expect(queries).toHaveLength(0);
+	});
+});
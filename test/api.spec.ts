@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { handleApiRequest } from '../src/api';
+import { CONFIG } from '../src/config';
+import type { SubmissionJson } from '../src/submissions';
+import type { Env, SubmissionRow } from '../src/types';
+import type { WebhookDispatcher } from '../src/webhooks';
+
+const user = { email: 'admin@example.com' };
+const webhooks: WebhookDispatcher = { async dispatch() {} };
+const config = { ...CONFIG, admin: { ...CONFIG.admin, assignees: ['agent@example.com'] } };
+
+/** Body of GET /api/v1/submissions */
+type ListResponse = { data: SubmissionJson[]; next_cursor: string | null };
+
+function row(id: string, createdAt: string, overrides: Partial<SubmissionRow> = {}): SubmissionRow {
+	return {
+		id,
+		reference: null,
+		form_id: 'default',
+		name: `Customer ${id}`,
+		email: null,
+		phone: null,
+		service_type: 'Other',
+		message: 'Hello there',
+		status: 'resolved',
+		priority: 'normal',
+		assigned_to: null,
+		routing_rules: null,
+		custom_fields: '{"company":"Acme"}',
+		ip_address: null,
+		user_agent: null,
+		spam_reason: null,
+		referrer: null,
+		source: 'form',
+		created_at: createdAt,
+		updated_at: createdAt,
+		...overrides,
+	};
+}
+
+/** Records every statement and answers from a fixed set of rows */
+function fakeDB(rows: SubmissionRow[]) {
+	const queries: { sql: string; params: unknown[] }[] = [];
+	const db = {
+		prepare(sql: string) {
+			const statement = {
+				params: [] as unknown[],
+				bind(...params: unknown[]) {
+					statement.params = params;
+					queries.push({ sql, params });
+					return statement;
+				},
+				async all() {
+					return { results: rows.slice(0, Number(statement.params[statement.params.length - 1])) };
+				},
+				async first() {
+					return rows.find((candidate) => candidate.id === statement.params[0]) ?? null;
+				},
+				async run() {
+					const id = statement.params[statement.params.length - 1];
+					return { meta: { changes: rows.some((candidate) => candidate.id === id) ? 1 : 0 } };
+				},
+			};
+			return statement;
+		},
+		async batch(statements: { run(): Promise<unknown> }[]) {
+			return Promise.all(statements.map((statement) => statement.run()));
+		},
+	};
+	return { env: { DB: db as unknown as D1Database } as Env, queries };
+}
+
+function call(env: Env, path: string, init?: RequestInit) {
+	const url = new URL(`https://example.com${path}`);
+	return handleApiRequest(new Request(url, init), env, {}, config, user, url, null, webhooks);
+}
+
+describe('Admin JSON API', () => {
+	const rows = [row('c', '2025-01-03 00:00:00'), row('b', '2025-01-02 00:00:00'), row('a', '2025-01-01 00:00:00')];
+
+	it('should list submissions with filters and a next cursor', async () => {
+		const { env, queries } = fakeDB(rows);
+		const response = await call(env, '/api/v1/submissions?status=resolved&assignee=none&limit=2');
+		const body = (await response.json()) as ListResponse;
+
+		expect(response.status).toBe(200);
+		expect(body.data.map((item) => item.id)).toEqual(['c', 'b']);
+		expect(body.data[0].custom_fields).toEqual({ company: 'Acme' });
+		expect(body.data[0].created_at).toBe('2025-01-03T00:00:00.000Z');
+		expect(body.next_cursor).toEqual(expect.any(String));
+		expect(queries[0].sql).toContain('submissions.status = ? AND submissions.assigned_to IS NULL');
+		expect(queries[0].sql).toContain('ORDER BY submissions.created_at DESC, submissions.id DESC');
+		expect(queries[0].params).toEqual(['resolved', 3]);
+
+		await call(env, `/api/v1/submissions?limit=2&cursor=${body.next_cursor}`);
+		expect(queries[1].sql).toContain('(submissions.created_at, submissions.id) < (?, ?)');
+		expect(queries[1].params).toEqual(['2025-01-02 00:00:00', 'b', 3]);
+	});
+
+	it('should sort priorities by their configured order', async () => {
+		const { env, queries } = fakeDB(rows);
+		await call(env, '/api/v1/submissions?sort=-priority');
+		expect(queries[0].sql).toContain('ORDER BY CASE submissions.priority WHEN ? THEN 0');
+		expect(queries[0].params).toEqual([...CONFIG.contactForm.priorityLevels.map((level) => level.value), 51]);
+	});
+
+	it('should rank search results and return highlighted snippets', async () => {
+		const { env, queries } = fakeDB([row('a', '2025-01-01 00:00:00', { snippet: '\u0002Invoice\u0003 <b>#42</b>', search_rank: -1.5 })]);
+		const body = (await (await call(env, '/api/v1/submissions?q=invoice')).json()) as ListResponse;
+
+		expect(queries[0].sql).toContain('FROM submissions_fts JOIN submissions');
+		expect(queries[0].sql).toContain('ORDER BY submissions_fts.rank ASC');
+		expect(queries[0].params[0]).toBe('"invoice"*');
+		expect(body.data[0].snippet).toBe('<mark>Invoice</mark> &lt;b&gt;#42&lt;/b&gt;');
+		expect(body.data[0]).not.toHaveProperty('search_rank');
+	});
+
+	it('should reject bad list parameters', async () => {
+		const { env } = fakeDB(rows);
+		expect((await call(env, '/api/v1/submissions?sort=ip_address')).status).toBe(400);
+		expect((await call(env, '/api/v1/submissions?limit=1000')).status).toBe(400);
+		expect((await call(env, '/api/v1/submissions?created_after=yesterday')).status).toBe(400);
+		const response = await call(env, '/api/v1/submissions?cursor=garbage');
+		expect(await response.json()).toMatchObject({ error: { code: 'invalid_cursor' } });
+	});
+
+	it('should get one submission or 404', async () => {
+		const { env } = fakeDB(rows);
+		expect(await (await call(env, '/api/v1/submissions/b')).json()).toMatchObject({ data: { id: 'b' } });
+		expect((await call(env, '/api/v1/submissions/zzz')).status).toBe(404);
+	});
+
+	it('should validate and apply PATCH changes', async () => {
+		const { env, queries } = fakeDB(rows);
+		const patch = (body: unknown, headers: Record<string, string> = { 'Content-Type': 'application/json' }) =>
+			call(env, '/api/v1/submissions/a', { method: 'PATCH', headers, body: JSON.stringify(body) });
+
+		expect((await patch({ status: 'new' }, { 'Content-Type': 'text/plain' })).status).toBe(415);
+		expect((await patch({ status: 'bogus' })).status).toBe(400);
+		expect((await patch({ name: 'Renamed' })).status).toBe(400);
+		expect((await patch({ assigned_to: 'not-an-email' })).status).toBe(400);
+		const stranger = await patch({ assigned_to: 'stranger@example.com' });
+		expect(stranger.status).toBe(400);
+		expect(await stranger.json()).toMatchObject({ error: { message: 'assigned_to must be an admin who can be assigned submissions' } });
+		expect(queries.some((query) => query.sql.includes('UPDATE'))).toBe(false);
+
+		const response = await patch({ status: 'in_progress', assigned_to: 'Agent@Example.com' }, { 'Content-Type': 'application/json', 'CF-Connecting-IP': '203.0.113.9' });
+		expect(response.status).toBe(200);
+		const update = queries.find((query) => query.sql.includes('UPDATE'))!;
+		expect(update.sql).toContain('SET status = ?, assigned_to = ?');
+		expect(update.params).toEqual(['in_progress', 'agent@example.com', 'a']);
+		const events = queries.filter((query) => query.sql.includes('INSERT INTO submission_events'));
+		expect(events.map((event) => event.params)).toEqual([
+			['a', 'status', 'resolved', 'in_progress', 'admin@example.com'],
+			['a', 'assigned_to', null, 'agent@example.com', 'admin@example.com'],
+		]);
+		const audit = queries.find((query) => query.sql.includes('INSERT INTO audit_log'))!;
+		expect(audit.params).toEqual([
+			'admin@example.com',
+			'submission.update',
+			'a',
+			'{"status":"resolved","assigned_to":null}',
+			'{"status":"in_progress","assigned_to":"agent@example.com"}',
+			'203.0.113.9',
+		]);
+	});
+
+	it('should delete submissions', async () => {
+		const { env, queries } = fakeDB(rows);
+		expect((await call(env, '/api/v1/submissions/a', { method: 'DELETE' })).status).toBe(204);
+		const audit = queries.find((query) => query.sql.includes('INSERT INTO audit_log'))!;
+		expect(audit.params.slice(0, 3)).toEqual(['admin@example.com', 'submission.delete', 'a']);
+		expect(audit.params[3]).not.toContain('Customer a');
+		expect((await call(env, '/api/v1/submissions/zzz', { method: 'DELETE' })).status).toBe(404);
+		expect((await call(env, '/api/v1/submissions', { method: 'POST' })).headers.get('Allow')).toBe('GET');
+	});
+});
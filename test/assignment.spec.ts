@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { createAssignmentEmail, getNewAssignee, listAssignees, notifyAssignee, notifyRoutedAssignee } from '../src/assignment';
+import { CONFIG } from '../src/config';
+import { createRecordingTransport } from '../src/email';
+import type { SubmissionRow } from '../src/types';
+
+const submission: SubmissionRow = {
+	id: 'abc 123',
+	form_id: 'default',
+	name: 'Jane',
+	email: 'jane@example.com',
+	phone: null,
+	service_type: 'Other',
+	message: 'Please call me',
+	status: 'new',
+	priority: 'urgent',
+	assigned_to: null,
+	custom_fields: null,
+	ip_address: null,
+	user_agent: null,
+	spam_reason: null,
+	referrer: null,
+	created_at: '2025-01-01 09:00:00',
+	updated_at: '2025-01-01 09:00:00',
+};
+
+describe('Submission assignment', () => {
+	it('should list configured admins and identities seen in the database', async () => {
+		const db = {
+			prepare: () => ({
+				all: async () => ({ results: [{ email: 'Ops@Example.com' }, { email: 'abc123.access' }, { email: 'admin@yourdomain.com' }] }),
+			}),
+		} as unknown as D1Database;
+		const config = { ...CONFIG, admin: { ...CONFIG.admin, assignees: ['zed@example.com'] } };
+
+		expect(await listAssignees(db, config)).toEqual(['admin@yourdomain.com', 'manager@yourdomain.com', 'ops@example.com', 'zed@example.com']);
+	});
+
+	it('should only notify someone newly assigned by a teammate', () => {
+		const assigned = { ...submission, assigned_to: 'ops@example.com' };
+		expect(getNewAssignee({ previous: submission, submission: assigned }, 'admin@example.com')).toBe('ops@example.com');
+		expect(getNewAssignee({ previous: submission, submission: assigned }, 'Ops@Example.com')).toBeNull();
+		expect(getNewAssignee({ previous: assigned, submission: assigned }, 'admin@example.com')).toBeNull();
+		expect(getNewAssignee({ previous: assigned, submission }, 'admin@example.com')).toBeNull();
+	});
+
+	it('should link the assignment email to the detail page', () => {
+		const email = createAssignmentEmail(submission, 'admin@example.com', CONFIG, 'https://forms.example.com');
+		expect(email.subject).toBe('Assigned to you: Other - Jane');
+		expect(email.text).toContain('admin@example.com assigned you a submission');
+		expect(email.text).toContain('Priority: Urgent');
+		expect(email.text).toContain('https://forms.example.com/admin/submissions/abc%20123');
+	});
+
+	it('should email the new assignee through the transport', async () => {
+		const mailer = createRecordingTransport();
+		const assigned = { ...submission, assigned_to: 'ops@example.com' };
+
+		await notifyAssignee(mailer, { previous: submission, submission: assigned }, 'admin@example.com', CONFIG, 'https://forms.example.com');
+		await notifyAssignee(mailer, { previous: assigned, submission: assigned }, 'admin@example.com', CONFIG, 'https://forms.example.com');
+
+		expect(mailer.sent).toHaveLength(1);
+		expect(mailer.sent[0]).toMatchObject({ to: ['ops@example.com'], subject: 'Assigned to you: Other - Jane', replyTo: 'jane@example.com' });
+	});
+
+	it('should email the assignee a routing rule picked', async () => {
+		const mailer = createRecordingTransport();
+		const db = {
+			prepare: () => ({ bind: () => ({ first: async () => ({ ...submission, assigned_to: 'ops@example.com' }) }) }),
+		} as unknown as D1Database;
+
+		await notifyRoutedAssignee(db, mailer, 'abc 123', CONFIG, 'https://forms.example.com');
+		expect(mailer.sent).toHaveLength(1);
+		expect(mailer.sent[0].to).toEqual(['ops@example.com']);
+		expect(mailer.sent[0].text).toContain('A routing rule assigned you a submission');
+	});
+});
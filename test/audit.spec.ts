@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { getAuditLogHTML } from '../src/admin-html';
+import { listAuditLog, parseAuditFilters, streamAuditCsv, type AuditLogRow } from '../src/audit';
+import { CONFIG } from '../src/config';
+import { csvField } from '../src/csv';
+
+const user = { email: 'admin@example.com' };
+
+const entry: AuditLogRow = {
+	id: 7,
+	actor: 'ops@example.com',
+	action: 'submission.status',
+	target_id: 'abc-123',
+	before_value: '{"status":"new"}',
+	after_value: '{"status":"resolved"}',
+	ip_address: '203.0.113.9',
+	created_at: '2025-01-02 10:30:00',
+};
+
+/** Records every statement and answers audit_log reads from answer */
+function fakeDB(answer: (params: unknown[]) => AuditLogRow[] = () => []) {
+	const queries: { sql: string; params: unknown[] }[] = [];
+	const db = {
+		prepare: (sql: string) => ({
+			bind: (...params: unknown[]) => {
+				queries.push({ sql, params });
+				return { all: async () => ({ results: answer(params) }) };
+			},
+		}),
+	} as unknown as D1Database;
+	return { db, queries };
+}
+
+describe('Audit log', () => {
+	it('should filter by actor, action, target and date', async () => {
+		const filters = parseAuditFilters(new URLSearchParams('actor=Ops@Example.com&action=submission.status&target=abc-123&created_after=2025-01-01&created_before=junk'));
+		expect(filters).toEqual({ actor: 'ops@example.com', action: 'submission.status', target: 'abc-123', createdAfter: '2025-01-01 00:00:00' });
+
+		const { db, queries } = fakeDB();
+		await listAuditLog(db, filters, 25, 50);
+		expect(queries[0].sql).toContain('WHERE actor = ? AND action = ? AND target_id = ? AND created_at >= ?');
+		expect(queries[0].params).toEqual(['ops@example.com', 'submission.status', 'abc-123', '2025-01-01 00:00:00', 25, 50]);
+	});
+
+	it('should render changes and link submissions', () => {
+		const html = getAuditLogHTML({ entries: [entry, { ...entry, id: 8, action: 'submission.delete', after_value: null }], filters: { actor: 'ops@example.com' }, page: 1, pageCount: 2, total: 30 }, user, CONFIG);
+		expect(html).toContain('<strong>status</strong>: new → resolved');
+		expect(html).toContain('<a href="/admin/submissions/abc-123">abc-123</a>');
+		expect(html.match(/href="\/admin\/submissions\//g)).toHaveLength(1);
+		expect(html).toContain('href="/admin/audit.csv?actor=ops%40example.com"');
+		expect(html).toContain('href="/admin/audit?actor=ops%40example.com&amp;page=2" rel="next"');
+	});
+
+	it('should export CSV with spreadsheet formulas neutralised', async () => {
+		expect(csvField('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"');
+		expect(csvField('-1')).toBe("'-1");
+		expect(csvField(-1)).toBe('-1');
+		expect(csvField(null)).toBe('');
+
+		const { db } = fakeDB(() => [entry]);
+		const csv = await new Response(streamAuditCsv(db, {})).text();
+		expect(csv.split('\r\n')[0]).toBe('id,created_at,actor,action,target_id,before,after,ip_address');
+		expect(csv.split('\r\n')[1]).toBe('7,2025-01-02 10:30:00,ops@example.com,submission.status,abc-123,"{""status"":""new""}","{""status"":""resolved""}",203.0.113.9');
+	});
+
+	it('should stream every entry a page at a time', async () => {
+		const entries = Array.from({ length: 5 }, (_, index) => ({ ...entry, id: 10 - index }));
+		// Past the first page, the cursor's id is the second-last parameter
+		const { db, queries } = fakeDB((params) => entries.filter((row) => params.length < 3 || row.id < Number(params[params.length - 2])).slice(0, 2));
+		const csv = await new Response(streamAuditCsv(db, { actor: 'ops@example.com' }, 2)).text();
+
+		expect(csv.trim().split('\r\n').slice(1).map((line) => line.split(',')[0])).toEqual(['10', '9', '8', '7', '6']);
+		expect(queries).toHaveLength(3);
+		expect(queries[0].params).toEqual(['ops@example.com', 2]);
+		expect(queries[1].sql).toContain('WHERE actor = ? AND (created_at, id) < (?, ?)');
+		expect(queries[1].params).toEqual(['ops@example.com', '2025-01-02 10:30:00', 9, 2]);
+	});
+});
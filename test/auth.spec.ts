@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { clearJwksCache, requireAdmin, verifyAccessJwt } from '../src/auth';
+import { CONFIG } from '../src/config';
+import type { Env } from '../src/types';
+
+const TEAM_DOMAIN = 'example-team.cloudflareaccess.com';
+const ISSUER = `https://${TEAM_DOMAIN}`;
+const AUDIENCE = 'test-audience-tag';
+
+let keyPair: CryptoKeyPair;
+let otherKeyPair: CryptoKeyPair;
+let jwksFetches = 0;
+
+function base64UrlEncode(data: string | Uint8Array): string {
+	const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+	let binary = '';
+	bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+	return btoa(binary).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+async function signToken(payload: Record<string, unknown>, key = keyPair.privateKey, kid = 'test-key'): Promise<string> {
+	const header = base64UrlEncode(JSON.stringify({ alg: 'RS256', kid, typ: 'JWT' }));
+	const body = base64UrlEncode(JSON.stringify(payload));
+	const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(`${header}.${body}`));
+	return `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+function validClaims(overrides: Record<string, unknown> = {}) {
+	const now = Math.floor(Date.now() / 1000);
+	return { email: 'admin@example.com', aud: [AUDIENCE], iss: ISSUER, iat: now, exp: now + 300, ...overrides };
+}
+
+// Local JWKS stand-in for https://<team>.cloudflareaccess.com/cdn-cgi/access/certs
+const fetcher = (async (input: RequestInfo | URL) => {
+	jwksFetches++;
+	expect(String(input)).toBe(`${ISSUER}/cdn-cgi/access/certs`);
+	const jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+	return new Response(JSON.stringify({ keys: [{ ...jwk, kid: 'test-key' }] }));
+}) as typeof fetch;
+
+const options = { teamDomain: TEAM_DOMAIN, audience: AUDIENCE, fetcher };
+
+beforeAll(async () => {
+	const params = { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' };
+	keyPair = (await crypto.subtle.generateKey(params, true, ['sign', 'verify'])) as CryptoKeyPair;
+	otherKeyPair = (await crypto.subtle.generateKey(params, true, ['sign', 'verify'])) as CryptoKeyPair;
+});
+
+describe('Cloudflare Access JWT verification', () => {
+	beforeEach(() => {
+		clearJwksCache();
+		jwksFetches = 0;
+	});
+
+	it('should accept a correctly signed token', async () => {
+		const result = await verifyAccessJwt(await signToken(validClaims()), options);
+		expect(result.user?.email).toBe('admin@example.com');
+	});
+
+	it('should identify service tokens by their client id', async () => {
+		const result = await verifyAccessJwt(await signToken(validClaims({ email: undefined, common_name: 'abc123.access' })), options);
+		expect(result.user?.email).toBe('abc123.access');
+	});
+
+	it('should cache the key set between verifications', async () => {
+		await verifyAccessJwt(await signToken(validClaims()), options);
+		await verifyAccessJwt(await signToken(validClaims()), options);
+		expect(jwksFetches).toBe(1);
+	});
+
+	it('should reject a forged signature', async () => {
+		const result = await verifyAccessJwt(await signToken(validClaims(), otherKeyPair.privateKey), options);
+		expect(result).toEqual({ user: null, reason: 'Invalid JWT signature' });
+	});
+
+	it('should reject an unsigned token', async () => {
+		const header = base64UrlEncode(JSON.stringify({ alg: 'none', kid: 'test-key' }));
+		const body = base64UrlEncode(JSON.stringify(validClaims()));
+		const result = await verifyAccessJwt(`${header}.${body}.`, options);
+		expect(result.reason).toBe('Unsupported JWT algorithm: none');
+	});
+
+	it('should reject an unknown key id', async () => {
+		const result = await verifyAccessJwt(await signToken(validClaims(), keyPair.privateKey, 'rotated-away'), options);
+		expect(result.reason).toBe('No signing key found for kid rotated-away');
+	});
+
+	it('should refetch keys for an unknown kid at most once a minute', async () => {
+		const start = Date.now();
+		const clock = vi.spyOn(Date, 'now').mockReturnValue(start);
+		try {
+			await verifyAccessJwt(await signToken(validClaims()), options);
+			await verifyAccessJwt(await signToken(validClaims(), keyPair.privateKey, 'made-up-1'), options);
+			await verifyAccessJwt(await signToken(validClaims(), keyPair.privateKey, 'made-up-2'), options);
+			expect(jwksFetches).toBe(1);
+
+			clock.mockReturnValue(start + 61_000);
+			await verifyAccessJwt(await signToken(validClaims(), keyPair.privateKey, 'made-up-3'), options);
+			expect(jwksFetches).toBe(2);
+		} finally {
+			clock.mockRestore();
+		}
+	});
+
+	it('should say when the signing keys cannot be fetched', async () => {
+		const failing = (async () => new Response('unavailable', { status: 503 })) as unknown as typeof fetch;
+		const result = await verifyAccessJwt(await signToken(validClaims()), { ...options, fetcher: failing });
+		expect(result).toEqual({ user: null, reason: 'Unable to fetch Access signing keys' });
+	});
+
+	it('should reject the wrong audience', async () => {
+		const result = await verifyAccessJwt(await signToken(validClaims({ aud: ['another-app'] })), options);
+		expect(result.reason).toBe('JWT audience does not match this application');
+	});
+
+	it('should reject the wrong issuer', async () => {
+		const result = await verifyAccessJwt(await signToken(validClaims({ iss: 'https://evil.cloudflareaccess.com' })), options);
+		expect(result.reason).toContain('JWT issuer mismatch');
+	});
+
+	it('should reject an expired token', async () => {
+		const result = await verifyAccessJwt(await signToken(validClaims({ exp: Math.floor(Date.now() / 1000) - 3600 })), options);
+		expect(result.reason).toBe('JWT token expired');
+	});
+
+	it('should reject a malformed token', async () => {
+		const result = await verifyAccessJwt('not-a-jwt', options);
+		expect(result.reason).toBe('Invalid JWT token format');
+	});
+});
+
+describe('Admin guard', () => {
+	const env = { ENVIRONMENT: 'production', ACCESS_TEAM_DOMAIN: TEAM_DOMAIN, ACCESS_AUD: AUDIENCE } as Env;
+	const withFeatures = (features: Partial<typeof CONFIG.features>) => ({ ...CONFIG, features: { ...CONFIG.features, ...features } });
+	const adminRequest = (token?: string) =>
+		new Request('https://intake.example.com/admin/update', {
+			method: 'POST',
+			headers: token ? { 'Cf-Access-Jwt-Assertion': token } : {},
+		});
+
+	beforeEach(() => {
+		clearJwksCache();
+		vi.stubGlobal('fetch', fetcher);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should return 401 when no Access token is presented', async () => {
+		const result = await requireAdmin(adminRequest(), env, {}, CONFIG);
+		expect(result.user).toBeNull();
+		expect(result.response?.status).toBe(401);
+	});
+
+	it('should pass the verified user through', async () => {
+		const result = await requireAdmin(adminRequest(await signToken(validClaims())), env, {}, CONFIG);
+		expect(result.response).toBeUndefined();
+		expect(result.user?.email).toBe('admin@example.com');
+	});
+
+	it('should return 403 for users outside the admin list', async () => {
+		const config = withFeatures({ enableAdminAuth: true, enableCloudflareAccess: false });
+		const result = await requireAdmin(adminRequest(await signToken(validClaims())), env, {}, config);
+		expect(result.response?.status).toBe(403);
+	});
+
+	it('should refuse disabled authentication outside development', async () => {
+		const config = withFeatures({ enableAdminAuth: false, enableCloudflareAccess: false });
+		const result = await requireAdmin(adminRequest(), env, {}, config);
+		expect(result.response?.status).toBe(401);
+
+		const devResult = await requireAdmin(adminRequest(), { ...env, ENVIRONMENT: 'development' }, {}, config);
+		expect(devResult.user).not.toBeNull();
+	});
+});
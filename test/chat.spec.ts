@@ -0,0 +1,112 @@
+import { createHmac } from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import {
+	formatDiscordMessage,
+	formatSlackMessage,
+	formatTeamsMessage,
+	getSlackStatusUpdate,
+	parseSlackAction,
+	verifySlackRequest,
+} from '../src/chat';
+import { CONFIG } from '../src/config';
+import type { FormSubmission } from '../src/types';
+
+const SECRET = 'slack-signing-secret';
+const ADMIN_URL = 'https://contact.example.com/admin/submissions/abc-123';
+
+const submission: FormSubmission = {
+	id: 'abc-123',
+	reference: 'REF-7K2M-X9QD',
+	form_id: 'default',
+	name: 'Jane <Doe>',
+	email: 'jane@example.com',
+	service_type: 'Technical Support',
+	priority: 'urgent',
+	message: 'Site is down <!channel> @everyone\n**please** help',
+	timestamp: '2025-01-01T09:00:00.000Z',
+};
+
+function sign(timestamp: number, body: string): string {
+	return `v0=${createHmac('sha256', SECRET).update(`v0:${timestamp}:${body}`).digest('hex')}`;
+}
+
+function interaction(actionId: string, blocks: unknown[] = []): string {
+	const payload = {
+		type: 'block_actions',
+		user: { id: 'U0123ABCD', username: 'sam' },
+		response_url: 'https://hooks.slack.com/actions/T1/1/abc',
+		message: { blocks },
+		actions: [{ action_id: actionId, value: 'abc-123' }],
+	};
+	return new URLSearchParams({ payload: JSON.stringify(payload) }).toString();
+}
+
+describe('Chat notifications', () => {
+	it('should post Slack blocks with escaped text and status buttons', () => {
+		const message = formatSlackMessage(submission, CONFIG, ADMIN_URL, true) as { text: string; blocks: Record<string, any>[] };
+		const json = JSON.stringify(message);
+		expect(message.text).toContain('New Technical Support enquiry from Jane <Doe>');
+		expect(json).toContain('Jane &lt;Doe&gt;');
+		expect(json).toContain('&lt;!channel&gt;');
+		expect(json).not.toContain('<!channel>');
+		expect(json).toContain('Urgent (respond within 2h)');
+
+		const actions = message.blocks.find((block) => block.type === 'actions')!;
+		expect(actions.elements.map((element: { action_id: string }) => element.action_id)).toEqual([
+			'submission.status.in_progress',
+			'submission.status.resolved',
+			'open_admin',
+		]);
+		expect(actions.elements[0].value).toBe('abc-123');
+
+		const withoutSecret = formatSlackMessage(submission, CONFIG, '', false) as { blocks: Record<string, any>[] };
+		expect(withoutSecret.blocks.some((block) => block.type === 'actions')).toBe(false);
+	});
+
+	it('should format Teams cards and Discord embeds from the same details', () => {
+		const teams = formatTeamsMessage(submission, CONFIG, ADMIN_URL) as { attachments: { content: Record<string, any> }[] };
+		const card = teams.attachments[0].content;
+		expect(card.type).toBe('AdaptiveCard');
+		expect(card.body[1].facts).toContainEqual({ title: 'Reference', value: 'REF-7K2M-X9QD' });
+		expect(card.actions[0]).toEqual({ type: 'Action.OpenUrl', title: 'Open in admin panel', url: ADMIN_URL });
+
+		const discord = formatDiscordMessage(submission, CONFIG, ADMIN_URL) as { allowed_mentions: unknown; embeds: Record<string, any>[] };
+		expect(discord.allowed_mentions).toEqual({ parse: [] });
+		expect(discord.embeds[0].color).toBe(0xdc2626);
+		expect(discord.embeds[0].url).toBe(ADMIN_URL);
+		expect(discord.embeds[0].description).toContain('\\*\\*please\\*\\*');
+		expect(discord.embeds[0].fields).toContainEqual({ name: 'Priority', value: 'Urgent (respond within 2h)', inline: true });
+	});
+
+	it('should only accept recent requests signed with the signing secret', async () => {
+		const now = 1_735_722_000_000;
+		const timestamp = now / 1000;
+		const body = interaction('submission.status.resolved');
+
+		expect(await verifySlackRequest(SECRET, String(timestamp), sign(timestamp, body), body, now)).toBe(true);
+		expect(await verifySlackRequest(SECRET, String(timestamp), sign(timestamp, body), `${body}x`, now)).toBe(false);
+		expect(await verifySlackRequest('other-secret', String(timestamp), sign(timestamp, body), body, now)).toBe(false);
+		expect(await verifySlackRequest(SECRET, String(timestamp - 600), sign(timestamp - 600, body), body, now)).toBe(false);
+		expect(await verifySlackRequest(SECRET, null, sign(timestamp, body), body, now)).toBe(false);
+	});
+
+	it('should parse button clicks and update the message with who acted', () => {
+		const original = formatSlackMessage(submission, CONFIG, ADMIN_URL, true) as { blocks: Record<string, unknown>[] };
+		expect(parseSlackAction(interaction('open_admin'))).toBeNull();
+		expect(parseSlackAction('payload=not-json')).toBeNull();
+
+		const action = parseSlackAction(interaction('submission.status.in_progress', original.blocks))!;
+		expect(action).toMatchObject({ submissionId: 'abc-123', status: 'in_progress', userId: 'U0123ABCD', userName: 'sam' });
+
+		const update = getSlackStatusUpdate(action, CONFIG) as { replace_original: boolean; blocks: Record<string, any>[] };
+		expect(update.replace_original).toBe(true);
+		expect(JSON.stringify(update.blocks)).toContain('*In Progress* by <@U0123ABCD>');
+		const buttons = update.blocks.find((block) => block.type === 'actions')!.elements;
+		expect(buttons.map((element: { action_id: string }) => element.action_id)).toEqual(['submission.status.resolved', 'open_admin']);
+
+		const resolved = getSlackStatusUpdate({ ...action, status: 'resolved', blocks: update.blocks }, CONFIG) as { blocks: Record<string, any>[] };
+		const statusLines = resolved.blocks.filter((block) => block.type === 'context');
+		expect(statusLines).toHaveLength(1);
+		expect(resolved.blocks.find((block) => block.type === 'actions')!.elements).toHaveLength(1);
+	});
+});
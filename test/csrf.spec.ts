@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { CSRF_COOKIE_NAME, getCsrfSession, verifyCsrfRequest } from '../src/csrf';
+
+const ORIGIN = 'https://intake.example.com';
+const TOKEN = 'a'.repeat(64);
+
+function postUpdate(headers: Record<string, string>, token: string | null = TOKEN): Request {
+	const body = new URLSearchParams({ id: 'sub-1', status: 'resolved' });
+	if (token !== null) {
+		body.set('csrf_token', token);
+	}
+	return new Request(`${ORIGIN}/admin/update`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/x-www-form-urlencoded', Cookie: `${CSRF_COOKIE_NAME}=${TOKEN}`, ...headers },
+		body,
+	});
+}
+
+describe('CSRF protection', () => {
+	it('should issue a session token only when the cookie is absent', () => {
+		const fresh = getCsrfSession(new Request(`${ORIGIN}/admin`));
+		expect(fresh.token).toMatch(/^[0-9a-f]{64}$/);
+		expect(fresh.setCookie).toContain(`${CSRF_COOKIE_NAME}=${fresh.token}`);
+
+		const existing = getCsrfSession(new Request(`${ORIGIN}/admin`, { headers: { Cookie: `${CSRF_COOKIE_NAME}=${TOKEN}` } }));
+		expect(existing).toEqual({ token: TOKEN });
+	});
+
+	it('should accept a same-origin form with a matching token', async () => {
+		expect(await verifyCsrfRequest(postUpdate({ Origin: ORIGIN }))).toBeNull();
+		expect(await verifyCsrfRequest(postUpdate({ Referer: `${ORIGIN}/admin` }))).toBeNull();
+	});
+
+	it('should leave the body readable for the handler', async () => {
+		const request = postUpdate({ Origin: ORIGIN });
+		await verifyCsrfRequest(request);
+		expect((await request.formData()).get('status')).toBe('resolved');
+	});
+
+	it('should reject cross-origin requests', async () => {
+		expect(await verifyCsrfRequest(postUpdate({ Origin: 'https://evil.example' }))).toContain('Cross-origin');
+		expect(await verifyCsrfRequest(postUpdate({}))).toBe('Missing Origin and Referer headers');
+	});
+
+	it('should reject missing or mismatched tokens', async () => {
+		expect(await verifyCsrfRequest(postUpdate({ Origin: ORIGIN }, null))).toBe('CSRF token missing or invalid');
+		expect(await verifyCsrfRequest(postUpdate({ Origin: ORIGIN }, 'b'.repeat(64)))).toBe('CSRF token missing or invalid');
+	});
+});
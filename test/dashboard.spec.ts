@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG } from '../src/config';
+import { getAdminHTML } from '../src/html';
+import { countSubmissions, getSubmissionStats, listSubmissions, parseSubmissionFilters, toFilterParams } from '../src/submissions';
+
+const user = { email: 'admin@example.com' };
+const NOW = Date.UTC(2025, 0, 10);
+
+/** Records statements and answers every query with the given results */
+function fakeDB(answer: (sql: string) => unknown) {
+	const queries: { sql: string; params: unknown[] }[] = [];
+	const db = {
+		prepare(sql: string) {
+			let params: unknown[] = [];
+			const statement = {
+				bind(...values: unknown[]) {
+					params = values;
+					return statement;
+				},
+				async all() {
+					queries.push({ sql, params });
+					return { results: answer(sql) };
+				},
+				async first() {
+					queries.push({ sql, params });
+					return answer(sql);
+				},
+			};
+			return statement;
+		},
+	};
+	return { db: db as unknown as D1Database, queries };
+}
+
+describe('Admin dashboard queries', () => {
+	it('should parse filters from the query string and back', () => {
+		const params = new URLSearchParams('q=refund&status=new&service=Other&priority=high&created_after=2025-01-01&created_before=nope');
+		const filters = parseSubmissionFilters(params);
+		expect(filters).toEqual({ search: 'refund', status: 'new', service: 'Other', priority: 'high', createdAfter: '2025-01-01 00:00:00' });
+		expect(toFilterParams(filters).toString()).toBe('q=refund&status=new&priority=high&service=Other&created_after=2025-01-01T00%3A00%3A00.000Z');
+	});
+
+	it('should search through the full-text index', async () => {
+		const { db, queries } = fakeDB(() => ({ count: 3 }));
+		expect(await countSubmissions(db, { search: 'acme.com "invoice" OR', status: 'new' })).toBe(3);
+		expect(queries[0].sql).toContain('FROM submissions_fts JOIN submissions ON submissions.rowid = submissions_fts.rowid');
+		expect(queries[0].sql).toContain('submissions_fts MATCH ? AND submissions.status = ?');
+		expect(queries[0].params).toEqual(['"acme.com"* """invoice"""* "OR"*', 'new']);
+	});
+
+	it('should page with LIMIT and OFFSET', async () => {
+		const { db, queries } = fakeDB(() => []);
+		await listSubmissions(db, { filters: {}, sort: { field: 'name', direction: 'asc' }, limit: 25, offset: 50 }, CONFIG);
+		expect(queries[0].sql).toContain('ORDER BY submissions.name ASC, submissions.id ASC');
+		expect(queries[0].sql).toContain('LIMIT ? OFFSET ?');
+		expect(queries[0].params).toEqual([26, 50]);
+	});
+
+	it('should count statuses and overdue submissions in SQL', async () => {
+		const { db, queries } = fakeDB((sql) =>
+			sql.includes('GROUP BY status') ? [{ status: 'new', count: 4 }, { status: 'resolved', count: 6 }] : { count: 2 },
+		);
+		expect(await getSubmissionStats(db, CONFIG, NOW)).toEqual({ total: 10, byStatus: { new: 4, resolved: 6 }, overdue: 2 });
+
+		const overdue = queries.find((query) => query.sql.includes('COALESCE'))!;
+		const urgent = CONFIG.contactForm.priorityLevels.findIndex((level) => level.value === 'urgent');
+		expect(overdue.params[0]).toBe('new');
+		expect(overdue.params.slice(1 + urgent * 3, 4 + urgent * 3)).toEqual(['normal', 'urgent', '2025-01-09 22:00:00']);
+	});
+});
+
+describe('Admin dashboard rendering', () => {
+	const view = {
+		filters: { status: 'new', search: 'refund' },
+		page: 2,
+		pageCount: 3,
+		total: 60,
+		stats: { total: 80, byStatus: { new: 60, in_progress: 5 }, overdue: 7 },
+	};
+
+	it('should show SQL stats and keep the filters in the form', () => {
+		const html = getAdminHTML([], user, CONFIG, 'token', view);
+		expect(html).toContain('<span class="stat-number">80</span>');
+		expect(html).toContain('<span class="stat-number">7</span>');
+		expect(html).toContain('name="q" value="refund"');
+		expect(html).toContain('<option value="new" selected>New</option>');
+		expect(html).toContain(CONFIG.admin.emptyState.filteredTitle);
+	});
+
+	it('should link pages and sortable columns with the current filters', () => {
+		const html = getAdminHTML([], user, CONFIG, 'token', view);
+		expect(html).toContain('60 matching · Page 2 of 3');
+		expect(html).toContain('href="/admin?q=refund&amp;status=new" rel="prev"');
+		expect(html).toContain('href="/admin?q=refund&amp;status=new&amp;page=3" rel="next"');
+		expect(html).toContain('href="/admin?q=refund&amp;status=new&amp;sort=-created_at" class="sort-link">Date</a>');
+		expect(html).toContain('href="/admin?q=refund&amp;status=new&amp;sort=name" class="sort-link">Name</a>');
+	});
+
+	it('should offer "My submissions" and "Unassigned" views', () => {
+		const html = getAdminHTML([], user, CONFIG, 'token', { ...view, assignees: ['ops@example.com'] });
+		expect(html).toContain('href="/admin?q=refund&amp;status=new&amp;assignee=admin%40example.com" class="quick-view">My submissions</a>');
+		expect(html).toContain('href="/admin?q=refund&amp;status=new&amp;assignee=none" class="quick-view">Unassigned</a>');
+		expect(html).toContain('<option value="ops@example.com">ops@example.com</option>');
+		expect(parseSubmissionFilters(new URLSearchParams('assignee=Ops@Example.com')).assignee).toBe('ops@example.com');
+	});
+
+	it('should show search snippets instead of the truncated message', () => {
+		const submission = {
+			id: '1',
+			name: 'Jane',
+			service_type: 'Other',
+			message: 'A long message that mentions the refund somewhere in the middle',
+			status: 'new',
+			created_at: '2025-01-01 00:00:00',
+			snippet: '…mentions the \u0002refund\u0003 <somewhere>…',
+		};
+		const html = getAdminHTML([submission], user, CONFIG, 'token', view);
+		expect(html).toContain('<div class="message-preview">…mentions the <mark>refund</mark> &lt;somewhere&gt;…</div>');
+	});
+});
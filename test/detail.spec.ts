@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { getSubmissionDetailHTML } from '../src/admin-html';
+import { CONFIG } from '../src/config';
+import type { SubmissionRow } from '../src/types';
+
+const user = { email: 'admin@example.com' };
+
+const submission: SubmissionRow = {
+	id: 'abc-123',
+	reference: null,
+	form_id: 'default',
+	name: '<script>alert(1)</script>',
+	email: 'jane@example.com',
+	phone: '+1 555 0100',
+	service_type: 'Other',
+	message: 'Line one\nLine <two>',
+	status: 'in_progress',
+	priority: 'high',
+	assigned_to: 'api-set@example.com',
+	routing_rules: '["Sales enquiries","<VIP>"]',
+	custom_fields: '{"legacy_field":"kept"}',
+	ip_address: '203.0.113.7',
+	user_agent: 'Mozilla/5.0',
+	spam_reason: null,
+	referrer: 'https://example.com/pricing?utm=<x>',
+	source: 'form',
+	created_at: '2025-01-01 09:00:00',
+	updated_at: '2025-01-02 10:30:00',
+};
+
+describe('Submission detail page', () => {
+	const html = getSubmissionDetailHTML(
+		{
+			submission,
+			events: [
+				{ id: 2, submission_id: 'abc-123', field: 'priority', old_value: 'normal', new_value: 'high', actor: 'ops@example.com', created_at: '2025-01-02 10:30:00' },
+				{ id: 1, submission_id: 'abc-123', field: 'status', old_value: 'new', new_value: 'in_progress', actor: 'ops@example.com', created_at: '2025-01-01 12:00:00' },
+			],
+			notes: [{ id: 1, submission_id: 'abc-123', author: 'ops@example.com', body: 'Called back, <b>left voicemail</b>', created_at: '2025-01-01 18:00:00' }],
+			messages: [
+				{
+					id: 1,
+					submission_id: 'abc-123',
+					direction: 'outbound',
+					message_id: '<m1@mg.example.com>',
+					in_reply_to: '<submission.abc-123@mg.example.com>',
+					from_address: 'Your Company Name <support@mg.example.com>',
+					to_address: 'jane@example.com',
+					subject: 'Re: Your Other enquiry',
+					body: 'We will call you <tomorrow>',
+					sent_by: 'ops@example.com',
+					status: 'failed',
+					created_at: '2025-01-02 08:00:00',
+				},
+			],
+			assignees: ['admin@example.com', 'ops@example.com'],
+		},
+		user,
+		CONFIG,
+		'csrf-token',
+	);
+
+	it('should escape submitted values', () => {
+		expect(html).not.toContain('<script>alert(1)</script>');
+		expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+		expect(html).toContain('Line one\nLine &lt;two&gt;');
+		expect(html).toContain('https://example.com/pricing?utm=&lt;x&gt;');
+	});
+
+	it('should show contact links, metadata and stored custom fields', () => {
+		expect(html).toContain('href="mailto:jane@example.com"');
+		expect(html).toContain('203.0.113.7');
+		expect(html).toContain('2025-01-01 09:00 UTC');
+		expect(html).toContain('legacy_field');
+		expect(html).toContain('<dt>Routing rules</dt><dd>Sales enquiries, &lt;VIP&gt;</dd>');
+	});
+
+	it('should post status and priority changes with a CSRF token', () => {
+		expect(html).toContain('action="/admin/update"');
+		expect(html).toContain('action="/admin/priority"');
+		expect(html).toContain('action="/admin/assign"');
+		expect(html).toContain('action="/admin/submissions/abc-123/notes"');
+		expect(html).toContain('action="/admin/submissions/abc-123/reply"');
+		expect(html.match(/name="csrf_token" value="csrf-token"/g)).toHaveLength(5);
+	});
+
+	it('should offer teammates for assignment, keeping an unlisted current assignee', () => {
+		expect(html).toContain('<option value="admin@example.com">admin@example.com (me)</option>');
+		expect(html).toContain('<option value="api-set@example.com" selected>api-set@example.com</option>');
+	});
+
+	it('should list history oldest first with configured labels', () => {
+		const created = html.indexOf('Submitted the form');
+		const status = html.indexOf('Status changed from <strong>New</strong> to <strong>In Progress</strong>');
+		const priority = html.indexOf('Priority changed from <strong>Normal</strong> to <strong>High</strong>');
+		expect(created).toBeGreaterThan(-1);
+		expect(status).toBeGreaterThan(created);
+		const note = html.indexOf('Called back, &lt;b&gt;left voicemail&lt;/b&gt;');
+		const reply = html.indexOf('We will call you &lt;tomorrow&gt;');
+		expect(note).toBeGreaterThan(status);
+		expect(reply).toBeGreaterThan(note);
+		expect(priority).toBeGreaterThan(reply);
+		expect(html).toContain('<span class="message-failed">Not sent</span>');
+	});
+
+	it('should start the history of an emailed-in submission with the email', () => {
+		const emailed = getSubmissionDetailHTML(
+			{ submission: { ...submission, source: 'email' }, events: [], notes: [], messages: [], assignees: [] },
+			user,
+			CONFIG,
+			'csrf-token',
+		);
+		expect(emailed).toContain('Sent an email to the intake address');
+		expect(emailed).not.toContain('Submitted the form');
+	});
+});
@@ -0,0 +1,164 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { CONFIG } from '../src/config';
+import { createCloudflareTransport, formatMailbox, getEmailTransport, getMailDomain, toMimeMessage, type EmailMessageConstructor, type OutgoingEmail } from '../src/email';
+import type { Env } from '../src/types';
+
+const message: OutgoingEmail = {
+	to: ['jane@example.com'],
+	subject: 'Re: Your enquiry',
+	text: 'Thanks for getting in touch 👋',
+	from: 'Your Company Name <support@example.com>',
+	replyTo: 'support+abc-123@example.com',
+	headers: { 'Message-Id': '<m1@example.com>', 'In-Reply-To': '<submission.abc-123@example.com>' },
+};
+
+/** Stands in for EmailMessage from "cloudflare:email" */
+class FakeEmailMessage {
+	constructor(
+		readonly from: string,
+		readonly to: string,
+		readonly raw: string,
+	) {}
+}
+const emailMessage = FakeEmailMessage as unknown as EmailMessageConstructor;
+
+function binding() {
+	const sent: FakeEmailMessage[] = [];
+	return { sent, send: async (email: EmailMessage) => void sent.push(email as unknown as FakeEmailMessage) };
+}
+
+const baseEnv = { FROM_EMAIL: 'notify@example.com' } as Env;
+
+describe('Email transports', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should pick the configured transport, or the first available on auto', () => {
+		const sender = binding();
+		expect(getEmailTransport(baseEnv, CONFIG, emailMessage)).toBeNull();
+		expect(getEmailTransport({ ...baseEnv, MG_API_KEY: 'key', EMAIL_SENDER: sender }, CONFIG, emailMessage)?.name).toBe('mailgun');
+		expect(getEmailTransport({ ...baseEnv, EMAIL_SENDER: sender }, CONFIG, emailMessage)?.name).toBe('cloudflare');
+		expect(getEmailTransport({ ...baseEnv, EMAIL_API_URL: 'https://api.example.com/send' }, CONFIG, emailMessage)?.name).toBe('http');
+		expect(getEmailTransport({ ...baseEnv, MG_API_KEY: 'key', EMAIL_SENDER: sender, EMAIL_TRANSPORT: 'cloudflare' }, CONFIG, emailMessage)?.name).toBe('cloudflare');
+		expect(getEmailTransport({ ...baseEnv, EMAIL_TRANSPORT: 'fake' }, CONFIG, emailMessage)?.name).toBe('fake');
+		// Forced but not configured
+		expect(getEmailTransport({ ...baseEnv, EMAIL_TRANSPORT: 'mailgun' }, CONFIG, emailMessage)).toBeNull();
+	});
+
+	it('should quote display names that would break the From header', () => {
+		expect(formatMailbox('Your Company Name', 'support@example.com')).toBe('Your Company Name <support@example.com>');
+		expect(formatMailbox('Acme, Inc.', 'support@example.com')).toBe('"Acme, Inc." <support@example.com>');
+		expect(formatMailbox('The "Best" Co\\', 'support@example.com')).toBe('"The \\"Best\\" Co\\\\" <support@example.com>');
+		expect(formatMailbox('Café\r\nBcc: x@evil.example', 'support@example.com')).toBe('"Café Bcc: x@evil.example" <support@example.com>');
+		expect(formatMailbox(' ', 'support@example.com')).toBe('support@example.com');
+		expect(toMimeMessage(message, formatMailbox('Acme, Inc.', 'support@example.com'))).toContain(`From: =?utf-8?B?${btoa('Acme, Inc.')}?= <support@example.com>`);
+	});
+
+	it('should fall back to the FROM_EMAIL domain for message ids', () => {
+		expect(getMailDomain(baseEnv)).toBe('example.com');
+		expect(getMailDomain({ ...baseEnv, MG_DOMAIN: 'mg.example.com' })).toBe('mg.example.com');
+	});
+
+	it('should map messages onto Mailgun form fields', async () => {
+		const calls: [string, URLSearchParams][] = [];
+		vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+			calls.push([url, new URLSearchParams(init.body as string)]);
+			return new Response('{}', { status: 200 });
+		});
+		const mailer = getEmailTransport({ ...baseEnv, MG_API_KEY: 'key', MG_DOMAIN: 'mg.example.com' }, CONFIG, emailMessage)!;
+
+		expect(await mailer.send(message)).toBe(true);
+		const [url, params] = calls[0];
+		expect(url).toBe('https://api.mailgun.net/v3/mg.example.com/messages');
+		expect(params.get('to')).toBe('jane@example.com');
+		expect(params.get('h:Reply-To')).toBe('support+abc-123@example.com');
+		expect(params.get('h:Message-Id')).toBe('<m1@example.com>');
+		expect(params.has('html')).toBe(false);
+		expect(params.get('from')).toBe('Your Company Name <support@example.com>');
+
+		await mailer.send({ ...message, cc: ['sales@example.com', 'ops@example.com'], html: '<p>Thanks</p>' });
+		expect(calls[1][1].get('cc')).toBe('sales@example.com, ops@example.com');
+		expect(calls[1][1].get('html')).toBe('<p>Thanks</p>');
+
+		// Without a from of its own, a message goes out as the system sender
+		await mailer.send({ ...message, from: undefined });
+		expect(calls[2][1].get('from')).toBe('Contact Form System <notify@example.com>');
+	});
+
+	it('should post JSON to an HTTP email API', async () => {
+		const calls: RequestInit[] = [];
+		vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+			calls.push(init);
+			return new Response('{}', { status: calls.length === 1 ? 200 : 503 });
+		});
+		const mailer = getEmailTransport({ ...baseEnv, EMAIL_API_URL: 'https://api.example.com/send', EMAIL_API_KEY: 'secret' }, CONFIG, emailMessage)!;
+
+		expect(await mailer.send({ ...message, from: undefined })).toBe(true);
+		expect((calls[0].headers as Record<string, string>).Authorization).toBe('Bearer secret');
+		expect(JSON.parse(calls[0].body as string)).toMatchObject({
+			from: 'Contact Form System <notify@example.com>',
+			to: ['jane@example.com'],
+			reply_to: 'support+abc-123@example.com',
+		});
+		expect(await mailer.send({ ...message, cc: ['sales@example.com'], html: '<p>Thanks</p>' })).toBe(false);
+		expect(JSON.parse(calls[1].body as string)).toMatchObject({ cc: ['sales@example.com'], text: message.text, html: '<p>Thanks</p>' });
+	});
+
+	it('should send one MIME message per recipient through send_email', async () => {
+		const sender = binding();
+		const mailer = createCloudflareTransport(sender, 'Contact Form System <notify@example.com>', emailMessage);
+
+		expect(await mailer.send({ ...message, to: ['a@example.com', 'b@example.com'], cc: ['c@example.com'] })).toBe(true);
+		expect(sender.sent.map((email) => [email.from, email.to])).toEqual([
+			['support@example.com', 'a@example.com'],
+			['support@example.com', 'b@example.com'],
+			['support@example.com', 'c@example.com'],
+		]);
+		expect(sender.sent[0].raw).toContain('Cc: <c@example.com>');
+
+		const failing = createCloudflareTransport({ send: async () => Promise.reject(new Error('destination not verified')) }, 'notify@example.com', emailMessage);
+		expect(await failing.send(message)).toBe(false);
+	});
+
+	it('should only retry the recipients send_email did not reach', async () => {
+		const attempts: string[] = [];
+		let verified = ['a@example.com', 'c@example.com'];
+		const sender = {
+			send: async (email: EmailMessage) => {
+				const to = (email as unknown as FakeEmailMessage).to;
+				attempts.push(to);
+				if (!verified.includes(to)) {
+					throw new Error('destination not verified');
+				}
+			},
+		};
+		const mailer = createCloudflareTransport(sender, 'notify@example.com', emailMessage);
+		const partial: OutgoingEmail = { ...message, to: ['a@example.com', 'b@example.com'], cc: ['c@example.com'] };
+
+		expect(await mailer.send(partial)).toBe(false);
+		expect(partial.delivered).toEqual(['a@example.com', 'c@example.com']);
+
+		verified = ['b@example.com'];
+		expect(await mailer.send(partial)).toBe(true);
+		expect(attempts).toEqual(['a@example.com', 'b@example.com', 'c@example.com', 'b@example.com']);
+		expect(partial.delivered).toEqual(['a@example.com', 'c@example.com', 'b@example.com']);
+	});
+
+	it('should build MIME with the threading headers', () => {
+		const raw = toMimeMessage(message, message.from!);
+		expect(raw).toContain('Reply-To: <support+abc-123@example.com>');
+		expect(raw).toContain('Message-ID: <m1@example.com>');
+		expect(raw).toContain('In-Reply-To: <submission.abc-123@example.com>');
+		expect(raw).toContain('Content-Type: text/plain; charset=UTF-8');
+		expect(raw).toContain('Thanks for getting in touch 👋');
+	});
+
+	it('should send text and HTML as alternatives', () => {
+		const raw = toMimeMessage({ ...message, html: '<p>Thanks for getting in touch</p>' }, message.from!);
+		expect(raw).toContain('Content-Type: multipart/alternative');
+		expect(raw).toContain('Content-Type: text/plain; charset=UTF-8');
+		expect(raw).toContain('Content-Type: text/html; charset=UTF-8');
+		expect(raw).toContain('<p>Thanks for getting in touch</p>');
+	});
+});
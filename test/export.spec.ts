@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG } from '../src/config';
+import { getExportFields, parseExportFormat, streamSubmissionExport, type ExportFormat } from '../src/export';
+import { getAdminHTML } from '../src/html';
+import { DEFAULT_SORT } from '../src/submissions';
+import type { SubmissionRow } from '../src/types';
+
+const NOW = Date.UTC(2025, 0, 10);
+
+function row(index: number, overrides: Partial<SubmissionRow> = {}): SubmissionRow {
+	return {
+		id: `id-${String(index).padStart(3, '0')}`,
+		reference: `REF-${index}`,
+		form_id: 'default',
+		name: `Customer ${index}`,
+		email: null,
+		phone: null,
+		service_type: 'Other',
+		message: 'Hello there',
+		status: 'new',
+		priority: 'normal',
+		assigned_to: null,
+		routing_rules: null,
+		custom_fields: null,
+		ip_address: null,
+		user_agent: null,
+		spam_reason: null,
+		referrer: null,
+		source: 'form',
+		created_at: '2025-01-01 09:00:00',
+		updated_at: '2025-01-01 09:00:00',
+		...overrides,
+	};
+}
+
+/** Serves the rows one page per query, the way keyset pagination walks them */
+function fakeDB(rows: SubmissionRow[]) {
+	const queries: { sql: string; params: unknown[] }[] = [];
+	let served = 0;
+	const db = {
+		prepare(sql: string) {
+			const statement = {
+				bind(...params: unknown[]) {
+					queries.push({ sql, params });
+					return statement;
+				},
+				async all() {
+					const limit = Number(queries[queries.length - 1].params.at(-1)) - 1;
+					const results = rows.slice(served, served + limit + 1);
+					served += limit;
+					return { results };
+				},
+			};
+			return statement;
+		},
+	};
+	return { db: db as unknown as D1Database, queries };
+}
+
+async function read(rows: SubmissionRow[], format: ExportFormat) {
+	const { db, queries } = fakeDB(rows);
+	const stream = streamSubmissionExport(db, { filters: { status: 'new' }, sort: DEFAULT_SORT }, format, CONFIG, NOW);
+	// Keep the byte order mark, which Response.text() would strip
+	return { text: new TextDecoder('utf-8', { ignoreBOM: true }).decode(await new Response(stream).arrayBuffer()), queries };
+}
+
+describe('Submission export', () => {
+	it('should write CSV with a BOM, custom field columns and formula escaping', async () => {
+		const custom = getExportFields(CONFIG);
+		const { text } = await read(
+			[row(1, { name: '=HYPERLINK("http://evil.example")', message: 'Line one\nLine "two"', routing_rules: '["Sales enquiries"]' })],
+			'csv',
+		);
+		const lines = text.split('\r\n');
+		expect(text.startsWith('\uFEFFid,reference,form_id,source,created_at')).toBe(true);
+		expect(lines[0].endsWith(custom.map((field) => field.name).join(','))).toBe(true);
+		expect(text).toContain(`"'=HYPERLINK(""http://evil.example"")"`);
+		expect(text).toContain('"Line one\nLine ""two"""');
+		expect(text).toContain('2025-01-01T09:00:00.000Z');
+		expect(text).toContain(',Sales enquiries,');
+	});
+
+	it('should page through every row with the cursor', async () => {
+		const rows = Array.from({ length: 150 }, (_, index) => row(index));
+		const { text, queries } = await read(rows, 'ndjson');
+		const lines = text.trim().split('\n').map((line) => JSON.parse(line));
+
+		expect(lines).toHaveLength(150);
+		expect(lines[149].id).toBe('id-149');
+		expect(lines[0].sla).toBeDefined();
+		expect(queries).toHaveLength(2);
+		expect(queries[0].sql).toContain('submissions.status = ?');
+		expect(queries[1].sql).toContain('(submissions.created_at, submissions.id) < (?, ?)');
+	});
+
+	it('should write a JSON array, empty or not', async () => {
+		expect((await read([], 'json')).text).toBe('[\n]\n');
+		const parsed = JSON.parse((await read([row(1, { custom_fields: '{"company":"Acme"}', snippet: 'x' }), row(2)], 'json')).text);
+		expect(parsed.map((submission: { id: string }) => submission.id)).toEqual(['id-001', 'id-002']);
+		expect(parsed[0].custom_fields).toEqual({ company: 'Acme' });
+		expect(parsed[0]).not.toHaveProperty('snippet');
+	});
+
+	it('should default to CSV and reject unknown formats', () => {
+		expect(parseExportFormat(null)).toBe('csv');
+		expect(parseExportFormat('ndjson')).toBe('ndjson');
+		expect(parseExportFormat('xlsx')).toBeUndefined();
+	});
+
+	it('should offer an export of the current filters on the dashboard', () => {
+		const html = getAdminHTML([], { email: 'admin@example.com' }, CONFIG, 'token', {
+			filters: { status: 'new', search: 'refund' },
+			sort: { field: 'name', direction: 'asc' },
+			page: 1,
+			pageCount: 1,
+			total: 0,
+			stats: { total: 0, byStatus: {}, overdue: 0 },
+		});
+		expect(html).toContain('action="/admin/export"');
+		expect(html).toContain('<input type="hidden" name="q" value="refund"><input type="hidden" name="status" value="new"><input type="hidden" name="sort" value="name">');
+		expect(html).toContain('<option value="ndjson">NDJSON</option>');
+	});
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG, type FormFieldConfig } from '../src/config';
+import { clampFormValues, collectFormValues, getCustomFieldValues, getFormFields, parseCustomFields } from '../src/fields';
+import { getAdminHTML, getContactFormHTML } from '../src/html';
+import { validateForm } from '../src/validation';
+
+const customFields: FormFieldConfig[] = [
+	{ name: 'company', type: 'text', label: 'Company Name', required: true, showInAdmin: true },
+	{ name: 'budget', type: 'select', label: 'Budget Range', options: ['Under $1k', '$1k+'], showInAdmin: true },
+	{ name: 'interests', type: 'checkboxes', label: 'Interested In', options: ['Consulting', 'Support'] },
+	{ name: 'newsletter', type: 'checkbox', label: 'Send me updates' },
+];
+
+const config = {
+	...CONFIG,
+	contactForm: { ...CONFIG.contactForm, fields: [...CONFIG.contactForm.fields, ...customFields] },
+};
+
+function formData(entries: [string, string][]): FormData {
+	const data = new FormData();
+	entries.forEach(([key, value]) => data.append(key, value));
+	return data;
+}
+
+describe('Configurable form fields', () => {
+	it('should hide feature-flagged fields', () => {
+		const withoutPhone = { ...CONFIG, features: { ...CONFIG.features, enablePhoneField: false } };
+		expect(getFormFields(withoutPhone).map((field) => field.name)).not.toContain('phone');
+	});
+
+	it('should render custom fields on the form', () => {
+		const html = getContactFormHTML(config);
+		expect(html).toContain('name="company"');
+		expect(html).toContain('<option value="$1k+">$1k+</option>');
+		expect(html).toContain('type="checkbox" name="interests" value="Consulting"');
+		expect(html).toContain('name="newsletter" id="newsletter" value="yes"');
+	});
+
+	it('should collect and validate custom values', () => {
+		const data = formData([
+			['company', ''],
+			['budget', 'A million'],
+			['interests', 'Consulting'],
+			['interests', 'Hacking'],
+		]);
+		const errors = validateForm(collectFormValues(data, config), config);
+		expect(errors.company).toBe('Company Name is required');
+		expect(errors.budget).toBe('Budget Range is not valid');
+		expect(errors.interests).toBe('Interested In is not valid');
+	});
+
+	it('should store only non-core, non-empty values', () => {
+		const data = formData([
+			['name', 'Jane'],
+			['company', ' Acme '],
+			['budget', ''],
+			['interests', 'Consulting'],
+			['interests', 'Support'],
+			['newsletter', 'yes'],
+		]);
+		expect(getCustomFieldValues(collectFormValues(data, config), config)).toEqual({
+			company: 'Acme',
+			interests: ['Consulting', 'Support'],
+			newsletter: 'yes',
+		});
+	});
+
+	it('should clip unvalidated values to the field limits', () => {
+		const data = formData([
+			['name', 'x'.repeat(1000)],
+			['message', 'y'.repeat(100_000)],
+			['company', 'z'.repeat(1000)],
+			['interests', 'Support'],
+			['interests', 'Casino'],
+			['junk', 'w'.repeat(1000)],
+		]);
+		const clamped = clampFormValues(collectFormValues(data, config), config);
+		expect(clamped.name).toHaveLength(100);
+		expect(clamped.message).toHaveLength(5000);
+		expect(clamped.company).toHaveLength(500);
+		expect(clamped.interests).toEqual(['Support']);
+		expect(clamped).not.toHaveProperty('junk');
+	});
+
+	it('should show admin columns for showInAdmin fields', () => {
+		const submission = {
+			id: '1',
+			name: 'Jane',
+			service_type: 'Other',
+			message: 'Hello there',
+			status: 'new',
+			created_at: '2025-01-01',
+			custom_fields: JSON.stringify({ company: 'Acme <Corp>' }),
+		};
+		const html = getAdminHTML([submission], { email: 'admin@example.com' }, config, 'token');
+		expect(html).toContain('<th>Company Name</th>');
+		expect(html).toContain('<td class="custom-cell">Acme &lt;Corp&gt;</td>');
+		expect(parseCustomFields('not json')).toEqual({});
+	});
+});
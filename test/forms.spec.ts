@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG, validateConfig } from '../src/config';
+import { getFormPath, getFormSubmitPath, listForms, parseFormPath, resolveFormConfig } from '../src/forms';
+import { getAdminHTML, getContactFormHTML, getSuccessHTML } from '../src/html';
+
+describe('Named forms', () => {
+	it('should resolve the default form to the base config', () => {
+		expect(resolveFormConfig(CONFIG, 'default')).toBe(CONFIG);
+		expect(resolveFormConfig(CONFIG, 'nope')).toBeNull();
+		expect(resolveFormConfig(CONFIG, 'constructor')).toBeNull();
+	});
+
+	it('should merge a form over the default form settings', () => {
+		const sales = resolveFormConfig(CONFIG, 'sales')!;
+		expect(sales.contactForm.id).toBe('sales');
+		expect(sales.contactForm.title).toBe(CONFIG.forms.sales.title);
+		expect(sales.contactForm.validation).toBe(CONFIG.contactForm.validation);
+		expect(sales.company).toBe(CONFIG.company);
+	});
+
+	it('should reject form fields named like the honeypot', () => {
+		const honeypot = CONFIG.spamProtection.honeypotField;
+		expect(validateConfig(CONFIG).some((error) => error.includes('honeypot'))).toBe(false);
+		const partner = { ...CONFIG.forms.partner, fields: [...CONFIG.forms.partner.fields!, { name: honeypot, type: 'text' as const, label: 'Website' }] };
+		expect(validateConfig({ ...CONFIG, forms: { ...CONFIG.forms, partner } })).toContain(
+			`CONFIG.forms.partner.fields must not use the honeypot field name "${honeypot}"`,
+		);
+	});
+
+	it('should reject placeholder notification recipients', () => {
+		const sales = { ...CONFIG.forms.sales, notificationRecipients: ['sales@yourdomain.com'] };
+		expect(validateConfig(CONFIG)).not.toContain('Please update CONFIG.forms.sales.notificationRecipients');
+		expect(validateConfig({ ...CONFIG, forms: { ...CONFIG.forms, sales } })).toContain('Please update CONFIG.forms.sales.notificationRecipients');
+	});
+
+	it('should parse and build form paths', () => {
+		expect(parseFormPath('/f/sales')).toBe('sales');
+		expect(parseFormPath('/f/sales/')).toBe('sales');
+		expect(parseFormPath('/f/../admin')).toBeNull();
+		expect(getFormPath('default')).toBe('/');
+		expect(getFormSubmitPath('default')).toBe('/submit');
+		expect(getFormSubmitPath('sales')).toBe('/f/sales');
+	});
+
+	it('should post a named form back to its own path', () => {
+		const sales = resolveFormConfig(CONFIG, 'sales')!;
+		expect(getContactFormHTML(sales)).toContain('action="/f/sales"');
+		expect(getSuccessHTML(sales)).toContain('href="/f/sales"');
+	});
+
+	it('should offer a form filter on the admin dashboard', () => {
+		const html = getAdminHTML([], { email: 'admin@example.com' }, CONFIG, 'token', { filters: { form: 'sales' } });
+		expect(listForms(CONFIG)[0].id).toBe('default');
+		expect(html).toContain('<option value="sales" selected>');
+	});
+});
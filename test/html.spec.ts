@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG } from '../src/config';
+import { escapeAttr, escapeHtml, safeUrl } from '../src/escape';
+import { getAdminHTML, getErrorHTML } from '../src/html';
+
+const SCRIPT_PAYLOAD = '<script>alert(document.cookie)</script>';
+const ATTRIBUTE_PAYLOAD = '" onmouseover="alert(1)" x="';
+const IMG_PAYLOAD = "<img src=x onerror='alert(1)'>";
+
+const hostileSubmission = {
+	id: '"><script>alert("id")</script>',
+	name: SCRIPT_PAYLOAD,
+	email: IMG_PAYLOAD,
+	phone: '<svg onload=alert(1)>',
+	service_type: '</span><script>alert(2)</script>',
+	message: ATTRIBUTE_PAYLOAD + SCRIPT_PAYLOAD,
+	status: 'new" onclick="alert(3)',
+	created_at: '2025-01-01T00:00:00Z',
+};
+
+describe('HTML escaping', () => {
+	it('should escape text and attribute contexts', () => {
+		expect(escapeHtml(SCRIPT_PAYLOAD)).toBe('&lt;script&gt;alert(document.cookie)&lt;/script&gt;');
+		expect(escapeAttr(ATTRIBUTE_PAYLOAD)).toBe('&quot; onmouseover=&quot;alert(1)&quot; x=&quot;');
+		expect(escapeHtml(undefined)).toBe('');
+	});
+
+	it('should neutralise dangerous URL schemes', () => {
+		expect(safeUrl('javascript:alert(1)')).toBe('#');
+		expect(safeUrl('//evil.example/x')).toBe('#');
+		expect(safeUrl('mailto:a@example.com')).toBe('mailto:a@example.com');
+		expect(safeUrl('/admin?status=new&page=2')).toBe('/admin?status=new&amp;page=2');
+	});
+
+	it('should render hostile submissions inert on the admin dashboard', () => {
+		const html = getAdminHTML([hostileSubmission], { email: 'admin@example.com' }, CONFIG, 'token');
+
+		expect(html).not.toContain(SCRIPT_PAYLOAD);
+		expect(html).not.toContain(IMG_PAYLOAD);
+		expect(html).not.toContain('<svg');
+		expect(html).not.toContain('" onmouseover="');
+		expect(html).not.toContain('" onclick="');
+		expect(html).not.toContain('<script>alert("id")');
+		expect(html).toContain('&lt;script&gt;alert(document.cookie)&lt;/script&gt;');
+	});
+
+	it('should escape error messages', () => {
+		expect(getErrorHTML(SCRIPT_PAYLOAD, CONFIG)).not.toContain(SCRIPT_PAYLOAD);
+	});
+});
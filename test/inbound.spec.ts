@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG } from '../src/config';
+import { receiveEmail, stripQuotedReply } from '../src/inbound';
+import { getReplyToken } from '../src/messages';
+import type { Env, SubmissionRow } from '../src/types';
+import type { WebhookDispatcher } from '../src/webhooks';
+
+const resolved = { id: 'abc-123', status: 'resolved', created_at: '2025-01-01 09:00:00', updated_at: '2025-01-01 09:00:00' } as SubmissionRow;
+
+const config = {
+	...CONFIG,
+	webhooks: { ...CONFIG.webhooks, endpoints: [{ name: 'crm', url: 'https://crm.example.com/hooks', events: ['submission.created' as const] }] },
+};
+
+/** Knows one submission and one stored message id; records every statement and webhook event */
+function fakeEnv() {
+	const queries: { sql: string; params: unknown[] }[] = [];
+	const events: { event: string; submissionId: string; data: Record<string, unknown> }[] = [];
+	const webhooks: WebhookDispatcher = {
+		async dispatch(event, submissionId, data) {
+			events.push({ event, submissionId, data });
+		},
+	};
+	let current = resolved;
+	const created: string[] = [];
+	const db = {
+		prepare(sql: string) {
+			const statement = {
+				params: [] as unknown[],
+				bind(...params: unknown[]) {
+					statement.params = params;
+					queries.push({ sql, params });
+					return statement;
+				},
+				async first() {
+					if (sql.includes('FROM submissions')) {
+						if (created.includes(statement.params[0] as string)) {
+							return { ...resolved, id: statement.params[0], status: 'new' };
+						}
+						return statement.params[0] === resolved.id ? current : null;
+					}
+					return statement.params.includes('<reply-1@mg.example.com>') ? { submission_id: resolved.id } : null;
+				},
+				async run() {
+					if (sql.includes('UPDATE submissions')) {
+						current = { ...resolved, status: statement.params[0] as string };
+					}
+					if (sql.includes('INSERT INTO submissions')) {
+						created.push(statement.params[0] as string);
+					}
+					return { meta: { changes: 1 } };
+				},
+			};
+			return statement;
+		},
+		async batch(statements: { run(): Promise<unknown> }[]) {
+			return Promise.all(statements.map((statement) => statement.run()));
+		},
+	};
+	return { env: { DB: db, MG_DOMAIN: 'mg.example.com' } as unknown as Env, queries, events, webhooks };
+}
+
+function email(to: string, headers: Record<string, string>, body = 'Thanks, that works.\n\nOn Mon, Support wrote:\n> Hello') {
+	const rejections: string[] = [];
+	const raw = [
+		'From: Jane Doe <jane@example.com>',
+		`To: ${to}`,
+		'Subject: Re: Your enquiry',
+		'Message-ID: <customer-1@example.com>',
+		...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+		'Content-Type: text/plain; charset=utf-8',
+		'',
+		body,
+	].join('\r\n');
+	const message = {
+		from: 'jane@example.com',
+		to,
+		raw,
+		rawSize: raw.length,
+		headers: new Headers(headers),
+		setReject: (reason: string) => rejections.push(reason),
+	} as unknown as ForwardableEmailMessage;
+	return { message, rejections };
+}
+
+describe('Inbound email', () => {
+	it('should thread plus-addressed replies and reopen resolved submissions', async () => {
+		const { env, queries, events, webhooks } = fakeEnv();
+		const { message } = email('support+abc-123@mg.example.com', {});
+
+		expect(await receiveEmail(message, env, CONFIG, webhooks)).toEqual({ action: 'threaded', submissionId: 'abc-123', reopened: true });
+
+		const insert = queries.find((query) => query.sql.includes('INSERT OR IGNORE INTO messages'))!;
+		expect(insert.params.slice(0, 2)).toEqual(['abc-123', '<customer-1@example.com>']);
+		expect(insert.params[6]).toBe('Thanks, that works.');
+		const update = queries.find((query) => query.sql.includes('UPDATE submissions'))!;
+		expect(update.params).toEqual(['new', 'abc-123']);
+		expect(queries.find((query) => query.sql.includes('INSERT INTO submission_events'))!.params[4]).toBe('inbound-email');
+		expect(events).toMatchObject([{ event: 'submission.status_changed', submissionId: 'abc-123', data: { actor: 'inbound-email', previous_status: 'resolved' } }]);
+	});
+
+	it('should match replies by In-Reply-To or References', async () => {
+		const byMessage = fakeEnv();
+		expect(await receiveEmail(email('support@mg.example.com', { 'In-Reply-To': '<reply-1@mg.example.com>' }).message, byMessage.env, CONFIG, byMessage.webhooks)).toMatchObject({
+			action: 'threaded',
+			submissionId: 'abc-123',
+		});
+
+		const byRoot = fakeEnv();
+		expect(await receiveEmail(email('support@mg.example.com', { References: '<x@y> <submission.abc-123@mg.example.com>' }).message, byRoot.env, CONFIG, byRoot.webhooks)).toMatchObject({
+			action: 'threaded',
+		});
+	});
+
+	it('should turn unmatched mail to the intake address into a submission', async () => {
+		const { env, queries, events, webhooks } = fakeEnv();
+		const result = await receiveEmail(email('Contact@example.com', {}, 'Do you ship to Canada?').message, env, config, webhooks);
+
+		expect(result).toMatchObject({ action: 'created', submission: { name: 'Jane Doe', email: 'jane@example.com', message: 'Re: Your enquiry\n\nDo you ship to Canada?' } });
+		const insert = queries.find((query) => query.sql.includes('INSERT INTO submissions'))!;
+		expect(insert.sql).toContain("'email'");
+		expect(queries.some((query) => query.sql.includes('INSERT OR IGNORE INTO messages'))).toBe(true);
+		expect(events.map(({ event, submissionId }) => [event, submissionId])).toEqual([['submission.created', insert.params[0]]]);
+	});
+
+	it('should reject unknown recipients and ignore auto-replies', async () => {
+		const unknown = email('sales@mg.example.com', {});
+		const rejected = fakeEnv();
+		expect(await receiveEmail(unknown.message, rejected.env, CONFIG, rejected.webhooks)).toMatchObject({ action: 'rejected' });
+		expect(unknown.rejections).toEqual(['Unknown recipient']);
+
+		const { env, queries, webhooks } = fakeEnv();
+		expect(await receiveEmail(email('support+abc-123@mg.example.com', { 'Auto-Submitted': 'auto-replied' }).message, env, CONFIG, webhooks)).toMatchObject({ action: 'ignored' });
+		expect(queries).toHaveLength(0);
+	});
+
+	it('should parse reply tokens and strip quoted text', () => {
+		expect(getReplyToken('Support+ABC-123@mg.example.com', CONFIG)).toBe('abc-123');
+		expect(getReplyToken('sales+abc@mg.example.com', CONFIG)).toBeNull();
+		expect(stripQuotedReply('New text\r\n\r\n> old\r\n> older')).toBe('New text');
+		expect(stripQuotedReply('> only quoted')).toBe('> only quoted');
+	});
+});
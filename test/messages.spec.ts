@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG } from '../src/config';
+import { createRecordingTransport } from '../src/email';
+import { getReplyDefaults, getThreadRootId, parseThreadRootId, sendReply, validateReply } from '../src/messages';
+import type { Env, MessageRow, SubmissionRow } from '../src/types';
+
+const submission: SubmissionRow = {
+	id: 'abc-123',
+	form_id: 'default',
+	name: 'Jane',
+	email: 'jane@example.com',
+	phone: null,
+	service_type: 'Consulting',
+	message: 'Hello',
+	status: 'new',
+	priority: 'normal',
+	assigned_to: null,
+	custom_fields: null,
+	ip_address: null,
+	user_agent: null,
+	spam_reason: null,
+	referrer: null,
+	created_at: '2025-01-01 09:00:00',
+	updated_at: '2025-01-01 09:00:00',
+};
+
+const context = { actor: 'ops@example.com', ip: '203.0.113.9' };
+
+/** Answers messages/submission reads and records every statement */
+function fakeEnv(thread: Partial<MessageRow>[]) {
+	const queries: { sql: string; params: unknown[] }[] = [];
+	const db = {
+		prepare(sql: string) {
+			const statement = {
+				params: [] as unknown[],
+				bind(...params: unknown[]) {
+					statement.params = params;
+					queries.push({ sql, params });
+					return statement;
+				},
+				async all() {
+					return { results: sql.includes('FROM messages') ? thread : [] };
+				},
+				async first() {
+					return sql.includes('FROM submissions') ? submission : null;
+				},
+				async run() {
+					return { results: [{ id: 1 }], meta: { changes: 1 } };
+				},
+			};
+			return statement;
+		},
+		async batch(statements: { run(): Promise<unknown> }[]) {
+			return Promise.all(statements.map((statement) => statement.run()));
+		},
+	};
+	const env = { DB: db, MG_DOMAIN: 'mg.example.com' } as unknown as Env;
+	return { env, queries };
+}
+
+describe('Customer replies', () => {
+	it('should round-trip thread root ids', () => {
+		const root = getThreadRootId('abc-123', 'mg.example.com');
+		expect(root).toBe('<submission.abc-123@mg.example.com>');
+		expect(parseThreadRootId(root)).toBe('abc-123');
+		expect(parseThreadRootId('<random@mg.example.com>')).toBeNull();
+	});
+
+	it('should prefill and validate the composer', () => {
+		const defaults = getReplyDefaults(submission, CONFIG);
+		expect(defaults.subject).toBe('Re: Your Consulting enquiry');
+		expect(defaults.body).toMatch(/^Hi Jane,\n[\s\S]*The Your Company Name team$/);
+		expect(validateReply({ ...submission, email: null }, { subject: 'Hi', body: 'Hi', markInProgress: false })).toContain('no email address');
+		expect(validateReply(submission, { subject: 'Hi', body: '', markInProgress: false })).toContain('Message is required');
+		expect(validateReply(submission, { subject: 'Hi', body: 'Hi', markInProgress: false })).toBeNull();
+	});
+
+	it('should send threaded mail, store it and move new submissions along', async () => {
+		const mailer = createRecordingTransport();
+		const { env, queries } = fakeEnv([{ message_id: '<first@mg.example.com>' }]);
+
+		const result = await sendReply(env, mailer, submission, { subject: 'Re: Hi', body: 'Thanks!', markInProgress: true }, context, CONFIG);
+
+		expect(result.sent).toBe(true);
+		const [sent] = mailer.sent;
+		expect(sent.to).toEqual(['jane@example.com']);
+		expect(sent.from).toBe('Your Company Name <support@mg.example.com>');
+		expect(sent.replyTo).toBe('support+abc-123@mg.example.com');
+		expect(sent.headers?.['In-Reply-To']).toBe('<first@mg.example.com>');
+		expect(sent.headers?.References).toBe('<submission.abc-123@mg.example.com> <first@mg.example.com>');
+		const messageId = sent.headers!['Message-Id'];
+		expect(messageId).toMatch(/^<[0-9a-f-]+@mg\.example\.com>$/);
+
+		const insert = queries.find((query) => query.sql.includes('INSERT INTO messages'))!;
+		expect(insert.params).toContain(messageId);
+		expect(insert.params[insert.params.length - 1]).toBe('sent');
+		expect(queries.some((query) => query.sql.includes('INSERT INTO audit_log') && query.params[1] === 'submission.reply')).toBe(true);
+		expect(queries.find((query) => query.sql.includes('UPDATE submissions'))?.params[0]).toBe('in_progress');
+	});
+
+	it('should quote a company name with punctuation in the From header', async () => {
+		const mailer = createRecordingTransport();
+		const { env } = fakeEnv([]);
+		const config = { ...CONFIG, company: { ...CONFIG.company, name: 'Acme, Inc.' } };
+
+		await sendReply(env, mailer, submission, { subject: 'Re: Hi', body: 'Thanks!', markInProgress: false }, context, config);
+		expect(mailer.sent[0].from).toBe('"Acme, Inc." <support@mg.example.com>');
+	});
+
+	it('should list the root once when an acknowledgement started the thread', async () => {
+		const mailer = createRecordingTransport();
+		const { env } = fakeEnv([{ message_id: '<submission.abc-123@mg.example.com>' }]);
+
+		await sendReply(env, mailer, submission, { subject: 'Re: Hi', body: 'Thanks!', markInProgress: false }, context, CONFIG);
+
+		expect(mailer.sent[0].headers?.['In-Reply-To']).toBe('<submission.abc-123@mg.example.com>');
+		expect(mailer.sent[0].headers?.References).toBe('<submission.abc-123@mg.example.com>');
+	});
+
+	it('should keep failed replies without changing the status', async () => {
+		const { env, queries } = fakeEnv([]);
+
+		const result = await sendReply(env, createRecordingTransport(false), submission, { subject: 'Re: Hi', body: 'Thanks!', markInProgress: true }, context, CONFIG);
+
+		expect(result.sent).toBe(false);
+		const insert = queries.find((query) => query.sql.includes('INSERT INTO messages'))!;
+		expect(insert.params[2]).toBe('<submission.abc-123@mg.example.com>');
+		expect(insert.params[insert.params.length - 1]).toBe('failed');
+		expect(queries.some((query) => query.sql.includes('UPDATE submissions'))).toBe(false);
+	});
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { getOutboxHTML } from '../src/admin-html';
+import { CONFIG } from '../src/config';
+import { createRecordingTransport } from '../src/email';
+import { deliverOutboxEntry, getRetryDelaySeconds, type OutboxRow } from '../src/outbox';
+
+const entry: OutboxRow = {
+	id: 7,
+	kind: 'admin_notification',
+	submission_id: 'abc-123',
+	recipients: 'admin@example.com',
+	subject: 'New Contact Form: Other - <Jane>',
+	payload: JSON.stringify({ to: ['admin@example.com'], subject: 'New Contact Form: Other - <Jane>', text: 'Hello' }),
+	status: 'pending',
+	attempts: 0,
+	last_error: null,
+	next_attempt_at: '2025-01-01 09:00:00',
+	sent_at: null,
+	created_at: '2025-01-01 09:00:00',
+};
+
+/** Records every statement; the claim UPDATE succeeds unless claimed is false */
+function fakeDB(claimed = true) {
+	const queries: { sql: string; params: unknown[] }[] = [];
+	const db = {
+		prepare(sql: string) {
+			const statement = {
+				bind(...params: unknown[]) {
+					queries.push({ sql, params });
+					return statement;
+				},
+				async run() {
+					return { meta: { changes: claimed ? 1 : 0 } };
+				},
+			};
+			return statement;
+		},
+	};
+	return { db: db as unknown as D1Database, queries };
+}
+
+describe('Notification outbox', () => {
+	it('should back off exponentially up to the cap', () => {
+		expect([1, 2, 3, 4].map((attempts) => getRetryDelaySeconds(attempts, CONFIG))).toEqual([60, 120, 240, 480]);
+		expect(getRetryDelaySeconds(20, CONFIG)).toBe(CONFIG.email.outbox.maxRetryDelaySeconds);
+	});
+
+	it('should mark sent messages', async () => {
+		const mailer = createRecordingTransport();
+		const { db, queries } = fakeDB();
+
+		expect(await deliverOutboxEntry(db, mailer, entry, CONFIG)).toBe(true);
+		expect(mailer.sent[0]).toEqual({ to: ['admin@example.com'], subject: 'New Contact Form: Other - <Jane>', text: 'Hello' });
+		expect(queries[0].sql).toContain("next_attempt_at <= datetime('now')");
+		expect(queries[1].sql).toContain("status = 'sent'");
+		expect(queries[1].params).toEqual([1, 7]);
+	});
+
+	it('should schedule a retry, then dead-letter after the last attempt', async () => {
+		const retry = fakeDB();
+		expect(await deliverOutboxEntry(retry.db, createRecordingTransport(false), { ...entry, attempts: 1 }, CONFIG)).toBe(false);
+		expect(retry.queries[1].params).toEqual([2, 'fake did not accept the message', '+120 seconds', 7]);
+
+		const dead = fakeDB();
+		const last = { ...entry, attempts: CONFIG.email.outbox.maxAttempts - 1 };
+		expect(await deliverOutboxEntry(dead.db, null, last, CONFIG)).toBe(false);
+		expect(dead.queries[1].sql).toContain("status = 'dead'");
+		expect(dead.queries[1].params).toEqual([CONFIG.email.outbox.maxAttempts, 'No email transport configured', 7]);
+	});
+
+	it('should remember the recipients a partial send reached', async () => {
+		const { db, queries } = fakeDB();
+		const mailer = createRecordingTransport(false);
+		mailer.send = async (message) => {
+			message.delivered = ['admin@example.com'];
+			return false;
+		};
+
+		expect(await deliverOutboxEntry(db, mailer, entry, CONFIG)).toBe(false);
+		expect(queries[1].sql).toContain('SET payload = ?');
+		expect(JSON.parse(queries[1].params[0] as string)).toMatchObject({ delivered: ['admin@example.com'] });
+		expect(queries[2].sql).toContain('next_attempt_at');
+	});
+
+	it('should leave messages another sender has claimed', async () => {
+		const mailer = createRecordingTransport();
+		const { db, queries } = fakeDB(false);
+
+		expect(await deliverOutboxEntry(db, mailer, entry, CONFIG)).toBe(false);
+		expect(mailer.sent).toHaveLength(0);
+		expect(queries).toHaveLength(1);
+	});
+
+	it('should list delivery status with a re-send button', () => {
+		const html = getOutboxHTML(
+			{
+				entries: [{ ...entry, status: 'dead', attempts: 5, last_error: 'mailgun did not accept the message' }],
+				status: 'dead',
+				counts: { pending: 0, sent: 3, dead: 1 },
+				page: 1,
+				pageCount: 1,
+			},
+			{ email: 'admin@example.com' },
+			CONFIG,
+			'token123',
+		);
+		expect(html).toContain('New Contact Form: Other - &lt;Jane&gt;');
+		expect(html).toContain('href="/admin/submissions/abc-123"');
+		expect(html).toContain('Dead-lettered (1)');
+		expect(html).toContain('mailgun did not accept the message');
+		expect(html).toContain('action="/admin/outbox/7/resend"');
+		expect(html).toContain('value="token123"');
+	});
+});
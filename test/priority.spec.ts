@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG } from '../src/config';
+import { getAdminHTML, getContactFormHTML } from '../src/html';
+import { formatDuration, getPriorityLevel, getSlaStatus, parseDbTimestamp } from '../src/priority';
+import { validateForm } from '../src/validation';
+
+const withPriority = { ...CONFIG, features: { ...CONFIG.features, enablePriorityField: true } };
+const HOUR = 3_600_000;
+
+describe('Priority and SLA', () => {
+	it('should only render the priority field when the flag is on', () => {
+		expect(getContactFormHTML(CONFIG)).not.toContain('name="priority"');
+		const html = getContactFormHTML(withPriority);
+		expect(html).toContain('name="priority"');
+		expect(html).toContain('<option value="urgent">Urgent</option>');
+	});
+
+	it('should reject unknown priority values', () => {
+		const errors = validateForm({ priority: 'whenever' }, withPriority);
+		expect(errors.priority).toBe('Urgency is not valid');
+		expect(validateForm({ priority: 'high' }, withPriority).priority).toBeUndefined();
+	});
+
+	it('should fall back to the default level', () => {
+		expect(getPriorityLevel('high', CONFIG).slaHours).toBe(8);
+		expect(getPriorityLevel(null, CONFIG).value).toBe(CONFIG.contactForm.defaultPriority);
+	});
+
+	it('should track the SLA only for open submissions', () => {
+		const createdAt = '2025-01-01 00:00:00';
+		const start = parseDbTimestamp(createdAt).getTime();
+		expect(start).toBe(Date.UTC(2025, 0, 1));
+
+		const urgent = { priority: 'urgent', status: 'new', created_at: createdAt };
+		expect(getSlaStatus(urgent, CONFIG, start + HOUR)?.overdue).toBe(false);
+		expect(getSlaStatus(urgent, CONFIG, start + 3 * HOUR)?.overdue).toBe(true);
+		expect(getSlaStatus({ ...urgent, status: 'resolved' }, CONFIG, start + 3 * HOUR)).toBeNull();
+		expect(formatDuration(-3 * HOUR)).toBe('3h');
+		expect(formatDuration(72 * HOUR)).toBe('3d');
+	});
+
+	it('should highlight overdue submissions and offer a priority editor', () => {
+		const submission = {
+			id: '1',
+			name: 'Jane',
+			service_type: 'Other',
+			message: 'Hello there',
+			status: 'new',
+			priority: 'urgent',
+			created_at: '2000-01-01 00:00:00',
+		};
+		const html = getAdminHTML([submission], { email: 'admin@example.com' }, CONFIG, 'token');
+		expect(html).toContain('submission-row overdue');
+		expect(html).toContain('action="/admin/priority"');
+		expect(html).toContain('<option value="urgent" selected>Urgent</option>');
+	});
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG, type RoutingRule } from '../src/config';
+import { applyRoutingRules, matchesRule, parseRoutingRules } from '../src/routing';
+import type { FormSubmission } from '../src/types';
+
+const submission: FormSubmission = {
+	id: 'abc-123',
+	form_id: 'default',
+	name: 'Jane',
+	email: 'jane@eu.acme.com',
+	service_type: 'Bug Report',
+	priority: 'normal',
+	message: 'The export is broken and shows an Error Message.',
+	timestamp: '2025-01-01T09:00:00.000Z',
+};
+
+const rule = (match: RoutingRule['match'], actions: RoutingRule['actions'] = {}, stop?: boolean): RoutingRule => ({ name: 'Test', match, actions, stop });
+
+function withRules(rules: RoutingRule[]): typeof CONFIG {
+	return { ...CONFIG, routing: { rules } };
+}
+
+describe('Routing rules', () => {
+	it('should require every condition a rule sets', () => {
+		expect(matchesRule(rule({}), submission)).toBe(true);
+		expect(matchesRule(rule({ serviceTypes: ['Bug Report', 'Technical Support'], forms: ['default'] }), submission)).toBe(true);
+		expect(matchesRule(rule({ serviceTypes: ['Bug Report'], priorities: ['urgent'] }), submission)).toBe(false);
+		expect(matchesRule(rule({ emailDomains: ['ACME.com'] }), submission)).toBe(true);
+		expect(matchesRule(rule({ emailDomains: ['me.com'] }), submission)).toBe(false);
+		expect(matchesRule(rule({ emailDomains: ['acme.com'] }), { ...submission, email: undefined })).toBe(false);
+	});
+
+	it('should match keywords as whole words or phrases, ignoring case', () => {
+		expect(matchesRule(rule({ keywords: ['error message'] }), submission)).toBe(true);
+		expect(matchesRule(rule({ keywords: ['port'] }), submission)).toBe(false);
+		expect(matchesRule(rule({ keywords: ['bug', 'BROKEN'] }), submission)).toBe(true);
+		expect(matchesRule(rule({ keywords: ['(broken'] }), submission)).toBe(false);
+	});
+
+	it('should combine recipients and CCs, and keep the first assignee and priority', () => {
+		const result = applyRoutingRules(
+			submission,
+			withRules([
+				{ name: 'Engineering', match: { serviceTypes: ['Bug Report'] }, actions: { recipients: ['eng@example.com'], assignTo: 'Dev@Example.com' } },
+				{ name: 'Not this one', match: { priorities: ['urgent'] }, actions: { recipients: ['oncall@example.com'] } },
+				{ name: 'Broken', match: { keywords: ['broken'] }, actions: { cc: ['qa@example.com', 'eng@example.com'], assignTo: 'qa@example.com', priority: 'high' } },
+			]),
+		);
+		expect(result).toEqual({
+			rules: ['Engineering', 'Broken'],
+			recipients: ['eng@example.com'],
+			cc: ['qa@example.com'],
+			assignTo: 'dev@example.com',
+			priority: 'high',
+		});
+	});
+
+	it('should stop after a rule with stop set', () => {
+		const result = applyRoutingRules(
+			submission,
+			withRules([
+				{ name: 'First', match: {}, actions: { cc: ['a@example.com'] }, stop: true },
+				{ name: 'Second', match: {}, actions: { cc: ['b@example.com'] } },
+			]),
+		);
+		expect(result.rules).toEqual(['First']);
+		expect(result.cc).toEqual(['a@example.com']);
+	});
+
+	it('should leave the defaults when nothing fires', () => {
+		expect(applyRoutingRules({ ...submission, service_type: 'Other', message: 'Hello there' }, CONFIG)).toEqual({
+			rules: [],
+			recipients: [],
+			cc: [],
+			assignTo: null,
+			priority: null,
+		});
+		expect(parseRoutingRules(null)).toEqual([]);
+		expect(parseRoutingRules('not json')).toEqual([]);
+		expect(parseRoutingRules('["Sales enquiries", 3]')).toEqual(['Sales enquiries']);
+	});
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG } from '../src/config';
+import { BOT_TRAP_CHECKS, runSpamChecks, scoreContent, type SpamCheckContext } from '../src/spam';
+import type { Env } from '../src/types';
+
+const NOW = Date.parse('2025-06-01T12:00:00Z');
+
+// Minimal D1 stand-in returning a fixed submission count for the rate limit query
+function fakeDB(count: number): D1Database {
+	const statement = { bind: () => statement, first: async () => ({ count }) };
+	return { prepare: () => statement } as unknown as D1Database;
+}
+
+function context(fields: Record<string, string>, overrides: Partial<SpamCheckContext> = {}): SpamCheckContext {
+	const formData = new FormData();
+	formData.set('_ts', String(NOW - 30_000));
+	for (const [key, value] of Object.entries(fields)) {
+		formData.set(key, value);
+	}
+	return {
+		formData,
+		ip: '203.0.113.7',
+		name: 'Jane Customer',
+		message: 'Hello, I would like a quote for your services.',
+		env: { DB: fakeDB(0) } as Env,
+		config: CONFIG,
+		now: NOW,
+		...overrides,
+	};
+}
+
+describe('Spam protection pipeline', () => {
+	it('should let a normal submission through', async () => {
+		expect(await runSpamChecks(context({}))).toBeNull();
+	});
+
+	it('should flag a filled honeypot silently', async () => {
+		const verdict = await runSpamChecks(context({ website: 'http://spam.example' }));
+		expect(verdict).toMatchObject({ check: 'honeypot', response: 'silent' });
+	});
+
+	it('should catch bots with the traps alone, before their fields are validated', async () => {
+		const bot = context({ website: 'http://spam.example' }, { name: '', message: '', env: {} as Env });
+		expect(await runSpamChecks(bot, BOT_TRAP_CHECKS)).toMatchObject({ check: 'honeypot' });
+		expect(await runSpamChecks(context({}, { env: {} as Env }), BOT_TRAP_CHECKS)).toBeNull();
+	});
+
+	it('should flag forms submitted too quickly or without a timestamp', async () => {
+		expect(await runSpamChecks(context({ _ts: String(NOW - 500) }))).toMatchObject({ check: 'fill_time' });
+		expect(await runSpamChecks(context({ _ts: '' }))).toMatchObject({ check: 'fill_time' });
+	});
+
+	it('should rate limit by IP', async () => {
+		const verdict = await runSpamChecks(context({}, { env: { DB: fakeDB(5) } as Env }));
+		expect(verdict).toMatchObject({ check: 'rate_limit', response: 'rate_limited' });
+	});
+
+	it('should score link stuffing and banned phrases', async () => {
+		const message = 'Best casino deals https://a.example https://b.example https://c.example https://d.example';
+		expect(scoreContent(message, CONFIG).total).toBe(9);
+		expect(await runSpamChecks(context({}, { message }))).toMatchObject({ check: 'content_score', response: 'silent' });
+	});
+
+	it('should verify Turnstile tokens when enabled', async () => {
+		const config = { ...CONFIG, features: { ...CONFIG.features, enableTurnstile: true } };
+		const env = { DB: fakeDB(0), TURNSTILE_SECRET_KEY: 'secret' } as Env;
+		const fetcher = (async () => new Response(JSON.stringify({ success: false, 'error-codes': ['invalid-input-response'] }))) as unknown as typeof fetch;
+
+		expect(await runSpamChecks(context({}, { config, env, fetcher }))).toMatchObject({ reason: 'Missing Turnstile token' });
+		expect(await runSpamChecks(context({ 'cf-turnstile-response': 'bad' }, { config, env, fetcher }))).toMatchObject({
+			check: 'turnstile',
+			response: 'challenge_failed',
+		});
+	});
+
+	it('should fail the challenge when Turnstile cannot be reached', async () => {
+		const config = { ...CONFIG, features: { ...CONFIG.features, enableTurnstile: true } };
+		const env = { DB: fakeDB(0), TURNSTILE_SECRET_KEY: 'secret' } as Env;
+		const unreachable = (async () => {
+			throw new TypeError('fetch failed');
+		}) as unknown as typeof fetch;
+		const garbage = (async () => new Response('<html>Bad gateway</html>', { status: 502 })) as unknown as typeof fetch;
+
+		for (const fetcher of [unreachable, garbage]) {
+			expect(await runSpamChecks(context({ 'cf-turnstile-response': 'token' }, { config, env, fetcher }))).toEqual({
+				check: 'turnstile',
+				reason: 'Turnstile verification unavailable',
+				response: 'challenge_failed',
+			});
+		}
+	});
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG } from '../src/config';
+import { getEmailTemplate, renderEmail, renderTemplatePreview } from '../src/templates';
+import type { FormSubmission } from '../src/types';
+
+const submission: FormSubmission = {
+	id: 'abc-123',
+	reference: 'REF-7K2M-X9QD',
+	form_id: 'default',
+	name: 'Jane <script>',
+	email: 'jane@example.com',
+	service_type: 'General Inquiry',
+	priority: 'high',
+	message: 'First line\nSecond line with {{reference}} & <b>',
+	timestamp: '2025-01-01T09:00:00.000Z',
+};
+
+describe('Email templates', () => {
+	it('should pick the override for the service type', () => {
+		expect(getEmailTemplate('acknowledgement', 'Technical Support', CONFIG)).toBe(CONFIG.email.templates.byService['Technical Support'].acknowledgement);
+		expect(getEmailTemplate('acknowledgement', 'Other', CONFIG)).toBe(CONFIG.email.templates.acknowledgement);
+		expect(getEmailTemplate('adminNotification', 'Technical Support', CONFIG)).toBe(CONFIG.email.templates.adminNotification);
+	});
+
+	it('should fill the admin notification with a link to the submission', () => {
+		const email = renderEmail('adminNotification', submission, CONFIG, { baseUrl: 'https://forms.example.com', environment: 'staging' });
+		expect(email.subject).toBe('New Contact Form: General Inquiry - Jane <script>');
+		expect(email.text).toContain('👤 Customer: Jane <script>');
+		expect(email.text).toContain('🚨 Priority: High (respond within 8h)');
+		expect(email.text).toContain('🌐 Environment: staging');
+		expect(email.text).toContain('🔗 Open: https://forms.example.com/admin/submissions/abc-123');
+		expect(email.html).toContain('<a href="https://forms.example.com/admin/submissions/abc-123"');
+	});
+
+	it('should escape values in the HTML part and leave typed placeholders alone', () => {
+		const { text, html } = renderEmail('acknowledgement', submission, CONFIG);
+		expect(text).toContain('Hi Jane <script>,');
+		expect(text).toContain('> First line\n> Second line with {{reference}} & <b>');
+		expect(text).toContain(CONFIG.contactForm.responseTimeMessage);
+		expect(html).toContain('Hi Jane &lt;script&gt;,');
+		expect(html).toContain('First line<br>Second line with {{reference}} &amp; &lt;b&gt;</blockquote>');
+		expect(html).not.toContain('<script>');
+	});
+
+	it('should theme the HTML from the styling colors', () => {
+		const { html } = renderEmail('acknowledgement', submission, CONFIG);
+		expect(html).toContain(`background: ${CONFIG.styling.colors.primary}`);
+		expect(html).toContain(`border-top: 3px solid ${CONFIG.styling.colors.accent}`);
+		expect(html).toContain('<title>We&#39;ve received your message [REF-7K2M-X9QD]</title>');
+	});
+
+	it('should use a template\'s own HTML and keep unknown placeholders', () => {
+		const config = {
+			...CONFIG,
+			email: {
+				...CONFIG.email,
+				templates: {
+					...CONFIG.email.templates,
+					acknowledgement: { subject: 'Hi {{name}} {{nope}}', text: 'Hi {{name}}', html: '<h1>Hi {{name}}</h1>' },
+				},
+			},
+		};
+		const email = renderEmail('acknowledgement', submission, config);
+		expect(email.subject).toBe('Hi Jane <script> {{nope}}');
+		expect(email.text).toBe('Hi Jane <script>');
+		expect(email.html).toContain('<h1>Hi Jane &lt;script&gt;</h1>');
+	});
+
+	it('should preview against a sample submission', () => {
+		const preview = renderTemplatePreview('acknowledgement', 'Technical Support', CONFIG, 'https://forms.example.com');
+		expect(preview.subject).toBe('Support request REF-7K2M-X9QD received');
+		expect(preview.text).toContain('Hi Jane Doe,');
+		expect(renderTemplatePreview('adminNotification', null, CONFIG, 'https://forms.example.com').subject).toBe(
+			`New Contact Form: ${CONFIG.contactForm.serviceTypes[0]} - Jane Doe`,
+		);
+	});
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG } from '../src/config';
+import { getContactFormHTML } from '../src/html';
+import { validateForm } from '../src/validation';
+
+const validValues = {
+	name: 'Jane Customer',
+	email: 'jane@example.com',
+	phone: '+1 (555) 123-4567',
+	service_type: 'Technical Support',
+	message: 'My widget stopped working after the update.',
+};
+
+describe('Form validation', () => {
+	it('should accept a valid submission', () => {
+		expect(validateForm(validValues, CONFIG)).toEqual({});
+	});
+
+	it('should use the configured messages for required fields', () => {
+		const errors = validateForm({}, CONFIG);
+		expect(errors).toEqual({
+			name: 'Name is required',
+			service_type: 'Please select a service type',
+			message: 'Message is required',
+		});
+	});
+
+	it('should check email and phone formats', () => {
+		const errors = validateForm({ ...validValues, email: 'not-an-email', phone: 'call me' }, CONFIG);
+		expect(errors.email).toBe('Please enter a valid email address');
+		expect(errors.phone).toBe('Please enter a valid phone number');
+	});
+
+	it('should enforce length limits', () => {
+		const errors = validateForm({ ...validValues, name: 'x'.repeat(101), message: 'short' }, CONFIG);
+		expect(errors.name).toBe('Name must be at most 100 characters');
+		expect(errors.message).toBe('Message must be at least 10 characters');
+	});
+
+	it('should only allow configured service types', () => {
+		const errors = validateForm({ ...validValues, service_type: 'Free Money' }, CONFIG);
+		expect(errors.service_type).toBe('Please select one of the listed service types');
+	});
+
+	it('should re-render errors inline and keep the user input', () => {
+		const values = { ...validValues, email: 'not-an-email' };
+		const html = getContactFormHTML(CONFIG, { values, errors: validateForm(values, CONFIG) });
+
+		expect(html).toContain('Please enter a valid email address');
+		expect(html).toContain('value="not-an-email" aria-invalid="true"');
+		expect(html).toContain('value="Technical Support" selected');
+		expect(html).toContain('My widget stopped working after the update.</textarea>');
+	});
+});
@@ -0,0 +1,161 @@
+import { createHmac } from 'node:crypto';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, it, expect } from 'vitest';
+import { getWebhooksHTML } from '../src/admin-html';
+import { CONFIG } from '../src/config';
+import type { SubmissionRow } from '../src/types';
+import { deliverWebhook, dispatchSubmissionChanges, getWebhookEndpoints, type WebhookDeliveryRow, type WebhookDispatcher } from '../src/webhooks';
+
+const SECRET = 'test-secret';
+
+const delivery: WebhookDeliveryRow = {
+	id: 3,
+	endpoint: 'crm',
+	url: '',
+	event: 'submission.created',
+	submission_id: 'abc-123',
+	payload: JSON.stringify({ event: 'submission.created', created_at: '2025-01-01T09:00:00.000Z', data: { submission: { id: 'abc-123' } } }),
+	status: 'pending',
+	attempts: 0,
+	response_status: null,
+	last_error: null,
+	next_attempt_at: '2025-01-01 09:00:00',
+	delivered_at: null,
+	created_at: '2025-01-01 09:00:00',
+};
+
+const config = {
+	...CONFIG,
+	webhooks: { ...CONFIG.webhooks, timeoutSeconds: 1, endpoints: [{ name: 'crm', url: 'https://crm.example.com/hooks', events: ['submission.created' as const] }] },
+};
+
+/** Records every statement; the claim UPDATE succeeds unless claimed is false */
+function fakeDB(claimed = true) {
+	const queries: { sql: string; params: unknown[] }[] = [];
+	const db = {
+		prepare(sql: string) {
+			const statement = {
+				bind(...params: unknown[]) {
+					queries.push({ sql, params });
+					return statement;
+				},
+				async run() {
+					return { meta: { changes: claimed ? 1 : 0 } };
+				},
+			};
+			return statement;
+		},
+	};
+	return { db: db as unknown as D1Database, queries };
+}
+
+/** A local endpoint that answers with the given status and keeps what it received */
+async function startReceiver(status = 200) {
+	const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+	const server = createServer((request, response) => {
+		let body = '';
+		request.on('data', (chunk) => (body += chunk));
+		request.on('end', () => {
+			received.push({ headers: request.headers, body });
+			response.writeHead(status, { 'Content-Type': 'text/plain' });
+			response.end(status === 200 ? 'ok' : 'receiver is down');
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	servers.push(server);
+	return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`, received };
+}
+
+const servers: Server[] = [];
+afterEach(async () => {
+	await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+});
+
+describe('Outbound webhooks', () => {
+	it('should POST a signed payload the receiver can verify', async () => {
+		const receiver = await startReceiver();
+		const { db, queries } = fakeDB();
+
+		expect(await deliverWebhook(db, { ...delivery, url: receiver.url }, SECRET, config)).toBe(true);
+		const [{ headers, body }] = receiver.received;
+		expect(body).toBe(delivery.payload);
+		expect(headers['x-webhook-event']).toBe('submission.created');
+		expect(headers['x-webhook-id']).toBe('3');
+		const expected = createHmac('sha256', SECRET).update(`${headers['x-webhook-timestamp']}.${body}`).digest('hex');
+		expect(headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+
+		expect(queries[0].sql).toContain("next_attempt_at <= datetime('now')");
+		expect(queries[1].sql).toContain("status = 'delivered'");
+		expect(queries[1].params).toEqual([1, 200, 3]);
+	});
+
+	it('should schedule a retry, then dead-letter after the last attempt', async () => {
+		const receiver = await startReceiver(503);
+		const retry = fakeDB();
+		expect(await deliverWebhook(retry.db, { ...delivery, url: receiver.url, attempts: 1 }, SECRET, config)).toBe(false);
+		expect(retry.queries[1].params).toEqual([2, 503, 'HTTP 503: receiver is down', '+120 seconds', 3]);
+
+		const dead = fakeDB();
+		const last = { ...delivery, url: receiver.url, attempts: config.webhooks.maxAttempts - 1 };
+		expect(await deliverWebhook(dead.db, last, undefined, config)).toBe(false);
+		expect(dead.queries[1].sql).toContain("status = 'dead'");
+		expect(dead.queries[1].params).toEqual([config.webhooks.maxAttempts, null, 'WEBHOOK_SECRET is not set', 3]);
+		expect(receiver.received).toHaveLength(1);
+	});
+
+	it('should leave deliveries another sender has claimed', async () => {
+		const receiver = await startReceiver();
+		const { db, queries } = fakeDB(false);
+
+		expect(await deliverWebhook(db, { ...delivery, url: receiver.url }, SECRET, config)).toBe(false);
+		expect(receiver.received).toHaveLength(0);
+		expect(queries).toHaveLength(1);
+	});
+
+	it('should raise status and assignment events for admin changes', async () => {
+		const events: { event: string; data: Record<string, unknown> }[] = [];
+		const webhooks: WebhookDispatcher = {
+			async dispatch(event, _submissionId, data) {
+				events.push({ event, data });
+			},
+		};
+		const previous = {
+			id: 'abc-123',
+			status: 'new',
+			assigned_to: null,
+			ip_address: '203.0.113.9',
+			created_at: '2025-01-01 09:00:00',
+			updated_at: '2025-01-01 09:00:00',
+		} as SubmissionRow;
+		const submission = { ...previous, status: 'in_progress', assigned_to: 'sam@example.com' } as SubmissionRow;
+
+		await dispatchSubmissionChanges(webhooks, { previous, submission }, 'admin@example.com', CONFIG);
+		expect(events.map(({ event }) => event)).toEqual(['submission.status_changed', 'submission.assigned']);
+		expect(events[0].data).toMatchObject({ actor: 'admin@example.com', previous_status: 'new' });
+		expect(events[1].data).toMatchObject({ previous_assignee: null, submission: { assigned_to: 'sam@example.com' } });
+		expect(events[0].data.submission).not.toHaveProperty('ip_address');
+		expect(getWebhookEndpoints('submission.replied', config)).toEqual([]);
+	});
+
+	it('should list endpoints with a test button and the delivery log', () => {
+		const html = getWebhooksHTML(
+			{
+				entries: [{ ...delivery, url: 'https://crm.example.com/hooks', status: 'dead', attempts: 6, response_status: 500, last_error: 'HTTP 500: <oops>' }],
+				status: undefined,
+				counts: { pending: 0, delivered: 4, dead: 1 },
+				page: 1,
+				pageCount: 1,
+			},
+			{ email: 'admin@example.com' },
+			config,
+			'token123',
+		);
+		expect(html).toContain('action="/admin/webhooks/test"');
+		expect(html).toContain('name="endpoint" value="crm"');
+		expect(html).toContain('value="token123"');
+		expect(html).toContain('All (5)');
+		expect(html).toContain('HTTP 500: &lt;oops&gt;');
+		expect(html).toContain('href="/admin/submissions/abc-123"');
+	});
+});